@@ -0,0 +1,27 @@
+-- D1 migration: full-text index over site names and descriptions for /api/sites?q=
+CREATE VIRTUAL TABLE IF NOT EXISTS sites_fts USING fts5(
+  name,
+  description,
+  content='sites',
+  content_rowid='id'
+);
+
+CREATE TRIGGER IF NOT EXISTS sites_fts_after_insert AFTER INSERT ON sites BEGIN
+  INSERT INTO sites_fts (rowid, name, description) VALUES (new.id, new.name, new.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS sites_fts_after_delete AFTER DELETE ON sites BEGIN
+  INSERT INTO sites_fts (sites_fts, rowid, name, description)
+  VALUES ('delete', old.id, old.name, old.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS sites_fts_after_update AFTER UPDATE OF name, description ON sites BEGIN
+  INSERT INTO sites_fts (sites_fts, rowid, name, description)
+  VALUES ('delete', old.id, old.name, old.description);
+  INSERT INTO sites_fts (rowid, name, description) VALUES (new.id, new.name, new.description);
+END;
+
+INSERT INTO sites_fts (sites_fts) VALUES ('rebuild');
+
+CREATE INDEX IF NOT EXISTS idx_sites_created_at ON sites(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_sites_name ON sites(name COLLATE NOCASE, id);
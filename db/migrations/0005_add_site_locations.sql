@@ -0,0 +1,8 @@
+-- D1 migration: location fields that power regional stats, nearby search, and map output
+ALTER TABLE sites ADD COLUMN address TEXT;
+ALTER TABLE sites ADD COLUMN region TEXT;
+ALTER TABLE sites ADD COLUMN latitude REAL;
+ALTER TABLE sites ADD COLUMN longitude REAL;
+
+CREATE INDEX IF NOT EXISTS idx_sites_region ON sites(region COLLATE NOCASE);
+CREATE INDEX IF NOT EXISTS idx_sites_coordinates ON sites(latitude, longitude);
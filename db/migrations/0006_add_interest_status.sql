@@ -0,0 +1,8 @@
+-- D1 migration: track how staff follow up on interest signups
+ALTER TABLE interest_signups ADD COLUMN status TEXT NOT NULL DEFAULT 'new'
+  CHECK (status IN ('new', 'contacted', 'converted', 'spam'));
+ALTER TABLE interest_signups ADD COLUMN status_updated_at DATETIME;
+ALTER TABLE interest_signups ADD COLUMN site_id INTEGER REFERENCES sites(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_interest_signups_status ON interest_signups(status, id);
+CREATE INDEX IF NOT EXISTS idx_interest_signups_created_at ON interest_signups(created_at, id);
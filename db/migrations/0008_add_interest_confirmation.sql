@@ -0,0 +1,13 @@
+-- D1 migration: double opt-in confirmation and self-service removal for interest signups
+ALTER TABLE interest_signups ADD COLUMN confirmation_token_hash TEXT;
+ALTER TABLE interest_signups ADD COLUMN confirmation_sent_at DATETIME;
+ALTER TABLE interest_signups ADD COLUMN confirmed_at DATETIME;
+ALTER TABLE interest_signups ADD COLUMN manage_token_hash TEXT;
+
+-- Signups collected before double opt-in were gathered directly by organizers.
+UPDATE interest_signups SET confirmed_at = created_at WHERE confirmed_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interest_signups_confirmation_token
+  ON interest_signups(confirmation_token_hash);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interest_signups_manage_token
+  ON interest_signups(manage_token_hash);
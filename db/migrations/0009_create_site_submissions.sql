@@ -0,0 +1,17 @@
+-- D1 migration: public cooperative submissions wait here until a moderator reviews them
+CREATE TABLE IF NOT EXISTS site_submissions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  -- Site the submission proposes changes to; set to the created site once a new entry is approved.
+  site_id INTEGER REFERENCES sites(id) ON DELETE SET NULL,
+  payload TEXT NOT NULL,
+  submitter_name TEXT,
+  submitter_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  review_reason TEXT,
+  reviewed_by TEXT,
+  reviewed_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_submissions_status ON site_submissions(status, id);
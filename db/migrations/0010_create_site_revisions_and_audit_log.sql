@@ -0,0 +1,58 @@
+-- D1 migration: per-site revision snapshots and an audit trail of staff actions
+-- Revisions intentionally have no foreign key so history survives a site being deleted.
+CREATE TABLE IF NOT EXISTS site_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id INTEGER NOT NULL,
+  revision INTEGER NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore')),
+  snapshot TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  actor_token_id INTEGER,
+  note TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (site_id, revision)
+);
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  actor TEXT NOT NULL,
+  actor_token_id INTEGER,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  details TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action, id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_type, target_id, id);
+
+-- Give every existing site a first revision so there is always something to restore.
+INSERT INTO site_revisions (site_id, revision, action, snapshot, actor, created_at)
+SELECT
+  s.id,
+  1,
+  'create',
+  json_object(
+    'id', s.id,
+    'name', s.name,
+    'description', s.description,
+    'website', s.website,
+    'address', s.address,
+    'region', s.region,
+    'latitude', s.latitude,
+    'longitude', s.longitude,
+    'tags', json((
+      SELECT json_group_array(label)
+      FROM (
+        SELECT t.label
+        FROM site_tags st
+        JOIN tags t ON t.id = st.tag_id
+        WHERE st.site_id = s.id
+        ORDER BY t.label
+      )
+    ))
+  ),
+  'system',
+  COALESCE(s.created_at, CURRENT_TIMESTAMP)
+FROM sites s;
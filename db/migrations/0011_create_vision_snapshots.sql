@@ -0,0 +1,12 @@
+-- D1 migration: daily snapshots of the vision assessment so alignment can be tracked over time
+CREATE TABLE IF NOT EXISTS vision_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  snapshot_date TEXT NOT NULL UNIQUE,
+  progress_score REAL NOT NULL,
+  site_count INTEGER NOT NULL,
+  total_tags INTEGER NOT NULL,
+  average_tags_per_site REAL NOT NULL,
+  coverage_ratio REAL NOT NULL,
+  metrics TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,14 @@
+-- D1 migration: admin overrides of config/vision.yaml. The newest row is the active config;
+-- with no rows the worker falls back to the bundled YAML.
+CREATE TABLE IF NOT EXISTS vision_configs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  format TEXT NOT NULL CHECK (format IN ('yaml', 'json')),
+  source TEXT NOT NULL,
+  -- The document's own `version` label, copied out for listings.
+  version_label TEXT,
+  hash TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  actor_token_id INTEGER,
+  note TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
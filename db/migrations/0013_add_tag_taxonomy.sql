@@ -0,0 +1,49 @@
+-- D1 migration: tag taxonomy. Tags gain a slug (the normalized form every write is matched on),
+-- an optional category, and an optional parent. Aliases map other spellings to a tag.
+ALTER TABLE tags ADD COLUMN slug TEXT;
+ALTER TABLE tags ADD COLUMN category TEXT
+  CHECK (category IN ('technology', 'ownership', 'region', 'practice'));
+ALTER TABLE tags ADD COLUMN parent_id INTEGER REFERENCES tags(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS tag_aliases (
+  slug TEXT PRIMARY KEY,
+  -- The spelling the alias was created from, for display.
+  label TEXT NOT NULL,
+  tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Approximates slugify() in src/utils/slug.ts for existing labels: lowercase, with spaces and
+-- common punctuation turned into single hyphens. Anything it misses can be merged by an admin.
+UPDATE tags SET slug = COALESCE(
+  NULLIF(
+    trim(
+      replace(replace(replace(
+        lower(
+          replace(replace(replace(replace(replace(replace(trim(label),
+            ' ', '-'), '_', '-'), '/', '-'), '.', '-'), ',', '-'), '&', '-')
+        ),
+      '---', '-'), '--', '-'), '--', '-'),
+      '-'
+    ),
+    ''
+  ),
+  'tag-' || id
+);
+
+-- Labels that differ only in case or punctuation now share a slug, so fold them into the oldest tag.
+INSERT OR IGNORE INTO site_tags (site_id, tag_id)
+  SELECT st.site_id, (SELECT MIN(c.id) FROM tags c WHERE c.slug = t.slug)
+  FROM site_tags st
+  JOIN tags t ON t.id = st.tag_id;
+
+DELETE FROM site_tags
+WHERE tag_id IN (
+  SELECT t.id FROM tags t WHERE t.id > (SELECT MIN(c.id) FROM tags c WHERE c.slug = t.slug)
+);
+
+DELETE FROM tags WHERE id > (SELECT MIN(c.id) FROM tags c WHERE c.slug = tags.slug);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_slug ON tags(slug);
+CREATE INDEX IF NOT EXISTS idx_tags_parent ON tags(parent_id);
+CREATE INDEX IF NOT EXISTS idx_tag_aliases_tag ON tag_aliases(tag_id);
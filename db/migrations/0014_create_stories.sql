@@ -0,0 +1,17 @@
+-- D1 migration: stories that document a cooperative against one of the vision's
+-- storytelling_focus areas. Bodies are stored as sanitized Markdown and rendered on read.
+CREATE TABLE IF NOT EXISTS stories (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  focus TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  published_on TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_stories_site ON stories(site_id, published_on DESC);
+CREATE INDEX IF NOT EXISTS idx_stories_published ON stories(published_on DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_stories_focus ON stories(focus);
@@ -0,0 +1,22 @@
+-- D1 migration: events and gatherings hosted by cooperatives. Times are stored as UTC instants
+-- (YYYY-MM-DDTHH:MM:SSZ) so they sort and compare as text, with the host's IANA time zone kept
+-- for display. sequence counts edits for the iCalendar SEQUENCE property.
+CREATE TABLE IF NOT EXISTS events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  location TEXT,
+  starts_at TEXT NOT NULL,
+  ends_at TEXT NOT NULL,
+  timezone TEXT NOT NULL,
+  sequence INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  CHECK (ends_at >= starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_starts ON events(starts_at);
+CREATE INDEX IF NOT EXISTS idx_events_ends ON events(ends_at);
+CREATE INDEX IF NOT EXISTS idx_events_site ON events(site_id, starts_at);
@@ -0,0 +1,24 @@
+-- D1 migration: membership details on sites and structured contacts. Each contact field has its
+-- own visibility, and private values are only returned to organizers.
+ALTER TABLE sites ADD COLUMN ownership_model TEXT
+  CHECK (ownership_model IN ('consumer', 'worker', 'multi-stakeholder', 'community', 'municipal', 'other'));
+ALTER TABLE sites ADD COLUMN member_count INTEGER CHECK (member_count >= 0);
+ALTER TABLE sites ADD COLUMN founded_year INTEGER;
+ALTER TABLE sites ADD COLUMN capacity_kw REAL CHECK (capacity_kw >= 0);
+ALTER TABLE sites ADD COLUMN how_to_join TEXT;
+
+CREATE TABLE IF NOT EXISTS site_contacts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  -- Order the contacts were listed in.
+  position INTEGER NOT NULL,
+  role TEXT NOT NULL,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  name_visibility TEXT NOT NULL DEFAULT 'public' CHECK (name_visibility IN ('public', 'private')),
+  email_visibility TEXT NOT NULL DEFAULT 'public' CHECK (email_visibility IN ('public', 'private')),
+  phone_visibility TEXT NOT NULL DEFAULT 'private' CHECK (phone_visibility IN ('public', 'private'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_contacts_site ON site_contacts(site_id, position);
@@ -0,0 +1,15 @@
+-- D1 migration: latest result of the scheduled website check for each site. url records which
+-- website was checked, so a result stops applying once the site's website changes.
+-- consecutive_failures resets to 0 on the first successful check.
+CREATE TABLE IF NOT EXISTS site_link_checks (
+  site_id INTEGER PRIMARY KEY REFERENCES sites(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  status_code INTEGER,
+  redirect_url TEXT,
+  error TEXT,
+  checked_at TEXT NOT NULL,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0 CHECK (consecutive_failures >= 0),
+  last_ok_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_link_checks_checked ON site_link_checks(checked_at);
@@ -0,0 +1,121 @@
+-- D1 migration: a counter bumped by every write to the data behind the cached directory routes
+-- (/, /api/sites, /api/next-steps, /api/vision). Responses are cached and tagged per version, so
+-- bumping it invalidates them all. Triggers keep it in step with every writer, including batches.
+CREATE TABLE IF NOT EXISTS directory_version (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT OR IGNORE INTO directory_version (id, version) VALUES (1, 1);
+
+CREATE TRIGGER IF NOT EXISTS directory_version_sites_insert AFTER INSERT ON sites BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_sites_update AFTER UPDATE ON sites BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_sites_delete AFTER DELETE ON sites BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_site_tags_insert AFTER INSERT ON site_tags BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_site_tags_update AFTER UPDATE ON site_tags BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_site_tags_delete AFTER DELETE ON site_tags BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_tags_insert AFTER INSERT ON tags BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_tags_update AFTER UPDATE ON tags BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_tags_delete AFTER DELETE ON tags BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_tag_aliases_insert AFTER INSERT ON tag_aliases BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_tag_aliases_update AFTER UPDATE ON tag_aliases BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_tag_aliases_delete AFTER DELETE ON tag_aliases BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_site_contacts_insert AFTER INSERT ON site_contacts BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_site_contacts_update AFTER UPDATE ON site_contacts BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_site_contacts_delete AFTER DELETE ON site_contacts BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_stories_insert AFTER INSERT ON stories BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_stories_update AFTER UPDATE ON stories BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_stories_delete AFTER DELETE ON stories BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_vision_configs_insert AFTER INSERT ON vision_configs BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_vision_configs_update AFTER UPDATE ON vision_configs BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_vision_configs_delete AFTER DELETE ON vision_configs BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_vision_snapshots_insert AFTER INSERT ON vision_snapshots BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_vision_snapshots_update AFTER UPDATE ON vision_snapshots BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_vision_snapshots_delete AFTER DELETE ON vision_snapshots BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+-- Link checks run hourly, so only a change in a website's health counts, not each new checked_at.
+CREATE TRIGGER IF NOT EXISTS directory_version_site_link_checks_insert AFTER INSERT ON site_link_checks BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
+
+CREATE TRIGGER IF NOT EXISTS directory_version_site_link_checks_update AFTER UPDATE ON site_link_checks
+WHEN old.url IS NOT new.url
+  OR old.status_code IS NOT new.status_code
+  OR old.redirect_url IS NOT new.redirect_url
+  OR old.error IS NOT new.error
+  OR old.consecutive_failures IS NOT new.consecutive_failures
+BEGIN
+  UPDATE directory_version SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1;
+END;
@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+// Validates config/vision.yaml (or the file given as the first argument) with the same checks
+// the worker runs at startup. Exits non-zero and prints one line per problem when it is invalid.
+import { build } from 'esbuild';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const file = process.argv[2] ?? `${root}config/vision.yaml`;
+
+// Compile the TypeScript schema next to node_modules so its `yaml` import resolves.
+const outfile = `${root}node_modules/.cache/check-vision/visionSchema.mjs`;
+await build({
+  entryPoints: [`${root}src/config/visionSchema.ts`],
+  bundle: true,
+  format: 'esm',
+  platform: 'node',
+  packages: 'external',
+  outfile,
+  logLevel: 'error',
+});
+const schema = await import(pathToFileURL(outfile).href);
+
+const yaml = (await readFile(file, 'utf8')).trim();
+const result = schema.parseVisionYaml(yaml);
+if (!result.valid) {
+  console.error(`${file} is invalid:\n${schema.formatVisionErrors(result.errors)}`);
+  process.exit(1);
+}
+
+const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(yaml));
+const hash = Buffer.from(digest).toString('hex').slice(0, 12);
+const { version, pillars } = result.config;
+console.log(
+  `${file} is valid: version ${version ?? '(unset)'}, hash ${hash}, ${pillars.length} pillars.`,
+);
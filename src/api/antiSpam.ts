@@ -0,0 +1,126 @@
+import type { Env } from '../types/env';
+import { deleteExpiredRateLimits, hitRateLimit } from '../data/rateLimits';
+import { sha256Hex } from '../utils/crypto';
+import { jsonResponse } from '../utils/http';
+
+/** Hidden form field that people never see; bots that fill every input trip it. */
+export const HONEYPOT_FIELD = 'company_website';
+
+/** Milliseconds a public form must be open before a submission is believable. */
+export const MIN_FORM_ELAPSED_MS = 3000;
+
+const HONEYPOT_RETRY_AFTER_SECONDS = 60;
+
+type RateLimits = {
+  ip: { limit: number; windowSeconds: number };
+  email: { limit: number; windowSeconds: number };
+};
+
+export const INTEREST_RATE_LIMITS: RateLimits = {
+  ip: { limit: 5, windowSeconds: 60 * 60 },
+  email: { limit: 3, windowSeconds: 60 * 60 * 24 },
+};
+
+export const SUBMISSION_RATE_LIMITS: RateLimits = {
+  ip: { limit: 5, windowSeconds: 60 * 60 * 24 },
+  email: { limit: 3, windowSeconds: 60 * 60 * 24 },
+};
+
+const LONGEST_WINDOW_SECONDS = Math.max(
+  ...[INTEREST_RATE_LIMITS, SUBMISSION_RATE_LIMITS].flatMap((limits) => [
+    limits.ip.windowSeconds,
+    limits.email.windowSeconds,
+  ]),
+);
+
+export function tooManyRequestsResponse(message: string, retryAfterSeconds: number): Response {
+  return jsonResponse(
+    { message, retryAfter: retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } },
+  );
+}
+
+/**
+ * Rejects submissions that filled the honeypot or arrived faster than a person could type.
+ * Returns null when the submission looks human.
+ */
+export function checkSubmissionTraps(record: Record<string, unknown>): Response | null {
+  const honeypot = record[HONEYPOT_FIELD];
+  if (typeof honeypot === 'string' && honeypot.trim()) {
+    return tooManyRequestsResponse(
+      'Submission blocked. Please try again later.',
+      HONEYPOT_RETRY_AFTER_SECONDS,
+    );
+  }
+
+  const elapsed = Number(record.formElapsedMs);
+  if (!Number.isFinite(elapsed) || elapsed < MIN_FORM_ELAPSED_MS) {
+    const waitMs = Number.isFinite(elapsed) ? MIN_FORM_ELAPSED_MS - Math.max(elapsed, 0) : MIN_FORM_ELAPSED_MS;
+    return tooManyRequestsResponse(
+      'That was quick! Please take a moment and submit again.',
+      Math.max(Math.ceil(waitMs / 1000), 1),
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Applies per-IP and per-email limits for one kind of submission. Buckets are keyed by
+ * hashes so the table never stores raw addresses.
+ */
+async function checkRateLimits(
+  request: Request,
+  env: Env,
+  scope: string,
+  limits: RateLimits,
+  email: string,
+): Promise<Response | null> {
+  const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+  const [ipHash, emailHash] = await Promise.all([sha256Hex(ip), sha256Hex(email)]);
+
+  const [ipResult, emailResult] = await Promise.all([
+    hitRateLimit(env.DB, `${scope}:ip:${ipHash}`, limits.ip.limit, limits.ip.windowSeconds),
+    hitRateLimit(
+      env.DB,
+      `${scope}:email:${emailHash}`,
+      limits.email.limit,
+      limits.email.windowSeconds,
+    ),
+  ]);
+
+  try {
+    await deleteExpiredRateLimits(env.DB, LONGEST_WINDOW_SECONDS);
+  } catch (error) {
+    console.error('Failed to prune expired rate limits', error);
+  }
+
+  if (!ipResult.allowed || !emailResult.allowed) {
+    const retryAfter = Math.max(
+      ipResult.allowed ? 0 : ipResult.retryAfterSeconds,
+      emailResult.allowed ? 0 : emailResult.retryAfterSeconds,
+    );
+    return tooManyRequestsResponse(
+      'Too many submissions. Please try again later.',
+      retryAfter,
+    );
+  }
+
+  return null;
+}
+
+export function checkInterestRateLimits(
+  request: Request,
+  env: Env,
+  email: string,
+): Promise<Response | null> {
+  return checkRateLimits(request, env, 'interest', INTEREST_RATE_LIMITS, email);
+}
+
+export function checkSubmissionRateLimits(
+  request: Request,
+  env: Env,
+  email: string,
+): Promise<Response | null> {
+  return checkRateLimits(request, env, 'submission', SUBMISSION_RATE_LIMITS, email);
+}
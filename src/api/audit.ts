@@ -0,0 +1,80 @@
+import type { Env } from '../types/env';
+import type { AuditQueryOptions } from '../types/history';
+import {
+  DEFAULT_AUDIT_PAGE_SIZE,
+  insertAuditEntry,
+  queryAuditLog,
+  type AuditInput,
+} from '../data/auditLog';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { sanitizeOptionalField } from '../utils/validation';
+
+const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * Appends to the audit log after a staff action has succeeded. A failed write is logged
+ * rather than surfaced, because the action itself has already been applied.
+ */
+export async function recordAudit(env: Env, entry: AuditInput): Promise<void> {
+  try {
+    await insertAuditEntry(env.DB, entry);
+  } catch (error) {
+    console.error(`Failed to record audit entry for ${entry.action}`, error);
+  }
+}
+
+export function parseAuditQuery(params: URLSearchParams):
+  | { valid: true; options: AuditQueryOptions }
+  | { valid: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+
+  let cursor: number | null = null;
+  const cursorRaw = params.get('cursor');
+  if (cursorRaw) {
+    cursor = Number(cursorRaw);
+    if (!Number.isInteger(cursor) || cursor < 1) {
+      errors.push({ field: 'cursor', message: 'cursor must be an audit entry id.' });
+    }
+  }
+
+  let limit = DEFAULT_AUDIT_PAGE_SIZE;
+  const limitRaw = params.get('limit');
+  if (limitRaw !== null) {
+    limit = Number(limitRaw);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+      errors.push({
+        field: 'limit',
+        message: `limit must be a whole number between 1 and ${MAX_AUDIT_PAGE_SIZE}.`,
+      });
+    }
+  }
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    options: {
+      action: sanitizeOptionalField(params.get('action'), 60),
+      targetType: sanitizeOptionalField(params.get('targetType'), 60),
+      targetId: sanitizeOptionalField(params.get('targetId'), 60),
+      cursor,
+      limit,
+    },
+  };
+}
+
+export async function handleAuditList(url: URL, env: Env): Promise<Response> {
+  const parsed = parseAuditQuery(url.searchParams);
+  if (!parsed.valid) {
+    return validationErrorResponse('Invalid audit query.', parsed.errors);
+  }
+
+  try {
+    return jsonResponse(await queryAuditLog(env.DB, parsed.options));
+  } catch (error) {
+    console.error('Failed to list audit entries', error);
+    return jsonResponse({ message: 'Failed to load the audit log right now.' }, { status: 500 });
+  }
+}
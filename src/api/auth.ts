@@ -0,0 +1,300 @@
+import type { Principal, Role } from '../types/auth';
+import type { Env } from '../types/env';
+import {
+  findActiveTokenByHash,
+  insertToken,
+  listTokens,
+  revokeToken,
+  touchToken,
+} from '../data/apiTokens';
+import { sha256, sha256Hex, toHex } from '../utils/crypto';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { recordAudit } from './audit';
+
+export const ROLES: readonly Role[] = ['organizer', 'moderator', 'admin'];
+
+const ROLE_RANK: Record<Role, number> = {
+  organizer: 1,
+  moderator: 2,
+  admin: 3,
+};
+
+const MAX_LABEL_LENGTH = 120;
+
+/** Cookie that carries an API token for the server-rendered admin pages. */
+export const SESSION_COOKIE = 'sr_session';
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 12;
+
+type AuthResult =
+  | { ok: true; principal: Principal }
+  | { ok: false; response: Response };
+
+export async function hashToken(token: string): Promise<string> {
+  return sha256Hex(token);
+}
+
+export function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `sr_${toHex(bytes.buffer)}`;
+}
+
+export function hasRole(principal: Principal, role: Role): boolean {
+  return ROLE_RANK[principal.role] >= ROLE_RANK[role];
+}
+
+function readBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  if (!header) {
+    return null;
+  }
+
+  const match = header.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+function readSessionCookie(request: Request): string | null {
+  const cookie = request.headers.get('Cookie');
+  if (!cookie) {
+    return null;
+  }
+
+  for (const part of cookie.split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(rest.join('=')) || null;
+    }
+  }
+  return null;
+}
+
+export function sessionCookie(token: string): string {
+  return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=${SESSION_MAX_AGE_SECONDS}`;
+}
+
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=0`;
+}
+
+async function matchesBootstrapToken(env: Env, token: string): Promise<boolean> {
+  if (!env.ADMIN_TOKEN) {
+    return false;
+  }
+
+  const [expected, provided] = await Promise.all([sha256(env.ADMIN_TOKEN), sha256(token)]);
+  return crypto.subtle.timingSafeEqual(expected, provided);
+}
+
+export function unauthorizedResponse(message = 'Authentication required.'): Response {
+  return jsonResponse(
+    { message },
+    { status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="solarroots"' } },
+  );
+}
+
+export function forbiddenResponse(role: Role): Response {
+  return jsonResponse(
+    { message: `This action requires the ${role} role.` },
+    { status: 403 },
+  );
+}
+
+/**
+ * Resolves the bearer token (or, for admin pages, the session cookie) on the request to a
+ * principal, or null when the request carries no valid credentials.
+ */
+export async function authenticate(request: Request, env: Env): Promise<Principal | null> {
+  const token = readBearerToken(request) ?? readSessionCookie(request);
+  if (!token) {
+    return null;
+  }
+
+  return authenticateToken(env, token);
+}
+
+export async function authenticateToken(env: Env, token: string): Promise<Principal | null> {
+  if (await matchesBootstrapToken(env, token)) {
+    return { tokenId: null, label: 'bootstrap', role: 'admin' };
+  }
+
+  const record = await findActiveTokenByHash(env.DB, await hashToken(token));
+  if (!record) {
+    return null;
+  }
+
+  try {
+    await touchToken(env.DB, record.id);
+  } catch (error) {
+    console.error(`Failed to update last use of token ${record.id}`, error);
+  }
+
+  return { tokenId: record.id, label: record.label, role: record.role };
+}
+
+/**
+ * Whether the request carries organizer credentials, for public routes that show organizers
+ * more than anonymous readers. Missing, invalid, or unverifiable credentials count as anonymous.
+ */
+export async function isOrganizerRequest(request: Request, env: Env): Promise<boolean> {
+  try {
+    const principal = await authenticate(request, env);
+    return principal !== null && hasRole(principal, 'organizer');
+  } catch (error) {
+    console.error('Failed to verify API token', error);
+    return false;
+  }
+}
+
+/**
+ * Authenticates the request and checks that the principal holds at least `role`.
+ * Failures carry a ready-to-return 401 or 403 response.
+ */
+export async function requireRole(request: Request, env: Env, role: Role): Promise<AuthResult> {
+  let principal: Principal | null;
+  try {
+    principal = await authenticate(request, env);
+  } catch (error) {
+    console.error('Failed to verify API token', error);
+    return {
+      ok: false,
+      response: jsonResponse({ message: 'Unable to verify credentials right now.' }, { status: 500 }),
+    };
+  }
+
+  if (!principal) {
+    return {
+      ok: false,
+      response: request.headers.has('Authorization') || readSessionCookie(request)
+        ? unauthorizedResponse('Invalid or revoked API token.')
+        : unauthorizedResponse(),
+    };
+  }
+
+  if (!hasRole(principal, role)) {
+    return { ok: false, response: forbiddenResponse(role) };
+  }
+
+  return { ok: true, principal };
+}
+
+function validateTokenPayload(data: unknown):
+  | { valid: true; payload: { label: string; role: Role } }
+  | { valid: false; errors: FieldError[] } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Invalid request body.' }] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const label = typeof record.label === 'string' ? record.label.trim() : '';
+  if (!label) {
+    errors.push({ field: 'label', message: 'Label is required.' });
+  } else if (label.length > MAX_LABEL_LENGTH) {
+    errors.push({
+      field: 'label',
+      message: `Label must be at most ${MAX_LABEL_LENGTH} characters.`,
+    });
+  }
+
+  const role = record.role;
+  if (typeof role !== 'string' || !ROLES.includes(role as Role)) {
+    errors.push({ field: 'role', message: `Role must be one of ${ROLES.join(', ')}.` });
+  }
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, payload: { label, role: role as Role } };
+}
+
+export async function handleTokenList(env: Env): Promise<Response> {
+  try {
+    const tokens = await listTokens(env.DB);
+    return jsonResponse({ tokens });
+  } catch (error) {
+    console.error('Failed to list API tokens', error);
+    return jsonResponse({ message: 'Failed to load API tokens right now.' }, { status: 500 });
+  }
+}
+
+export async function handleTokenCreate(
+  request: Request,
+  env: Env,
+  principal: Principal,
+): Promise<Response> {
+  let data: unknown;
+  try {
+    data = await request.json();
+  } catch (error) {
+    console.error('Invalid token payload', error);
+    return jsonResponse({ message: 'Unable to process request body.' }, { status: 400 });
+  }
+
+  const validation = validateTokenPayload(data);
+  if (!validation.valid) {
+    return validationErrorResponse('Invalid token payload.', validation.errors);
+  }
+
+  try {
+    const token = generateToken();
+    const record = await insertToken(
+      env.DB,
+      validation.payload.label,
+      await hashToken(token),
+      validation.payload.role,
+    );
+    await recordAudit(env, {
+      actor: principal,
+      action: 'token.create',
+      targetType: 'token',
+      targetId: record.id,
+      details: { label: record.label, role: record.role },
+    });
+    // The plaintext token is only ever returned here; D1 keeps the hash.
+    return jsonResponse({ ...record, token }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to issue API token', error);
+    return jsonResponse({ message: 'Failed to issue an API token right now.' }, { status: 500 });
+  }
+}
+
+export async function handleTokenRevoke(
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  try {
+    const record = await revokeToken(env.DB, id);
+    if (!record) {
+      return jsonResponse({ message: `Token ${id} was not found.` }, { status: 404 });
+    }
+    await recordAudit(env, {
+      actor: principal,
+      action: 'token.revoke',
+      targetType: 'token',
+      targetId: id,
+      details: { label: record.label },
+    });
+    return jsonResponse(record);
+  } catch (error) {
+    console.error(`Failed to revoke API token ${id}`, error);
+    return jsonResponse({ message: 'Failed to revoke the API token right now.' }, { status: 500 });
+  }
+}
+
+/**
+ * Runs `handler` only when the request is authenticated with at least `role`.
+ */
+export async function withRole(
+  request: Request,
+  env: Env,
+  role: Role,
+  handler: (principal: Principal) => Promise<Response>,
+): Promise<Response> {
+  const auth = await requireRole(request, env, role);
+  if (!auth.ok) {
+    return auth.response;
+  }
+  return handler(auth.principal);
+}
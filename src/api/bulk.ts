@@ -0,0 +1,458 @@
+import type { Principal } from '../types/auth';
+import type { BulkFormat, ImportAction, ImportReport, ImportRowResult } from '../types/bulk';
+import type { SiteRecord } from '../types/directory';
+import type { Env } from '../types/env';
+import { fetchSites, upsertSites, type SiteUpsert } from '../data/sites';
+import { neutralizeFormula, parseCsv, restoreFormula, toCsv } from '../utils/csv';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { recordAudit } from './audit';
+import { diffSiteSnapshots } from './history';
+import { TAG_LIST_SEPARATOR, toSiteInput, validateSitePayload } from './sites';
+
+const MAX_IMPORT_ROWS = 500;
+const MAX_IMPORT_BYTES = 1_000_000;
+
+const DIRECTORY_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'website',
+  'address',
+  'region',
+  'latitude',
+  'longitude',
+  'ownership_model',
+  'member_count',
+  'founded_year',
+  'capacity_kw',
+  'how_to_join',
+  'tags',
+] as const;
+
+// Header cells are matched case-insensitively, so multi-word columns use snake_case.
+const CSV_FIELD_NAMES: Record<string, string> = {
+  ownership_model: 'ownershipModel',
+  member_count: 'memberCount',
+  founded_year: 'foundedYear',
+  capacity_kw: 'capacityKw',
+  how_to_join: 'howToJoin',
+};
+
+// Contacts are nested records, so they travel in JSON only; CSV imports leave them untouched.
+
+// Tags share one CSV cell. Semicolons rather than commas keep the cell readable in spreadsheets;
+// tag validation keeps them out of labels.
+const CSV_TAG_SEPARATOR = TAG_LIST_SEPARATOR;
+
+type ImportRows =
+  | { ok: true; records: { row: number; data: unknown }[]; ignoredColumns: string[] }
+  | { ok: false; errors: FieldError[] };
+
+function parseFormat(value: string | null, fallback: BulkFormat): BulkFormat | null {
+  if (value === null) {
+    return fallback;
+  }
+  return value === 'csv' || value === 'json' ? value : null;
+}
+
+function isDirectoryColumn(column: string): boolean {
+  return (DIRECTORY_COLUMNS as readonly string[]).includes(column);
+}
+
+function directoryCsv(sites: SiteRecord[]): string {
+  return toCsv([
+    [...DIRECTORY_COLUMNS],
+    ...sites.map((site) => [
+      site.id,
+      neutralizeFormula(site.name),
+      neutralizeFormula(site.description),
+      neutralizeFormula(site.website),
+      neutralizeFormula(site.address),
+      neutralizeFormula(site.region),
+      site.latitude,
+      site.longitude,
+      site.ownershipModel,
+      site.memberCount,
+      site.foundedYear,
+      site.capacityKw,
+      neutralizeFormula(site.howToJoin),
+      neutralizeFormula(site.tags.join(`${CSV_TAG_SEPARATOR} `)),
+    ]),
+  ]);
+}
+
+/**
+ * Downloads the whole directory as CSV or JSON, oldest site first, in the shape `/api/import`
+ * accepts.
+ */
+export async function handleDirectoryExport(url: URL, env: Env): Promise<Response> {
+  const format = parseFormat(url.searchParams.get('format'), 'csv');
+  if (!format) {
+    return validationErrorResponse('Invalid export format.', [
+      { field: 'format', message: 'format must be csv or json.' },
+    ]);
+  }
+
+  try {
+    const sites = (await fetchSites(env.DB)).sort((a, b) => a.id - b.id);
+    const exportedAt = new Date().toISOString();
+    const headers = {
+      'content-disposition': `attachment; filename="directory-${exportedAt.slice(0, 10)}.${format}"`,
+      'cache-control': 'no-store',
+    };
+
+    if (format === 'json') {
+      return jsonResponse({ exportedAt, sites }, { headers });
+    }
+
+    return new Response(directoryCsv(sites), {
+      headers: { ...headers, 'content-type': 'text/csv; charset=UTF-8' },
+    });
+  } catch (error) {
+    console.error('Failed to export the directory', error);
+    return jsonResponse({ message: 'Failed to export the directory right now.' }, { status: 500 });
+  }
+}
+
+const DECIMAL_PATTERN = /^-?\d+(?:\.\d+)?$/;
+
+/**
+ * Turns CSV cells into the JSON shape the site validator expects. Only plain decimals become
+ * numbers; anything else, such as `0x1A` or `1e3`, stays a string so the validator reports it.
+ */
+function csvRecord(header: string[], cells: string[]): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  header.forEach((column, index) => {
+    const value = restoreFormula((cells[index] ?? '').trim());
+    const field = CSV_FIELD_NAMES[column] ?? column;
+    switch (column) {
+      case 'id':
+      case 'latitude':
+      case 'longitude':
+      case 'member_count':
+      case 'founded_year':
+      case 'capacity_kw':
+        record[field] = value === '' ? null : DECIMAL_PATTERN.test(value) ? Number(value) : value;
+        break;
+      case 'tags':
+        record.tags = value
+          .split(CSV_TAG_SEPARATOR)
+          .map((tag) => tag.trim())
+          .filter(Boolean);
+        break;
+      default:
+        if (isDirectoryColumn(column)) {
+          record[field] = value;
+        }
+    }
+  });
+  return record;
+}
+
+function readCsvRows(text: string): ImportRows {
+  let table: string[][];
+  try {
+    table = parseCsv(text);
+  } catch (error) {
+    return { ok: false, errors: [{ field: 'body', message: (error as Error).message }] };
+  }
+
+  const [headerCells, ...rows] = table;
+  const header = (headerCells ?? []).map((column) => column.trim().toLowerCase());
+  if (!header.includes('name')) {
+    return {
+      ok: false,
+      errors: [{ field: 'columns', message: 'The CSV header must include a name column.' }],
+    };
+  }
+
+  return {
+    ok: true,
+    records: rows
+      .map((cells, index) => ({ row: index + 2, cells }))
+      .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''))
+      .map(({ row, cells }) => ({ row, data: csvRecord(header, cells) })),
+    ignoredColumns: header.filter((column) => column && !isDirectoryColumn(column)),
+  };
+}
+
+function readJsonRows(text: string): ImportRows {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: [{ field: 'body', message: 'The body is not valid JSON.' }] };
+  }
+
+  const sites =
+    typeof data === 'object' && data !== null && !Array.isArray(data)
+      ? (data as Record<string, unknown>).sites
+      : data;
+  if (!Array.isArray(sites)) {
+    return {
+      ok: false,
+      errors: [{ field: 'sites', message: 'Send an array of sites or an object with a sites array.' }],
+    };
+  }
+
+  return {
+    ok: true,
+    records: sites.map((site, index) => ({ row: index + 1, data: site })),
+    ignoredColumns: [],
+  };
+}
+
+function nameKey(name: string): string {
+  return name.toLowerCase();
+}
+
+/**
+ * Reduces a website to host and path so `https://www.example.coop/` and
+ * `http://example.coop` count as the same site.
+ */
+function websiteKey(website: string | null): string | null {
+  if (!website) {
+    return null;
+  }
+  try {
+    const url = new URL(website);
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    return `${host}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+  } catch {
+    return website.toLowerCase();
+  }
+}
+
+function rowId(data: unknown): { id: number | null; error: FieldError | null } {
+  const value =
+    typeof data === 'object' && data !== null ? (data as Record<string, unknown>).id : undefined;
+  if (value === undefined || value === null || value === '') {
+    return { id: null, error: null };
+  }
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+    ? { id: value, error: null }
+    : { id: null, error: { field: 'id', message: 'id must be a site id.' } };
+}
+
+/**
+ * Validates every row and decides whether it creates, updates, or leaves a site alone. Rows
+ * match an existing site by id first, then by name or website. A row that would give a site the
+ * name or website of a different site, or that repeats an earlier row, is an error. Updates only
+ * touch the fields a row provides.
+ */
+export function planImport(
+  records: { row: number; data: unknown }[],
+  existing: SiteRecord[],
+): { rows: ImportRowResult[]; upserts: SiteUpsert[] } {
+  const byId = new Map(existing.map((site) => [site.id, site]));
+  const byName = new Map(existing.map((site) => [nameKey(site.name), site]));
+  const byWebsite = new Map<string, SiteRecord>();
+  for (const site of existing) {
+    const key = websiteKey(site.website);
+    if (key) {
+      byWebsite.set(key, site);
+    }
+  }
+
+  const seenNames = new Map<string, number>();
+  const seenWebsites = new Map<string, number>();
+  const seenSites = new Map<number, number>();
+  const rows: ImportRowResult[] = [];
+  const upserts: SiteUpsert[] = [];
+
+  for (const { row, data } of records) {
+    const result: ImportRowResult = {
+      row,
+      action: 'error',
+      name: null,
+      siteId: null,
+      matchedBy: null,
+      changes: [],
+      errors: [],
+    };
+    rows.push(result);
+
+    const nameRaw =
+      typeof data === 'object' && data !== null ? (data as Record<string, unknown>).name : null;
+    result.name = typeof nameRaw === 'string' && nameRaw.trim() ? nameRaw.trim() : null;
+
+    const validation = validateSitePayload(data);
+    const id = rowId(data);
+    if (id.error) {
+      result.errors.push(id.error);
+    }
+    if (!validation.valid) {
+      result.errors.push(...validation.errors);
+    }
+    if (!validation.valid || id.error) {
+      continue;
+    }
+
+    const input = validation.payload;
+    const name = nameKey(input.name);
+    const website = websiteKey(input.website);
+
+    const nameHit = byName.get(name) ?? null;
+    const websiteHit = website ? byWebsite.get(website) ?? null : null;
+    const idHit = id.id === null ? null : byId.get(id.id) ?? null;
+    const target = idHit ?? nameHit ?? websiteHit;
+    result.matchedBy = idHit ? 'id' : nameHit ? 'name' : websiteHit ? 'website' : null;
+    result.siteId = target?.id ?? null;
+
+    if (nameHit && nameHit !== target) {
+      result.errors.push({ field: 'name', message: `Site ${nameHit.id} already uses this name.` });
+    }
+    if (websiteHit && websiteHit !== target) {
+      result.errors.push({
+        field: 'website',
+        message: `Site ${websiteHit.id} already uses this website.`,
+      });
+    }
+
+    const duplicateOf =
+      seenNames.get(name) ??
+      (website ? seenWebsites.get(website) : undefined) ??
+      (target ? seenSites.get(target.id) : undefined);
+    if (duplicateOf !== undefined) {
+      result.errors.push({ field: 'row', message: `Duplicates row ${duplicateOf}.` });
+    }
+
+    seenNames.set(name, row);
+    if (website) {
+      seenWebsites.set(website, row);
+    }
+    if (target) {
+      seenSites.set(target.id, row);
+    }
+    if (result.errors.length) {
+      continue;
+    }
+
+    if (!target) {
+      result.action = 'create';
+      upserts.push({ id: null, input });
+      continue;
+    }
+
+    // Fields missing from the row (a column the spreadsheet lacks) keep their current values.
+    const merged = validateSitePayload(data, toSiteInput(target));
+    const update = merged.valid ? merged.payload : input;
+    result.changes = diffSiteSnapshots(target, { ...update, id: target.id });
+    result.action = result.changes.length ? 'update' : 'unchanged';
+    if (result.changes.length) {
+      upserts.push({ id: target.id, input: update });
+    }
+  }
+
+  return { rows, upserts };
+}
+
+function countActions(rows: ImportRowResult[]): Record<ImportAction, number> {
+  const totals: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, error: 0 };
+  for (const row of rows) {
+    totals[row.action] += 1;
+  }
+  return totals;
+}
+
+/**
+ * Imports sites from CSV or JSON. Runs as a dry run unless `?dryRun=false`, and only writes
+ * when every row is valid, so a partner spreadsheet is either applied whole or not at all.
+ */
+export async function handleDirectoryImport(
+  request: Request,
+  url: URL,
+  env: Env,
+  principal: Principal,
+): Promise<Response> {
+  const errors: FieldError[] = [];
+
+  const contentType = request.headers.get('content-type') ?? '';
+  const format = parseFormat(
+    url.searchParams.get('format'),
+    contentType.includes('text/csv') ? 'csv' : 'json',
+  );
+  if (!format) {
+    errors.push({ field: 'format', message: 'format must be csv or json.' });
+  }
+
+  const dryRunRaw = url.searchParams.get('dryRun') ?? 'true';
+  if (!['true', 'false', '1', '0'].includes(dryRunRaw)) {
+    errors.push({ field: 'dryRun', message: 'dryRun must be true or false.' });
+  }
+  const dryRun = dryRunRaw === 'true' || dryRunRaw === '1';
+
+  if (errors.length || !format) {
+    return validationErrorResponse('Invalid import query.', errors);
+  }
+
+  let text: string;
+  try {
+    text = await request.text();
+  } catch (error) {
+    console.error('Failed to read import body', error);
+    return jsonResponse({ message: 'Unable to process request body.' }, { status: 400 });
+  }
+  if (text.length > MAX_IMPORT_BYTES) {
+    return jsonResponse(
+      { message: `Imports are limited to ${MAX_IMPORT_BYTES} characters.` },
+      { status: 413 },
+    );
+  }
+
+  const parsed = format === 'csv' ? readCsvRows(text) : readJsonRows(text);
+  if (!parsed.ok) {
+    return validationErrorResponse('Invalid import file.', parsed.errors);
+  }
+  if (parsed.records.length > MAX_IMPORT_ROWS) {
+    return validationErrorResponse('Invalid import file.', [
+      { field: 'rows', message: `Imports are limited to ${MAX_IMPORT_ROWS} rows.` },
+    ]);
+  }
+
+  try {
+    const { rows, upserts } = planImport(parsed.records, await fetchSites(env.DB));
+    const report: ImportReport = {
+      dryRun,
+      format,
+      totals: countActions(rows),
+      ignoredColumns: parsed.ignoredColumns,
+      rows,
+    };
+
+    if (dryRun) {
+      return jsonResponse({ message: 'Dry run complete. Nothing was written.', ...report });
+    }
+    if (report.totals.error) {
+      return jsonResponse(
+        {
+          message: `Nothing was written because ${report.totals.error} row(s) have errors.`,
+          ...report,
+        },
+        { status: 422 },
+      );
+    }
+
+    if (!upserts.length) {
+      return jsonResponse({ message: 'Nothing to import; every row matches the directory.', ...report });
+    }
+
+    await upsertSites(env.DB, upserts, { actor: principal, note: `Bulk ${format} import` });
+    await recordAudit(env, {
+      actor: principal,
+      action: 'site.import',
+      targetType: 'site',
+      targetId: null,
+      details: {
+        format,
+        created: report.totals.create,
+        updated: report.totals.update,
+        unchanged: report.totals.unchanged,
+      },
+    });
+    return jsonResponse({ message: 'Import complete.', ...report });
+  } catch (error) {
+    console.error('Failed to import sites', error);
+    return jsonResponse({ message: 'Failed to import sites right now.' }, { status: 500 });
+  }
+}
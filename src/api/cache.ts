@@ -0,0 +1,103 @@
+import type { Env } from '../types/env';
+import { getBundledVisionHash } from '../config/vision';
+import { fetchDirectoryVersion } from '../data/directoryVersion';
+
+// Browsers and proxies keep a copy but revalidate every time, which costs a 304 at most.
+const CLIENT_CACHE_CONTROL = 'public, max-age=0, must-revalidate';
+// The edge copy is keyed by version, so it never goes stale; the TTL only bounds its storage.
+const EDGE_CACHE_TTL_SECONDS = 60 * 60 * 24;
+const CACHE_KEY_PARAM = '__directory_version';
+
+type DirectoryCacheOptions = {
+  /** Request headers the response depends on, for the `Vary` header. */
+  vary?: string;
+};
+
+/**
+ * Tags the bundled vision too, so deploying a new `vision.yaml` invalidates cached responses
+ * even before anything is written to D1.
+ */
+async function directoryEtag(version: number): Promise<string> {
+  const visionHash = await getBundledVisionHash();
+  return `W/"${version}-${visionHash.slice(0, 12)}"`;
+}
+
+function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+  const opaque = etag.replace(/^W\//, '');
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag.replace(/^W\//, '') === opaque);
+}
+
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const copy = new Response(response.body, response);
+  for (const [name, value] of Object.entries(headers)) {
+    copy.headers.set(name, value);
+  }
+  return copy;
+}
+
+/**
+ * Serves a GET route that only depends on directory data. Responses carry an `ETag` built
+ * from the directory version, so a matching `If-None-Match` gets a 304, and successful
+ * responses are kept in the Cache API under a versioned key. Any write that bumps the version
+ * invalidates them.
+ */
+export async function withDirectoryCache(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  render: () => Promise<Response>,
+  options: DirectoryCacheOptions = {},
+): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return render();
+  }
+
+  let etag: string;
+  try {
+    etag = await directoryEtag(await fetchDirectoryVersion(env.DB));
+  } catch (error) {
+    console.error('Failed to read the directory version', error);
+    return render();
+  }
+
+  const headers: Record<string, string> = {
+    ETag: etag,
+    'Cache-Control': CLIENT_CACHE_CONTROL,
+    ...(options.vary ? { Vary: options.vary } : {}),
+  };
+  if (matchesEtag(request.headers.get('If-None-Match'), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const keyUrl = new URL(request.url);
+  keyUrl.searchParams.set(CACHE_KEY_PARAM, etag);
+  const key = new Request(keyUrl.toString(), { method: 'GET' });
+  const cache = caches.default;
+
+  const cached = await cache.match(key);
+  if (cached) {
+    return withHeaders(cached, headers);
+  }
+
+  const response = await render();
+  if (response.status !== 200) {
+    return response;
+  }
+
+  const stored = withHeaders(response, {
+    ...headers,
+    'Cache-Control': `public, max-age=${EDGE_CACHE_TTL_SECONDS}`,
+  });
+  ctx.waitUntil(
+    cache.put(key, stored.clone()).catch((error) => {
+      console.error(`Failed to cache ${keyUrl.pathname}`, error);
+    }),
+  );
+  return withHeaders(stored, headers);
+}
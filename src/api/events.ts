@@ -0,0 +1,369 @@
+import type { Principal } from '../types/auth';
+import type { Env } from '../types/env';
+import type { EventInput, EventQueryOptions, EventTiming, SiteEvent } from '../types/event';
+import { fetchSiteById } from '../data/sites';
+import {
+  DEFAULT_EVENT_PAGE_SIZE,
+  deleteEvent,
+  fetchEventById,
+  insertEvent,
+  queryEvents,
+  updateEvent,
+} from '../data/events';
+import { sitePath } from '../pages/components';
+import { renderIcalendar } from '../utils/ical';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { isValidTimeZone, parseZonedTime, toUtcInstant } from '../utils/time';
+import { sanitizeOptionalField } from '../utils/validation';
+import { recordAudit } from './audit';
+import { hasField, readJsonBody } from './sites';
+
+const MAX_TITLE_LENGTH = 160;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_LOCATION_LENGTH = 200;
+const MAX_EVENT_PAGE_SIZE = 100;
+const MAX_CALENDAR_EVENTS = 500;
+const CALENDAR_HISTORY_DAYS = 180;
+const DEFAULT_TIME_ZONE = 'UTC';
+
+const EVENT_TIMINGS: readonly EventTiming[] = ['upcoming', 'past', 'all'];
+
+function eventNotFound(id: number): Response {
+  return jsonResponse({ message: `Event ${id} was not found.` }, { status: 404 });
+}
+
+export function parseEventQuery(params: URLSearchParams):
+  | { valid: true; options: EventQueryOptions }
+  | { valid: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+
+  let siteId: number | null = null;
+  const siteIdRaw = params.get('siteId');
+  if (siteIdRaw !== null) {
+    siteId = Number(siteIdRaw);
+    if (!Number.isInteger(siteId) || siteId < 1) {
+      errors.push({ field: 'siteId', message: 'siteId must be a site id.' });
+    }
+  }
+
+  const when = (params.get('when') ?? 'upcoming') as EventTiming;
+  if (!EVENT_TIMINGS.includes(when)) {
+    errors.push({ field: 'when', message: `when must be one of ${EVENT_TIMINGS.join(', ')}.` });
+  }
+
+  let limit = DEFAULT_EVENT_PAGE_SIZE;
+  const limitRaw = params.get('limit');
+  if (limitRaw !== null) {
+    limit = Number(limitRaw);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENT_PAGE_SIZE) {
+      errors.push({
+        field: 'limit',
+        message: `limit must be a whole number between 1 and ${MAX_EVENT_PAGE_SIZE}.`,
+      });
+    }
+  }
+
+  return errors.length ? { valid: false, errors } : { valid: true, options: { siteId, when, limit } };
+}
+
+/**
+ * Validates an event payload. `startsAt` and `endsAt` are `YYYY-MM-DDTHH:MM` wall-clock times
+ * in `timezone` (default UTC), or carry their own `Z`/`±HH:MM` offset; both are stored as UTC.
+ * When `base` is provided (PATCH), fields absent from the payload keep their current values.
+ */
+export function validateEventPayload(
+  data: unknown,
+  base?: EventInput,
+):
+  | { valid: true; payload: EventInput }
+  | { valid: false; errors: FieldError[] } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Invalid request body.' }] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  let siteId = base?.siteId ?? 0;
+  if (!base || hasField(record, 'siteId')) {
+    if (typeof record.siteId !== 'number' || !Number.isInteger(record.siteId) || record.siteId < 1) {
+      errors.push({ field: 'siteId', message: 'siteId must be the id of a listed site.' });
+    } else {
+      siteId = record.siteId;
+    }
+  }
+
+  let title = base?.title ?? '';
+  if (!base || hasField(record, 'title')) {
+    title = typeof record.title === 'string' ? record.title.trim().replace(/\s+/g, ' ') : '';
+    if (!title) {
+      errors.push({ field: 'title', message: 'Title is required.' });
+    } else if (title.length > MAX_TITLE_LENGTH) {
+      errors.push({ field: 'title', message: `Title must be at most ${MAX_TITLE_LENGTH} characters.` });
+    }
+  }
+
+  const description =
+    !base || hasField(record, 'description')
+      ? sanitizeOptionalField(record.description, MAX_DESCRIPTION_LENGTH)
+      : base.description;
+  const location =
+    !base || hasField(record, 'location')
+      ? sanitizeOptionalField(record.location, MAX_LOCATION_LENGTH)
+      : base.location;
+
+  let timezone = base?.timezone ?? DEFAULT_TIME_ZONE;
+  if (hasField(record, 'timezone')) {
+    const value = typeof record.timezone === 'string' ? record.timezone.trim() : '';
+    if (!value || !isValidTimeZone(value)) {
+      errors.push({ field: 'timezone', message: 'timezone must be an IANA time zone such as Europe/Berlin.' });
+    } else {
+      timezone = value;
+    }
+  }
+
+  const readTime = (field: 'startsAt' | 'endsAt'): string => {
+    if (base && !hasField(record, field)) {
+      return base[field];
+    }
+    const value = typeof record[field] === 'string' ? (record[field] as string).trim() : '';
+    const instant = value ? parseZonedTime(value, timezone) : null;
+    if (!instant) {
+      errors.push({
+        field,
+        message: `${field} must be a date and time formatted as YYYY-MM-DDTHH:MM.`,
+      });
+      return '';
+    }
+    return instant;
+  };
+  const startsAt = readTime('startsAt');
+  const endsAt = readTime('endsAt');
+  if (startsAt && endsAt && endsAt < startsAt) {
+    errors.push({ field: 'endsAt', message: 'endsAt must not be before startsAt.' });
+  }
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+  return {
+    valid: true,
+    payload: { siteId, title, description, location, startsAt, endsAt, timezone },
+  };
+}
+
+/**
+ * Validates a payload and checks the site exists, so both create and update report an unknown
+ * site as a field error.
+ */
+async function validateEvent(
+  env: Env,
+  data: unknown,
+  base?: EventInput,
+): Promise<{ valid: true; payload: EventInput } | { valid: false; errors: FieldError[] }> {
+  const validation = validateEventPayload(data, base);
+  if (!validation.valid) {
+    return validation;
+  }
+  if (!(await fetchSiteById(env.DB, validation.payload.siteId))) {
+    return {
+      valid: false,
+      errors: [{ field: 'siteId', message: `Site ${validation.payload.siteId} was not found.` }],
+    };
+  }
+  return validation;
+}
+
+function auditDetails(event: SiteEvent): Record<string, unknown> {
+  return { siteId: event.siteId, title: event.title, startsAt: event.startsAt };
+}
+
+/**
+ * Lists events filtered by `siteId` and `when` (`upcoming`, the default, `past`, or `all`).
+ */
+export async function handleEventList(url: URL, env: Env): Promise<Response> {
+  const parsed = parseEventQuery(url.searchParams);
+  if (!parsed.valid) {
+    return validationErrorResponse('Invalid event query.', parsed.errors);
+  }
+
+  try {
+    const events = await queryEvents(env.DB, parsed.options);
+    return jsonResponse({ events });
+  } catch (error) {
+    console.error('Failed to list events', error);
+    return jsonResponse({ message: 'Failed to load events right now.' }, { status: 500 });
+  }
+}
+
+export async function handleEventGet(env: Env, id: number): Promise<Response> {
+  try {
+    const event = await fetchEventById(env.DB, id);
+    return event ? jsonResponse(event) : eventNotFound(id);
+  } catch (error) {
+    console.error(`Failed to load event ${id}`, error);
+    return jsonResponse({ message: 'Failed to load the event right now.' }, { status: 500 });
+  }
+}
+
+export async function handleEventCreate(
+  request: Request,
+  env: Env,
+  principal: Principal,
+): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+
+  try {
+    const validation = await validateEvent(env, body.data);
+    if (!validation.valid) {
+      return validationErrorResponse('Invalid event payload.', validation.errors);
+    }
+
+    const event = await insertEvent(env.DB, validation.payload, principal.label);
+    await recordAudit(env, {
+      actor: principal,
+      action: 'event.create',
+      targetType: 'event',
+      targetId: event.id,
+      details: auditDetails(event),
+    });
+    return jsonResponse(event, {
+      status: 201,
+      headers: { Location: `/api/events/${event.id}` },
+    });
+  } catch (error) {
+    console.error('Failed to create event', error);
+    return jsonResponse({ message: 'Failed to create the event right now.' }, { status: 500 });
+  }
+}
+
+export async function handleEventUpdate(
+  request: Request,
+  env: Env,
+  id: number,
+  mode: 'replace' | 'merge',
+  principal: Principal,
+): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+
+  try {
+    const existing = await fetchEventById(env.DB, id);
+    if (!existing) {
+      return eventNotFound(id);
+    }
+
+    const validation = await validateEvent(env, body.data, mode === 'merge' ? existing : undefined);
+    if (!validation.valid) {
+      return validationErrorResponse('Invalid event payload.', validation.errors);
+    }
+
+    const event = await updateEvent(env.DB, id, validation.payload);
+    if (!event) {
+      return eventNotFound(id);
+    }
+
+    await recordAudit(env, {
+      actor: principal,
+      action: 'event.update',
+      targetType: 'event',
+      targetId: id,
+      details: auditDetails(event),
+    });
+    return jsonResponse(event);
+  } catch (error) {
+    console.error(`Failed to update event ${id}`, error);
+    return jsonResponse({ message: 'Failed to update the event right now.' }, { status: 500 });
+  }
+}
+
+export async function handleEventDelete(
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  try {
+    const event = await deleteEvent(env.DB, id);
+    if (!event) {
+      return eventNotFound(id);
+    }
+
+    await recordAudit(env, {
+      actor: principal,
+      action: 'event.delete',
+      targetType: 'event',
+      targetId: id,
+      details: auditDetails(event),
+    });
+    return jsonResponse(event);
+  } catch (error) {
+    console.error(`Failed to delete event ${id}`, error);
+    return jsonResponse({ message: 'Failed to delete the event right now.' }, { status: 500 });
+  }
+}
+
+function calendarResponse(url: URL, name: string, filename: string, events: SiteEvent[]): Response {
+  const body = renderIcalendar({
+    name,
+    events: events.map((event) => ({
+      uid: `event-${event.id}@${url.hostname}`,
+      start: event.startsAt,
+      end: event.endsAt,
+      stamp: event.updatedAt,
+      created: event.createdAt,
+      lastModified: event.updatedAt,
+      sequence: event.sequence,
+      summary: event.title,
+      description: event.description,
+      location: event.location,
+      url: new URL(`${sitePath({ id: event.siteId, name: event.siteName })}#event-${event.id}`, url).toString(),
+    })),
+  });
+  return new Response(body, {
+    headers: {
+      'content-type': 'text/calendar; charset=UTF-8',
+      'content-disposition': `inline; filename="${filename}"`,
+    },
+  });
+}
+
+function calendarWindow(): Pick<EventQueryOptions, 'when' | 'endedSince' | 'limit'> {
+  const since = new Date(Date.now() - CALENDAR_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  return { when: 'all', endedSince: toUtcInstant(since), limit: MAX_CALENDAR_EVENTS };
+}
+
+/**
+ * Serves `/events.ics`: every upcoming event plus those that ended in the last 180 days, so a
+ * subscribed calendar keeps recent history.
+ */
+export async function handleEventCalendar(url: URL, env: Env): Promise<Response> {
+  try {
+    const events = await queryEvents(env.DB, calendarWindow());
+    return calendarResponse(url, 'SolarRoots cooperative events', 'solarroots-events.ics', events);
+  } catch (error) {
+    console.error('Failed to build the events calendar', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+/**
+ * Serves `/sites/:id-:slug/events.ics` with the same window as the directory-wide calendar.
+ */
+export async function handleSiteEventCalendar(url: URL, env: Env, siteId: number): Promise<Response> {
+  try {
+    const site = await fetchSiteById(env.DB, siteId);
+    if (!site) {
+      return new Response('Not Found', { status: 404 });
+    }
+    const events = await queryEvents(env.DB, { ...calendarWindow(), siteId });
+    return calendarResponse(url, `${site.name} events`, `site-${site.id}-events.ics`, events);
+  } catch (error) {
+    console.error(`Failed to build the events calendar for site ${siteId}`, error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
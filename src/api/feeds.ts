@@ -0,0 +1,152 @@
+import type { DatedSite } from '../types/directory';
+import type { Env } from '../types/env';
+import type { Story } from '../types/story';
+import { fetchRecentlyChangedSites } from '../data/sites';
+import { queryStories } from '../data/stories';
+import { formatOwnershipModel, sitePath } from '../pages/components';
+import {
+  renderAtomFeed,
+  renderJsonFeed,
+  renderRssFeed,
+  type FeedDocument,
+  type FeedItem,
+} from '../utils/feeds';
+import { escapeAttribute, escapeHtml } from '../utils/html';
+import { validationErrorResponse } from '../utils/http';
+import { markdownExcerpt, renderMarkdown } from '../utils/markdown';
+import { slugify } from '../utils/slug';
+
+const FEED_ITEM_LIMIT = 30;
+// Tag URIs (RFC 4151) keep item ids stable if the directory moves to another path or scheme.
+const TAG_URI_DATE = '2024';
+
+type FeedFormat = {
+  render: (feed: FeedDocument) => string;
+  contentType: string;
+};
+
+/** Feed routes by path. Each accepts `?tag=` to follow one tag. */
+export const FEED_FORMATS: Record<string, FeedFormat> = {
+  '/feed.xml': { render: renderAtomFeed, contentType: 'application/atom+xml; charset=UTF-8' },
+  '/rss.xml': { render: renderRssFeed, contentType: 'application/rss+xml; charset=UTF-8' },
+  '/feed.json': { render: renderJsonFeed, contentType: 'application/feed+json; charset=UTF-8' },
+};
+
+function tagUri(url: URL, specific: string): string {
+  return `tag:${url.hostname},${TAG_URI_DATE}:${specific}`;
+}
+
+/**
+ * Only public fields: contacts are left out entirely, so nothing private can reach a feed.
+ */
+function siteContentHtml(site: DatedSite, profileUrl: string): string {
+  const paragraphs = site.description
+    ? site.description
+        .split(/\n{2,}/)
+        .map((paragraph) => `<p>${escapeHtml(paragraph.trim())}</p>`)
+    : [];
+  const details = [
+    site.region ? `Region: ${escapeHtml(site.region)}` : null,
+    site.ownershipModel ? `Ownership: ${escapeHtml(formatOwnershipModel(site.ownershipModel))}` : null,
+    site.website
+      ? `Website: <a href="${escapeAttribute(site.website)}">${escapeHtml(site.website)}</a>`
+      : null,
+  ].filter(Boolean);
+  if (details.length) {
+    paragraphs.push(`<p>${details.join('<br>')}</p>`);
+  }
+  paragraphs.push(`<p><a href="${escapeAttribute(profileUrl)}">View the full profile</a></p>`);
+  return paragraphs.join('\n');
+}
+
+function siteItem(url: URL, site: DatedSite): FeedItem {
+  const profileUrl = new URL(sitePath(site), url).toString();
+  const isNew = site.updatedAt === site.createdAt;
+  return {
+    id: tagUri(url, `site/${site.id}`),
+    url: profileUrl,
+    title: isNew ? `New listing: ${site.name}` : `Updated listing: ${site.name}`,
+    summary: site.description
+      ? markdownExcerpt(site.description)
+      : `${site.name}${site.region ? ` in ${site.region}` : ''}.`,
+    contentHtml: siteContentHtml(site, profileUrl),
+    published: site.createdAt,
+    updated: site.updatedAt,
+    categories: site.tags,
+  };
+}
+
+function storyItem(url: URL, story: Story): FeedItem {
+  return {
+    id: tagUri(url, `story/${story.id}`),
+    url: new URL(`${sitePath({ id: story.siteId, name: story.siteName })}#story-${story.id}`, url).toString(),
+    title: `${story.siteName}: ${story.title}`,
+    summary: markdownExcerpt(story.body),
+    contentHtml: renderMarkdown(story.body),
+    published: story.publishedOn,
+    updated: story.updatedAt,
+    categories: [story.focus],
+  };
+}
+
+function sortableTime(instant: string): string {
+  return instant.replace(' ', 'T').replace(/Z$/, '');
+}
+
+/**
+ * Builds the feed of newly listed or updated sites and recent stories, newest change first.
+ * `tag` limits both to sites carrying that tag or one of its aliases.
+ */
+export async function loadFeed(url: URL, env: Env, feedPath: string, tag: string | null): Promise<FeedDocument> {
+  const [sites, stories] = await Promise.all([
+    fetchRecentlyChangedSites(env.DB, { tags: tag ? [tag] : [], limit: FEED_ITEM_LIMIT }),
+    queryStories(env.DB, { tag, limit: FEED_ITEM_LIMIT }),
+  ]);
+  const items = [
+    ...sites.map((site) => siteItem(url, site)),
+    ...stories.map((story) => storyItem(url, story)),
+  ]
+    .sort((a, b) => sortableTime(b.updated).localeCompare(sortableTime(a.updated)))
+    .slice(0, FEED_ITEM_LIMIT);
+
+  const feedUrl = new URL(feedPath, url);
+  const homeUrl = new URL(tag ? '/directory' : '/', url);
+  if (tag) {
+    feedUrl.searchParams.set('tag', tag);
+    homeUrl.searchParams.set('tag', tag);
+  }
+  return {
+    title: tag ? `SolarRoots: ${tag} cooperatives` : 'SolarRoots cooperative directory',
+    description: tag
+      ? `Newly listed and updated cooperatives tagged ${tag}, and their stories.`
+      : 'Newly listed and updated cooperatives in the SolarRoots directory, and their stories.',
+    homeUrl: homeUrl.toString(),
+    feedUrl: feedUrl.toString(),
+    authorName: 'SolarRoots',
+    items,
+  };
+}
+
+/**
+ * Serves one of the `FEED_FORMATS` for the request's optional `?tag=` filter.
+ */
+export async function handleFeed(url: URL, env: Env, feedPath: string): Promise<Response> {
+  const format = FEED_FORMATS[feedPath];
+  const rawTag = url.searchParams.get('tag');
+  const tag = rawTag === null ? null : slugify(rawTag);
+  if (tag === '') {
+    return validationErrorResponse('Invalid feed query.', [
+      { field: 'tag', message: 'tag must contain at least one letter or number.' },
+    ]);
+  }
+
+  try {
+    const feed = await loadFeed(url, env, feedPath, tag);
+    return new Response(format.render(feed), {
+      headers: { 'content-type': format.contentType },
+    });
+  } catch (error) {
+    console.error(`Failed to build the feed at ${feedPath}`, error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
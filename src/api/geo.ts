@@ -0,0 +1,83 @@
+import type { SiteRecord } from '../types/directory';
+import type { Env } from '../types/env';
+import { parseSiteQuery } from './sites';
+import { fetchRegionSummaries, querySites } from '../data/sites';
+import { sitePath } from '../pages/components';
+import { jsonResponse, validationErrorResponse } from '../utils/http';
+
+type GeoJsonFeature = {
+  type: 'Feature';
+  id: number;
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: {
+    name: string;
+    description: string | null;
+    website: string | null;
+    address: string | null;
+    region: string | null;
+    tags: string[];
+    url: string;
+  };
+};
+
+function toFeature(site: SiteRecord, origin: string): GeoJsonFeature | null {
+  if (site.latitude === null || site.longitude === null) {
+    return null;
+  }
+
+  return {
+    type: 'Feature',
+    id: site.id,
+    // GeoJSON positions are [longitude, latitude].
+    geometry: { type: 'Point', coordinates: [site.longitude, site.latitude] },
+    properties: {
+      name: site.name,
+      description: site.description,
+      website: site.website,
+      address: site.address,
+      region: site.region,
+      tags: site.tags,
+      url: new URL(sitePath(site), origin).toString(),
+    },
+  };
+}
+
+/**
+ * Serves `/api/sites.geojson`: every mapped site that matches the usual `/api/sites` filters,
+ * as a GeoJSON FeatureCollection. Pagination parameters are ignored.
+ */
+export async function handleSitesGeoJson(url: URL, env: Env): Promise<Response> {
+  const parsed = parseSiteQuery(url.searchParams);
+  if (!parsed.valid) {
+    return validationErrorResponse('Invalid site query.', parsed.errors);
+  }
+
+  try {
+    const { sites } = await querySites(env.DB, {
+      ...parsed.options,
+      hasCoordinates: true,
+      cursor: null,
+      limit: null,
+    });
+    const features = sites
+      .map((site) => toFeature(site, url.origin))
+      .filter((feature): feature is GeoJsonFeature => feature !== null);
+
+    return jsonResponse(
+      { type: 'FeatureCollection', features },
+      { headers: { 'content-type': 'application/geo+json; charset=UTF-8' } },
+    );
+  } catch (error) {
+    console.error('Failed to build site GeoJSON', error);
+    return jsonResponse({ message: 'Failed to load map data right now.' }, { status: 500 });
+  }
+}
+
+export async function handleRegionList(env: Env): Promise<Response> {
+  try {
+    return jsonResponse(await fetchRegionSummaries(env.DB));
+  } catch (error) {
+    console.error('Failed to summarise regions', error);
+    return jsonResponse({ message: 'Failed to load regions right now.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,183 @@
+import type { Principal } from '../types/auth';
+import type { SiteRecord } from '../types/directory';
+import type { Env } from '../types/env';
+import type { FieldChange, SiteRevision, SiteRevisionWithDiff } from '../types/history';
+import { fetchSiteRevision, listSiteRevisions } from '../data/siteRevisions';
+import { fetchSiteById, restoreSite } from '../data/sites';
+import { jsonResponse, validationErrorResponse } from '../utils/http';
+import { recordAudit } from './audit';
+import { toSiteInput } from './sites';
+
+const DIFF_FIELDS = [
+  'name',
+  'description',
+  'website',
+  'address',
+  'region',
+  'latitude',
+  'longitude',
+  'ownershipModel',
+  'memberCount',
+  'foundedYear',
+  'capacityKw',
+  'howToJoin',
+  'tags',
+  'contacts',
+] as const;
+
+function sortedTags(tags: readonly string[]): string[] {
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Lists the fields that differ between two snapshots. Tags are compared as sets and contacts
+ * as an ordered list. With no `before` snapshot every populated field counts as a change.
+ */
+export function diffSiteSnapshots(before: SiteRecord | null, after: SiteRecord): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of DIFF_FIELDS) {
+    if (field === 'tags') {
+      const previous = before ? sortedTags(before.tags) : [];
+      const next = sortedTags(after.tags);
+      if (previous.join('\u001f') !== next.join('\u001f')) {
+        changes.push({ field, before: before ? previous : null, after: next });
+      }
+      continue;
+    }
+
+    if (field === 'contacts') {
+      const previous = before ? before.contacts : [];
+      if (JSON.stringify(previous) !== JSON.stringify(after.contacts)) {
+        changes.push({ field, before: before ? previous : null, after: after.contacts });
+      }
+      continue;
+    }
+
+    const previous = before ? before[field] : null;
+    if (previous !== after[field]) {
+      changes.push({ field, before: previous, after: after[field] });
+    }
+  }
+  return changes;
+}
+
+function withDiff(revision: SiteRevision, previous: SiteRevision | null): SiteRevisionWithDiff {
+  // A delete snapshot repeats the state before deletion, so it changes no fields.
+  if (revision.action === 'delete') {
+    return { ...revision, changes: [] };
+  }
+  return { ...revision, changes: diffSiteSnapshots(previous?.snapshot ?? null, revision.snapshot) };
+}
+
+function historyNotFound(siteId: number): Response {
+  return jsonResponse({ message: `No history was found for site ${siteId}.` }, { status: 404 });
+}
+
+function revisionNotFound(siteId: number, revision: number): Response {
+  return jsonResponse(
+    { message: `Revision ${revision} of site ${siteId} was not found.` },
+    { status: 404 },
+  );
+}
+
+/**
+ * Returns every revision of a site, newest first, each with the fields it changed.
+ */
+export async function handleSiteHistory(env: Env, siteId: number): Promise<Response> {
+  try {
+    const [revisions, site] = await Promise.all([
+      listSiteRevisions(env.DB, siteId),
+      fetchSiteById(env.DB, siteId),
+    ]);
+    if (!revisions.length) {
+      return historyNotFound(siteId);
+    }
+
+    return jsonResponse({
+      siteId,
+      deleted: site === null,
+      revisions: revisions.map((revision, index) =>
+        withDiff(revision, revisions[index + 1] ?? null),
+      ),
+    });
+  } catch (error) {
+    console.error(`Failed to load history for site ${siteId}`, error);
+    return jsonResponse({ message: 'Failed to load the site history right now.' }, { status: 500 });
+  }
+}
+
+/**
+ * Returns one revision. `?compare=<revision>` diffs it against any other revision instead of
+ * the one just before it.
+ */
+export async function handleSiteRevision(
+  url: URL,
+  env: Env,
+  siteId: number,
+  revisionNumber: number,
+): Promise<Response> {
+  const compareRaw = url.searchParams.get('compare');
+  const compareTo = compareRaw === null ? revisionNumber - 1 : Number(compareRaw);
+  if (!Number.isInteger(compareTo) || compareTo < 0) {
+    return validationErrorResponse('Invalid revision query.', [
+      { field: 'compare', message: 'compare must be a revision number.' },
+    ]);
+  }
+
+  try {
+    const [revision, base] = await Promise.all([
+      fetchSiteRevision(env.DB, siteId, revisionNumber),
+      compareTo > 0 ? fetchSiteRevision(env.DB, siteId, compareTo) : Promise.resolve(null),
+    ]);
+    if (!revision) {
+      return revisionNotFound(siteId, revisionNumber);
+    }
+    if (compareRaw !== null && compareTo > 0 && !base) {
+      return revisionNotFound(siteId, compareTo);
+    }
+
+    return jsonResponse({
+      ...revision,
+      comparedTo: base?.revision ?? null,
+      changes: diffSiteSnapshots(base?.snapshot ?? null, revision.snapshot),
+    });
+  } catch (error) {
+    console.error(`Failed to load revision ${revisionNumber} of site ${siteId}`, error);
+    return jsonResponse({ message: 'Failed to load the revision right now.' }, { status: 500 });
+  }
+}
+
+/**
+ * Writes an earlier revision back to the site as a new `restore` revision, re-creating the
+ * site if it was deleted.
+ */
+export async function handleSiteRestore(
+  env: Env,
+  siteId: number,
+  revisionNumber: number,
+  principal: Principal,
+): Promise<Response> {
+  try {
+    const revision = await fetchSiteRevision(env.DB, siteId, revisionNumber);
+    if (!revision) {
+      return revisionNotFound(siteId, revisionNumber);
+    }
+
+    const site = await restoreSite(env.DB, siteId, toSiteInput(revision.snapshot), {
+      actor: principal,
+      note: `Restored revision ${revisionNumber}`,
+    });
+
+    await recordAudit(env, {
+      actor: principal,
+      action: 'site.restore',
+      targetType: 'site',
+      targetId: siteId,
+      details: { revision: revisionNumber },
+    });
+    return jsonResponse(site);
+  } catch (error) {
+    console.error(`Failed to restore revision ${revisionNumber} of site ${siteId}`, error);
+    return jsonResponse({ message: 'Failed to restore the revision right now.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,384 @@
+import type { Principal } from '../types/auth';
+import type { Env } from '../types/env';
+import type {
+  InterestPayload,
+  InterestQueryOptions,
+  InterestSignup,
+  InterestStatus,
+} from '../types/interest';
+import { fetchSiteById } from '../data/sites';
+import { checkInterestRateLimits, checkSubmissionTraps } from './antiSpam';
+import { recordAudit } from './audit';
+import { createInterestTokens, sendInterestConfirmation } from './interestConfirmation';
+import {
+  DEFAULT_INTEREST_PAGE_SIZE,
+  findRecentInterestByEmail,
+  insertInterest,
+  queryInterest,
+  rotateInterestTokens,
+  updateInterestStatus,
+} from '../data/interest';
+import { resolveMailTransport } from '../mail/transport';
+import { isOriginAllowed } from '../utils/cors';
+import { neutralizeFormula, toCsv } from '../utils/csv';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { isValidDate, sanitizeOptionalField } from '../utils/validation';
+
+export const INTEREST_STATUSES: readonly InterestStatus[] = ['new', 'contacted', 'converted', 'spam'];
+
+const MAX_INTEREST_PAGE_SIZE = 200;
+const DUPLICATE_WINDOW_DAYS = 30;
+
+export function validateInterestPayload(data: unknown):
+  | { valid: true; payload: InterestPayload }
+  | { valid: false; error: string } {
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, error: 'Invalid request body.' };
+  }
+
+  const record = data as Record<string, unknown>;
+  const emailRaw = typeof record.email === 'string' ? record.email.trim() : '';
+  if (!emailRaw) {
+    return { valid: false, error: 'Email is required.' };
+  }
+
+  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  if (!emailPattern.test(emailRaw)) {
+    return { valid: false, error: 'Enter a valid email address.' };
+  }
+
+  const payload: InterestPayload = {
+    email: emailRaw.slice(0, 256).toLowerCase(),
+    name: sanitizeOptionalField(record.name, 120),
+    organization: sanitizeOptionalField(record.organization, 160),
+    message: sanitizeOptionalField(record.message, 1500),
+  };
+
+  return { valid: true, payload };
+}
+
+export async function handleInterestSubmission(
+  request: Request,
+  url: URL,
+  env: Env,
+): Promise<Response> {
+  if (!isOriginAllowed(request, url, env)) {
+    return jsonResponse({ message: 'Submissions from this site are not allowed.' }, { status: 403 });
+  }
+
+  let payload: InterestPayload;
+  try {
+    const data = await request.json();
+    if (typeof data === 'object' && data !== null) {
+      const trapped = checkSubmissionTraps(data as Record<string, unknown>);
+      if (trapped) {
+        return trapped;
+      }
+    }
+    const validation = validateInterestPayload(data);
+    if (!validation.valid) {
+      return jsonResponse({ message: validation.error }, { status: 400 });
+    }
+    payload = validation.payload;
+  } catch (error) {
+    console.error('Invalid interest submission payload', error);
+    return jsonResponse({ message: 'Unable to process request body.' }, { status: 400 });
+  }
+
+  // Without mail nobody could confirm, so refuse the signup rather than store a dead row.
+  const transport = resolveMailTransport(env);
+  if (!transport) {
+    console.error('Interest signups need MAIL_API_KEY and MAIL_FROM, or MAIL_TRANSPORT=console');
+    return jsonResponse(
+      { message: 'Signups are unavailable right now. Please try again later.' },
+      { status: 503 },
+    );
+  }
+
+  const tokens = await createInterestTokens();
+  try {
+    const throttled = await checkInterestRateLimits(request, env, payload.email);
+    if (throttled) {
+      return throttled;
+    }
+
+    // Repeat signups never store a second row. Unconfirmed ones get a fresh confirmation email.
+    const existing = await findRecentInterestByEmail(env.DB, payload.email, DUPLICATE_WINDOW_DAYS);
+    if (existing?.confirmedAt) {
+      return jsonResponse({ message: 'Interest already recorded.' }, { status: 200 });
+    }
+
+    if (existing) {
+      await rotateInterestTokens(env.DB, existing.id, tokens.hashes);
+    } else {
+      await insertInterest(env.DB, payload, tokens.hashes);
+    }
+  } catch (error) {
+    console.error('Failed to store interest submission', error);
+    return jsonResponse({ message: 'Failed to record interest right now.' }, { status: 500 });
+  }
+
+  try {
+    await sendInterestConfirmation(transport, url, payload.email, tokens);
+  } catch (error) {
+    console.error('Failed to send interest confirmation', error);
+    return jsonResponse(
+      { message: 'We saved your details but could not send the confirmation email. Please try again later.' },
+      { status: 503 },
+    );
+  }
+
+  return jsonResponse(
+    { message: 'Check your inbox to confirm your interest.' },
+    { status: 201 },
+  );
+}
+
+/**
+ * Parses the signup filters shared by the JSON API, the export, and the admin page:
+ * `from`, `to`, `organization`, `q`, `status`, `confirmed`, `cursor`, and `limit`.
+ */
+export function parseInterestQuery(params: URLSearchParams):
+  | { valid: true; options: InterestQueryOptions }
+  | { valid: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+
+  const from = sanitizeOptionalField(params.get('from'), 10);
+  if (from && !isValidDate(from)) {
+    errors.push({ field: 'from', message: 'from must be a date formatted as YYYY-MM-DD.' });
+  }
+  const to = sanitizeOptionalField(params.get('to'), 10);
+  if (to && !isValidDate(to)) {
+    errors.push({ field: 'to', message: 'to must be a date formatted as YYYY-MM-DD.' });
+  }
+
+  const status = sanitizeOptionalField(params.get('status'), 20);
+  if (status && !INTEREST_STATUSES.includes(status as InterestStatus)) {
+    errors.push({
+      field: 'status',
+      message: `status must be one of ${INTEREST_STATUSES.join(', ')}.`,
+    });
+  }
+
+  let confirmed: boolean | null = null;
+  const confirmedRaw = sanitizeOptionalField(params.get('confirmed'), 5);
+  if (confirmedRaw === 'true' || confirmedRaw === 'false') {
+    confirmed = confirmedRaw === 'true';
+  } else if (confirmedRaw) {
+    errors.push({ field: 'confirmed', message: 'confirmed must be true or false.' });
+  }
+
+  let cursor: number | null = null;
+  const cursorRaw = params.get('cursor');
+  if (cursorRaw) {
+    cursor = Number(cursorRaw);
+    if (!Number.isInteger(cursor) || cursor < 1) {
+      errors.push({ field: 'cursor', message: 'cursor must be a signup id.' });
+    }
+  }
+
+  let limit = DEFAULT_INTEREST_PAGE_SIZE;
+  const limitRaw = params.get('limit');
+  if (limitRaw !== null) {
+    limit = Number(limitRaw);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_INTEREST_PAGE_SIZE) {
+      errors.push({
+        field: 'limit',
+        message: `limit must be a whole number between 1 and ${MAX_INTEREST_PAGE_SIZE}.`,
+      });
+    }
+  }
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    options: {
+      from,
+      to,
+      organization: sanitizeOptionalField(params.get('organization'), 160),
+      q: sanitizeOptionalField(params.get('q'), 200),
+      status: status as InterestStatus | null,
+      confirmed,
+      cursor,
+      limit,
+    },
+  };
+}
+
+export async function handleInterestList(url: URL, env: Env): Promise<Response> {
+  const parsed = parseInterestQuery(url.searchParams);
+  if (!parsed.valid) {
+    return validationErrorResponse('Invalid interest query.', parsed.errors);
+  }
+
+  try {
+    return jsonResponse(await queryInterest(env.DB, parsed.options));
+  } catch (error) {
+    console.error('Failed to list interest signups', error);
+    return jsonResponse({ message: 'Failed to load interest signups right now.' }, { status: 500 });
+  }
+}
+
+function interestCsv(signups: InterestSignup[]): string {
+  return toCsv([
+    ['id', 'created_at', 'confirmed_at', 'status', 'name', 'email', 'organization', 'message', 'site_id'],
+    ...signups.map((signup) => [
+      signup.id,
+      signup.createdAt,
+      signup.confirmedAt,
+      signup.status,
+      neutralizeFormula(signup.name),
+      neutralizeFormula(signup.email),
+      neutralizeFormula(signup.organization),
+      neutralizeFormula(signup.message),
+      signup.siteId,
+    ]),
+  ]);
+}
+
+/**
+ * Downloads every signup matching the filters as CSV or JSON. Pagination is ignored.
+ */
+export async function handleInterestExport(url: URL, env: Env): Promise<Response> {
+  const format = url.searchParams.get('format') ?? 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    return validationErrorResponse('Invalid export format.', [
+      { field: 'format', message: 'format must be csv or json.' },
+    ]);
+  }
+
+  const parsed = parseInterestQuery(url.searchParams);
+  if (!parsed.valid) {
+    return validationErrorResponse('Invalid interest query.', parsed.errors);
+  }
+
+  try {
+    const { signups } = await queryInterest(env.DB, { ...parsed.options, cursor: null, limit: null });
+    const filename = `interest-signups-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const headers = {
+      'content-disposition': `attachment; filename="${filename}"`,
+      'cache-control': 'no-store',
+    };
+
+    if (format === 'json') {
+      return jsonResponse({ signups }, { headers });
+    }
+
+    return new Response(interestCsv(signups), {
+      headers: { ...headers, 'content-type': 'text/csv; charset=UTF-8' },
+    });
+  } catch (error) {
+    console.error('Failed to export interest signups', error);
+    return jsonResponse({ message: 'Failed to export interest signups right now.' }, { status: 500 });
+  }
+}
+
+export function validateInterestStatusPayload(data: unknown):
+  | { valid: true; payload: { status: InterestStatus; siteId: number | null } }
+  | { valid: false; errors: FieldError[] } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Invalid request body.' }] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const status = record.status;
+  if (typeof status !== 'string' || !INTEREST_STATUSES.includes(status as InterestStatus)) {
+    errors.push({
+      field: 'status',
+      message: `Status must be one of ${INTEREST_STATUSES.join(', ')}.`,
+    });
+  }
+
+  let siteId: number | null = null;
+  if (record.siteId !== undefined && record.siteId !== null && record.siteId !== '') {
+    siteId = Number(record.siteId);
+    if (!Number.isInteger(siteId) || siteId < 1) {
+      errors.push({ field: 'siteId', message: 'siteId must be a site id.' });
+    } else if (status !== 'converted') {
+      errors.push({ field: 'siteId', message: 'siteId can only be set on converted signups.' });
+    }
+  }
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, payload: { status: status as InterestStatus, siteId } };
+}
+
+/**
+ * Applies a status change and reports field errors, a missing signup, or the updated row.
+ * Shared by the JSON API and the admin page form.
+ */
+export async function applyInterestStatus(
+  env: Env,
+  id: number,
+  data: unknown,
+  principal: Principal,
+): Promise<
+  | { ok: true; signup: InterestSignup }
+  | { ok: false; status: 400 | 404; message: string; errors?: FieldError[] }
+> {
+  const validation = validateInterestStatusPayload(data);
+  if (!validation.valid) {
+    return { ok: false, status: 400, message: 'Invalid status update.', errors: validation.errors };
+  }
+
+  const { status, siteId } = validation.payload;
+  if (siteId !== null && !(await fetchSiteById(env.DB, siteId))) {
+    return {
+      ok: false,
+      status: 400,
+      message: 'Invalid status update.',
+      errors: [{ field: 'siteId', message: `Site ${siteId} was not found.` }],
+    };
+  }
+
+  const signup = await updateInterestStatus(env.DB, id, status, siteId);
+  if (!signup) {
+    return { ok: false, status: 404, message: `Signup ${id} was not found.` };
+  }
+
+  await recordAudit(env, {
+    actor: principal,
+    action: 'interest.status',
+    targetType: 'interest_signup',
+    targetId: id,
+    details: { status, siteId },
+  });
+  return { ok: true, signup };
+}
+
+export async function handleInterestStatusUpdate(
+  request: Request,
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  let data: unknown;
+  try {
+    data = await request.json();
+  } catch (error) {
+    console.error('Invalid interest status payload', error);
+    return jsonResponse({ message: 'Unable to process request body.' }, { status: 400 });
+  }
+
+  try {
+    const result = await applyInterestStatus(env, id, data, principal);
+    if (!result.ok) {
+      return jsonResponse(
+        { message: result.message, ...(result.errors ? { errors: result.errors } : {}) },
+        { status: result.status },
+      );
+    }
+    return jsonResponse(result.signup);
+  } catch (error) {
+    console.error(`Failed to update interest signup ${id}`, error);
+    return jsonResponse({ message: 'Failed to update the signup right now.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,182 @@
+import type { Env } from '../types/env';
+import {
+  confirmInterest,
+  deleteInterestByManageToken,
+  findInterestByManageToken,
+  type InterestTokenHashes,
+} from '../data/interest';
+import type { MailTransport } from '../mail/transport';
+import { renderLayout } from '../pages/layout';
+import { escapeAttribute, escapeHtml, htmlResponse } from '../utils/html';
+import { jsonResponse } from '../utils/http';
+import { generateToken, hashToken } from './auth';
+
+export const CONFIRMATION_VALID_DAYS = 7;
+
+export type InterestTokens = {
+  confirmation: string;
+  manage: string;
+  hashes: InterestTokenHashes;
+};
+
+/**
+ * Creates fresh confirmation and manage tokens. Only the hashes are stored; the plaintext
+ * tokens exist long enough to be emailed.
+ */
+export async function createInterestTokens(): Promise<InterestTokens> {
+  const confirmation = generateToken();
+  const manage = generateToken();
+  return {
+    confirmation,
+    manage,
+    hashes: { confirmation: await hashToken(confirmation), manage: await hashToken(manage) },
+  };
+}
+
+export async function sendInterestConfirmation(
+  transport: MailTransport,
+  url: URL,
+  email: string,
+  tokens: InterestTokens,
+): Promise<void> {
+  const confirmUrl = `${url.origin}/api/interest/confirm?token=${encodeURIComponent(tokens.confirmation)}`;
+  const removeUrl = `${url.origin}/api/interest/unsubscribe?token=${encodeURIComponent(tokens.manage)}`;
+
+  await transport.send({
+    to: email,
+    subject: 'Confirm your interest in SolarRoots',
+    text: [
+      'Thanks for telling us you want to help build the SolarRoots community solar network.',
+      '',
+      `Please confirm your email address within ${CONFIRMATION_VALID_DAYS} days:`,
+      confirmUrl,
+      '',
+      'If you did not sign up, ignore this message and nothing more will be sent.',
+      'You can remove your details from our list at any time:',
+      removeUrl,
+    ].join('\n'),
+    actionUrl: confirmUrl,
+  });
+}
+
+function wantsHtml(request: Request): boolean {
+  return (request.headers.get('accept') ?? '').includes('text/html');
+}
+
+function renderMessagePage(title: string, body: string, status: number): Response {
+  const html = renderLayout({
+    title: `${title} · SolarRoots Directory`,
+    content: `
+      <section>
+        <h1>${escapeHtml(title)}</h1>
+        ${body}
+        <p><a class="text-link" href="/">Return to the directory</a></p>
+      </section>
+    `,
+  });
+  return htmlResponse(html, { status });
+}
+
+function respond(request: Request, title: string, message: string, status: number): Response {
+  if (wantsHtml(request)) {
+    return renderMessagePage(title, `<p>${escapeHtml(message)}</p>`, status);
+  }
+  return jsonResponse({ message }, { status });
+}
+
+function alreadyRemoved(request: Request): Response {
+  return respond(
+    request,
+    'Already removed',
+    'There is no signup for this link. It may already have been removed.',
+    404,
+  );
+}
+
+export async function handleInterestConfirm(
+  request: Request,
+  url: URL,
+  env: Env,
+): Promise<Response> {
+  const token = url.searchParams.get('token')?.trim();
+  if (!token) {
+    return respond(request, 'Missing token', 'A confirmation token is required.', 400);
+  }
+
+  try {
+    const signup = await confirmInterest(env.DB, await hashToken(token), CONFIRMATION_VALID_DAYS);
+    if (!signup) {
+      return respond(
+        request,
+        'Link expired',
+        'This confirmation link is invalid or has expired. Sign up again to get a new one.',
+        404,
+      );
+    }
+    if (!wantsHtml(request)) {
+      return jsonResponse({ message: 'Interest confirmed.', confirmedAt: signup.confirmedAt });
+    }
+    return respond(
+      request,
+      'Thanks for confirming',
+      'Your interest is confirmed. We will be in touch as SolarRoots grows.',
+      200,
+    );
+  } catch (error) {
+    console.error('Failed to confirm interest signup', error);
+    return respond(request, 'Something went wrong', 'Failed to confirm interest right now.', 500);
+  }
+}
+
+/**
+ * Lets people delete their own signup with the manage token from their email. GET only shows
+ * a confirmation form so link scanners cannot remove anything; POST and DELETE remove the row.
+ */
+export async function handleInterestUnsubscribe(
+  request: Request,
+  url: URL,
+  env: Env,
+): Promise<Response> {
+  const token = url.searchParams.get('token')?.trim();
+  if (!token) {
+    return respond(request, 'Missing token', 'A removal token is required.', 400);
+  }
+
+  try {
+    const tokenHash = await hashToken(token);
+
+    if (request.method === 'GET') {
+      const signup = await findInterestByManageToken(env.DB, tokenHash);
+      if (!signup) {
+        return alreadyRemoved(request);
+      }
+      if (!wantsHtml(request)) {
+        return jsonResponse({ email: signup.email, createdAt: signup.createdAt });
+      }
+      const action = `/api/interest/unsubscribe?token=${encodeURIComponent(token)}`;
+      return renderMessagePage(
+        'Remove your details',
+        `
+          <p>This removes <strong>${escapeHtml(signup.email)}</strong> and everything you shared with us.</p>
+          <form method="post" action="${escapeAttribute(action)}">
+            <button class="button" type="submit">Remove my details</button>
+          </form>
+        `,
+        200,
+      );
+    }
+
+    if (!(await deleteInterestByManageToken(env.DB, tokenHash))) {
+      return alreadyRemoved(request);
+    }
+    return respond(
+      request,
+      'Details removed',
+      'Your details have been deleted. We will not contact you again.',
+      200,
+    );
+  } catch (error) {
+    console.error('Failed to remove interest signup', error);
+    return respond(request, 'Something went wrong', 'Failed to remove your details right now.', 500);
+  }
+}
@@ -0,0 +1,165 @@
+import type { SiteRecord } from '../types/directory';
+import type { Env } from '../types/env';
+import type {
+  LinkCheckRecord,
+  LinkCheckRunSummary,
+  LinkHealth,
+  LinkReport,
+  LinkStatus,
+} from '../types/linkHealth';
+import {
+  countFailingLinks,
+  fetchLinkChecks,
+  fetchLinkReport,
+  fetchSitesDueForLinkCheck,
+  recordLinkCheck,
+} from '../data/linkChecks';
+import { checkLink, defaultLinkFetcher, type LinkFetcher } from '../links/fetcher';
+import { jsonResponse } from '../utils/http';
+import { toUtcInstant } from '../utils/time';
+
+/** Must match the link check entry in `wrangler.toml` `[triggers] crons`. */
+export const LINK_CHECK_CRON = '15 * * * *';
+
+/** Consecutive failed checks before a website counts as broken rather than failing. */
+export const BROKEN_AFTER_FAILURES = 2;
+
+const RECHECK_AFTER_MS = 24 * 60 * 60 * 1000;
+// Each check can take a few subrequests (HEAD, GET, redirects), so runs stay small.
+const LINK_CHECK_BATCH_SIZE = 20;
+const LINK_CHECK_CONCURRENCY = 5;
+
+export const LINK_STATUSES: readonly LinkStatus[] = [
+  'broken',
+  'failing',
+  'redirected',
+  'unchecked',
+  'ok',
+];
+
+/**
+ * Summarises the latest check of a site's website, or null for sites without one.
+ */
+export function toLinkHealth(website: string | null, check: LinkCheckRecord | null): LinkHealth | null {
+  if (!website) {
+    return null;
+  }
+
+  if (!check) {
+    return {
+      status: 'unchecked',
+      statusCode: null,
+      redirectUrl: null,
+      error: null,
+      checkedAt: null,
+      consecutiveFailures: 0,
+      lastOkAt: null,
+    };
+  }
+
+  const status: LinkStatus =
+    check.consecutiveFailures >= BROKEN_AFTER_FAILURES
+      ? 'broken'
+      : check.consecutiveFailures > 0
+        ? 'failing'
+        : check.redirectUrl
+          ? 'redirected'
+          : 'ok';
+  return {
+    status,
+    statusCode: check.statusCode,
+    redirectUrl: check.redirectUrl,
+    error: check.error,
+    checkedAt: check.checkedAt,
+    consecutiveFailures: check.consecutiveFailures,
+    lastOkAt: check.lastOkAt,
+  };
+}
+
+/**
+ * Adds each site's `linkHealth` for API responses.
+ */
+export async function withLinkHealth<T extends SiteRecord>(
+  db: D1Database,
+  sites: T[],
+): Promise<(T & { linkHealth: LinkHealth | null })[]> {
+  const checks = await fetchLinkChecks(
+    db,
+    sites.filter((site) => site.website).map((site) => site.id),
+  );
+  return sites.map((site) => ({
+    ...site,
+    linkHealth: toLinkHealth(site.website, checks.get(site.id) ?? null),
+  }));
+}
+
+export async function countBrokenLinks(db: D1Database): Promise<number> {
+  return countFailingLinks(db, BROKEN_AFTER_FAILURES);
+}
+
+/**
+ * Checks the websites that are due, stalest first, a few at a time. Called from the scheduled
+ * handler; a failure to record one result does not stop the others. Tests pass a stub `fetcher`.
+ */
+export async function runLinkChecks(
+  env: Env,
+  now: Date,
+  fetcher: LinkFetcher = defaultLinkFetcher,
+): Promise<LinkCheckRunSummary> {
+  const due = await fetchSitesDueForLinkCheck(
+    env.DB,
+    toUtcInstant(new Date(now.getTime() - RECHECK_AFTER_MS)),
+    LINK_CHECK_BATCH_SIZE,
+  );
+
+  const summary: LinkCheckRunSummary = { checked: 0, failed: 0 };
+  for (let index = 0; index < due.length; index += LINK_CHECK_CONCURRENCY) {
+    const batch = due.slice(index, index + LINK_CHECK_CONCURRENCY);
+    await Promise.all(
+      batch.map(async (site) => {
+        const result = await checkLink(site.website, fetcher);
+        try {
+          await recordLinkCheck(env.DB, site.id, site.website, result, toUtcInstant(new Date()));
+          summary.checked += 1;
+          if (!result.ok) {
+            summary.failed += 1;
+          }
+        } catch (error) {
+          console.error(`Failed to record link check for site ${site.id}`, error);
+        }
+      }),
+    );
+  }
+  return summary;
+}
+
+export async function loadLinkReport(env: Env): Promise<LinkReport> {
+  const rows = await fetchLinkReport(env.DB);
+  const totals = Object.fromEntries(LINK_STATUSES.map((status) => [status, 0])) as Record<
+    LinkStatus,
+    number
+  >;
+  const sites = rows.map((row) => {
+    const health = toLinkHealth(row.website, row.check) as LinkHealth;
+    totals[health.status] += 1;
+    return { siteId: row.siteId, siteName: row.siteName, website: row.website, ...health };
+  });
+  return {
+    generatedAt: new Date().toISOString(),
+    brokenAfterFailures: BROKEN_AFTER_FAILURES,
+    totals,
+    sites,
+  };
+}
+
+/**
+ * Reports the health of every listed website, worst first.
+ */
+export async function handleLinkReport(env: Env): Promise<Response> {
+  try {
+    return jsonResponse(await loadLinkReport(env));
+  } catch (error) {
+    console.error('Failed to load link report', error);
+    return jsonResponse({ message: 'Failed to load the link report right now.' }, { status: 500 });
+  }
+}
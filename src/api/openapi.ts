@@ -0,0 +1,494 @@
+import type { Route, RouteDocs, RouteParam } from '../router';
+import { jsonResponse } from '../utils/http';
+import { ROLES } from './auth';
+import { INTEREST_STATUSES } from './interest';
+import { LINK_STATUSES } from './linkHealth';
+import { OWNERSHIP_MODELS } from './sites';
+import { SUBMISSION_STATUSES } from './submissions';
+import { TAG_CATEGORIES } from './tags';
+
+type Schema = Record<string, unknown>;
+
+const API_VERSION = '1.0.0';
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (type: string, extra: Schema = {}): Schema => ({ type: [type, 'null'], ...extra });
+const arrayOf = (items: Schema): Schema => ({ type: 'array', items });
+const object = (properties: Record<string, Schema>, required: string[] = []): Schema => ({
+  type: 'object',
+  properties,
+  ...(required.length ? { required } : {}),
+});
+const countsBy = (keys: readonly string[]): Schema =>
+  object(Object.fromEntries(keys.map((key) => [key, { type: 'integer' }])), [...keys]);
+
+const ID: Schema = { type: 'integer', minimum: 1 };
+const TEXT: Schema = { type: 'string' };
+const TIMESTAMP: Schema = { type: 'string', description: 'UTC timestamp.' };
+const DATE: Schema = { type: 'string', format: 'date' };
+const CONTACT_VISIBILITY: Schema = { type: 'string', enum: ['public', 'private'] };
+const FORM_ELAPSED: Schema = {
+  type: 'integer',
+  description: 'Milliseconds the form was open before sending; quicker submissions are refused.',
+};
+
+const SITE_FIELDS: Record<string, Schema> = {
+  name: TEXT,
+  description: nullable('string'),
+  website: nullable('string', { format: 'uri' }),
+  tags: arrayOf(TEXT),
+  address: nullable('string'),
+  region: nullable('string'),
+  latitude: nullable('number', { minimum: -90, maximum: 90 }),
+  longitude: nullable('number', { minimum: -180, maximum: 180 }),
+  ownershipModel: { enum: [...OWNERSHIP_MODELS, null] },
+  memberCount: nullable('integer', { minimum: 0 }),
+  foundedYear: nullable('integer'),
+  capacityKw: nullable('number', { minimum: 0 }),
+  howToJoin: nullable('string'),
+  contacts: arrayOf(ref('Contact')),
+};
+
+const STORY_FIELDS: Record<string, Schema> = {
+  siteId: ID,
+  focus: { type: 'string', description: "One of the active vision's storytelling focus areas." },
+  title: TEXT,
+  body: { type: 'string', description: 'Markdown; raw HTML is stripped.' },
+  publishedOn: DATE,
+};
+
+const EVENT_FIELDS: Record<string, Schema> = {
+  siteId: ID,
+  title: TEXT,
+  description: nullable('string'),
+  location: nullable('string'),
+  startsAt: {
+    type: 'string',
+    description: 'Local time in `timezone`, or an instant with an offset. Returned in UTC.',
+  },
+  endsAt: TEXT,
+  timezone: { type: 'string', description: 'IANA time zone; defaults to UTC.' },
+};
+
+const INTEREST_FIELDS: Record<string, Schema> = {
+  name: nullable('string'),
+  email: { type: 'string', format: 'email' },
+  organization: nullable('string'),
+  message: nullable('string'),
+};
+
+const LINK_HEALTH_FIELDS: Record<string, Schema> = {
+  status: { type: 'string', enum: LINK_STATUSES },
+  statusCode: nullable('integer'),
+  redirectUrl: nullable('string'),
+  error: nullable('string'),
+  checkedAt: nullable('string'),
+  consecutiveFailures: { type: 'integer' },
+  lastOkAt: nullable('string'),
+};
+
+const VISION_VERSION_FIELDS: Record<string, Schema> = {
+  id: ID,
+  format: { type: 'string', enum: ['yaml', 'json'] },
+  versionLabel: nullable('string'),
+  hash: TEXT,
+  actor: TEXT,
+  actorTokenId: nullable('integer'),
+  note: nullable('string'),
+  createdAt: TIMESTAMP,
+};
+
+const IMPORT_ACTIONS = ['create', 'update', 'unchanged', 'error'];
+
+const SCHEMAS: Record<string, Schema> = {
+  Error: object({ message: TEXT }, ['message']),
+  ValidationError: object(
+    { message: TEXT, errors: arrayOf(object({ field: TEXT, message: TEXT }, ['field', 'message'])) },
+    ['message', 'errors'],
+  ),
+  RateLimited: object({ message: TEXT, retryAfter: { type: 'integer' } }, ['message', 'retryAfter']),
+  Message: object({ message: TEXT }, ['message']),
+  Contact: object(
+    {
+      role: TEXT,
+      name: nullable('string'),
+      email: nullable('string', { format: 'email' }),
+      phone: nullable('string'),
+      visibility: {
+        ...object({ name: CONTACT_VISIBILITY, email: CONTACT_VISIBILITY, phone: CONTACT_VISIBILITY }),
+        description: 'Private values are null unless the caller is an organizer.',
+      },
+    },
+    ['role'],
+  ),
+  SiteInput: { ...object(SITE_FIELDS, ['name']), description: 'PATCH accepts any subset.' },
+  Site: object(
+    { id: ID, ...SITE_FIELDS, linkHealth: { anyOf: [ref('LinkHealth'), { type: 'null' }] } },
+    ['id', 'name', 'tags', 'contacts'],
+  ),
+  SitePage: object(
+    { sites: arrayOf(ref('Site')), nextCursor: nullable('string'), total: { type: 'integer' } },
+    ['sites', 'nextCursor', 'total'],
+  ),
+  SiteExport: object({ exportedAt: TIMESTAMP, sites: arrayOf(ref('Site')) }),
+  LinkHealth: object(LINK_HEALTH_FIELDS, ['status']),
+  LinkReport: object({
+    generatedAt: TIMESTAMP,
+    brokenAfterFailures: { type: 'integer' },
+    totals: countsBy(LINK_STATUSES),
+    sites: arrayOf(object({ siteId: ID, siteName: TEXT, website: TEXT, ...LINK_HEALTH_FIELDS })),
+  }),
+  FeatureCollection: object(
+    { type: { const: 'FeatureCollection' }, features: arrayOf({ type: 'object' }) },
+    ['type', 'features'],
+  ),
+  Region: object({
+    region: TEXT,
+    siteCount: { type: 'integer' },
+    center: {
+      anyOf: [object({ latitude: { type: 'number' }, longitude: { type: 'number' } }), { type: 'null' }],
+    },
+  }),
+  RegionList: object(
+    {
+      regions: arrayOf(ref('Region')),
+      unassignedCount: { type: 'integer', description: 'Sites without a region.' },
+    },
+    ['regions', 'unassignedCount'],
+  ),
+  Tag: object({
+    id: ID,
+    label: TEXT,
+    slug: TEXT,
+    category: { enum: [...TAG_CATEGORIES, null] },
+    parentId: nullable('integer'),
+    aliases: arrayOf(TEXT),
+    siteCount: { type: 'integer', description: 'Sites carrying this tag directly.' },
+    children: arrayOf(ref('Tag')),
+  }),
+  TagTree: object({ categories: arrayOf({ enum: TAG_CATEGORIES }), tags: arrayOf(ref('Tag')) }),
+  TagUpdate: {
+    ...object({
+      label: TEXT,
+      category: { enum: [...TAG_CATEGORIES, null] },
+      parentId: nullable('integer'),
+      aliases: arrayOf(TEXT),
+    }),
+    description: 'Absent fields keep their current values.',
+  },
+  TagMerge: object({ into: { ...ID, description: 'Tag that absorbs the merged one.' } }, ['into']),
+  TagMergeResult: object({ tag: ref('Tag'), sitesRetagged: { type: 'integer' } }),
+  StoryInput: object(STORY_FIELDS, ['siteId', 'focus', 'title', 'body']),
+  Story: object(
+    {
+      id: ID,
+      ...STORY_FIELDS,
+      bodyHtml: TEXT,
+      siteName: TEXT,
+      createdBy: TEXT,
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP,
+    },
+    ['id', 'siteId', 'title', 'body', 'bodyHtml'],
+  ),
+  StoryList: object({ stories: arrayOf(ref('Story')) }, ['stories']),
+  EventInput: object(EVENT_FIELDS, ['siteId', 'title', 'startsAt', 'endsAt']),
+  Event: object(
+    {
+      id: ID,
+      ...EVENT_FIELDS,
+      siteName: TEXT,
+      sequence: { type: 'integer' },
+      createdBy: TEXT,
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP,
+    },
+    ['id', 'siteId', 'title', 'startsAt', 'endsAt', 'timezone'],
+  ),
+  EventList: object({ events: arrayOf(ref('Event')) }, ['events']),
+  SubmissionInput: object(
+    {
+      ...SITE_FIELDS,
+      siteId: nullable('integer', { description: 'Listing the submission proposes changes to.' }),
+      submitterName: nullable('string'),
+      submitterEmail: { type: 'string', format: 'email' },
+      formElapsedMs: FORM_ELAPSED,
+    },
+    ['name', 'submitterEmail', 'formElapsedMs'],
+  ),
+  SubmissionAccepted: object({ id: ID, status: { const: 'pending' }, message: TEXT }),
+  Submission: object({
+    id: ID,
+    siteId: nullable('integer'),
+    site: ref('SiteInput'),
+    submitterName: nullable('string'),
+    submitterEmail: TEXT,
+    status: { type: 'string', enum: SUBMISSION_STATUSES },
+    reviewReason: nullable('string'),
+    reviewedBy: nullable('string'),
+    reviewedAt: nullable('string'),
+    createdAt: TIMESTAMP,
+  }),
+  SubmissionPage: object({
+    submissions: arrayOf(ref('Submission')),
+    nextCursor: nullable('integer'),
+    total: { type: 'integer' },
+  }),
+  SubmissionReview: object({ reason: { type: 'string', description: 'Required when rejecting.' } }),
+  SubmissionReviewResult: object({
+    submission: ref('Submission'),
+    site: { anyOf: [ref('Site'), { type: 'null' }] },
+  }),
+  InterestInput: object({ ...INTEREST_FIELDS, formElapsedMs: FORM_ELAPSED }, ['email', 'formElapsedMs']),
+  InterestSignup: object({
+    id: ID,
+    ...INTEREST_FIELDS,
+    status: { type: 'string', enum: INTEREST_STATUSES },
+    siteId: nullable('integer'),
+    createdAt: TIMESTAMP,
+    statusUpdatedAt: nullable('string'),
+    confirmedAt: nullable('string'),
+  }),
+  InterestPage: object({
+    signups: arrayOf(ref('InterestSignup')),
+    nextCursor: nullable('integer'),
+    total: { type: 'integer' },
+  }),
+  InterestExport: object({ signups: arrayOf(ref('InterestSignup')) }, ['signups']),
+  InterestStatusUpdate: object(
+    {
+      status: { type: 'string', enum: INTEREST_STATUSES },
+      siteId: nullable('integer', { description: 'Site the signup converted into.' }),
+    },
+    ['status'],
+  ),
+  TokenInput: object({ label: TEXT, role: { type: 'string', enum: ROLES } }, ['label', 'role']),
+  Token: object({
+    id: ID,
+    label: TEXT,
+    role: { type: 'string', enum: ROLES },
+    createdAt: TIMESTAMP,
+    lastUsedAt: nullable('string'),
+    revokedAt: nullable('string'),
+  }),
+  IssuedToken: {
+    allOf: [
+      ref('Token'),
+      object({ token: { type: 'string', description: 'Shown only once.' } }, ['token']),
+    ],
+  },
+  TokenList: object({ tokens: arrayOf(ref('Token')) }, ['tokens']),
+  FieldChange: object({ field: TEXT, before: {}, after: {} }, ['field']),
+  SiteRevision: object({
+    siteId: ID,
+    revision: { type: 'integer' },
+    action: { type: 'string', enum: ['create', 'update', 'delete', 'restore'] },
+    snapshot: ref('Site'),
+    actor: TEXT,
+    actorTokenId: nullable('integer'),
+    note: nullable('string'),
+    createdAt: TIMESTAMP,
+    changes: arrayOf(ref('FieldChange')),
+  }),
+  SiteRevisionDiff: {
+    allOf: [
+      ref('SiteRevision'),
+      object({ comparedTo: nullable('integer', { description: 'Revision the changes are from.' }) }),
+    ],
+  },
+  SiteHistory: object({
+    siteId: ID,
+    deleted: { type: 'boolean' },
+    revisions: arrayOf(ref('SiteRevision')),
+  }),
+  AuditPage: object({
+    entries: arrayOf(
+      object({
+        id: ID,
+        actor: TEXT,
+        actorTokenId: nullable('integer'),
+        action: TEXT,
+        targetType: TEXT,
+        targetId: nullable('string'),
+        details: nullable('object'),
+        createdAt: TIMESTAMP,
+      }),
+    ),
+    nextCursor: nullable('integer'),
+  }),
+  ImportReport: object({
+    message: TEXT,
+    dryRun: { type: 'boolean' },
+    format: { type: 'string', enum: ['csv', 'json'] },
+    totals: countsBy(IMPORT_ACTIONS),
+    ignoredColumns: arrayOf(TEXT),
+    rows: arrayOf(
+      object({
+        row: { type: 'integer' },
+        action: { type: 'string', enum: IMPORT_ACTIONS },
+        name: nullable('string'),
+        siteId: nullable('integer'),
+        matchedBy: { enum: ['id', 'name', 'website', null] },
+        changes: arrayOf(ref('FieldChange')),
+        errors: arrayOf(object({ field: TEXT, message: TEXT })),
+      }),
+    ),
+  }),
+  VisionAssessment: {
+    type: 'object',
+    description: 'How the directory, or one site, measures up to the vision targets.',
+  },
+  Vision: object({
+    vision: object({
+      version: nullable('string'),
+      hash: TEXT,
+      storedVersion: nullable('integer'),
+      format: { type: 'string', enum: ['yaml', 'json'] },
+      source: TEXT,
+      yaml: TEXT,
+      config: { type: 'object', description: 'The parsed vision document.' },
+    }),
+    assessment: ref('VisionAssessment'),
+    generatedAt: TIMESTAMP,
+  }),
+  VisionHistory: object({
+    from: nullable('string'),
+    to: nullable('string'),
+    snapshots: arrayOf(
+      object({
+        date: DATE,
+        progressScore: { type: 'number' },
+        siteCount: { type: 'integer' },
+        totalTags: { type: 'integer' },
+        averageTagsPerSite: { type: 'number' },
+        coverageRatio: { type: 'number' },
+        metrics: { type: 'object' },
+        createdAt: TIMESTAMP,
+      }),
+    ),
+  }),
+  VisionVersion: object(VISION_VERSION_FIELDS),
+  VisionVersionSource: object({ ...VISION_VERSION_FIELDS, source: TEXT }),
+  VisionVersionActivated: object({ ...VISION_VERSION_FIELDS, config: { type: 'object' } }),
+  VisionVersionList: object({
+    active: nullable('integer', { description: 'Stored version in effect; null for the bundled YAML.' }),
+    bundledHash: TEXT,
+    versions: arrayOf(ref('VisionVersion')),
+  }),
+  NextSteps: object({
+    nextSteps: arrayOf(object({ id: TEXT, title: TEXT, description: TEXT })),
+    generatedAt: TIMESTAMP,
+  }),
+};
+
+/** `/api/sites/:id(\d+)` becomes `/api/sites/{id}`. */
+function openApiPath(path: string): string {
+  return path.replace(/:(\w+)(?:\((?:[^()]|\([^()]*\))*\))?/g, '{$1}');
+}
+
+function parameterSchema(param: RouteParam): Schema {
+  if (param.pattern === '\\d+') {
+    return ID;
+  }
+  if (/^\w+(?:\|\w+)+$/.test(param.pattern)) {
+    return { type: 'string', enum: param.pattern.split('|') };
+  }
+  return { type: 'string', pattern: `^${param.pattern}$` };
+}
+
+function content(body: NonNullable<RouteDocs['body']>): Record<string, { schema: Schema }> {
+  if (typeof body === 'string') {
+    return { 'application/json': { schema: ref(body) } };
+  }
+  return Object.fromEntries(Object.entries(body).map(([type, schema]) => [type, { schema }]));
+}
+
+function operationId(method: string, path: string): string {
+  const words = openApiPath(path)
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word && word !== 'api');
+  return method.toLowerCase() + words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+}
+
+function operation(route: Route, docs: RouteDocs, method: string): Schema {
+  const responses: Record<string, Schema> = {
+    [String(docs.status ?? 200)]: {
+      description: 'Success.',
+      ...(docs.response ? { content: content(docs.response) } : {}),
+    },
+  };
+  if (docs.body || docs.query?.length) {
+    responses['400'] = { description: 'Invalid request.', content: content('ValidationError') };
+  }
+  if (route.role) {
+    responses['401'] = { description: 'Missing or unknown API token.', content: content('Error') };
+    responses['403'] = { description: `Needs the ${route.role} role.`, content: content('Error') };
+  }
+  responses.default = { description: 'Error.', content: content('Error') };
+
+  return {
+    operationId: operationId(method, route.path),
+    summary: docs.summary,
+    tags: [docs.tag],
+    parameters: [
+      ...route.params.map((param) => ({
+        name: param.name,
+        in: 'path',
+        required: true,
+        schema: parameterSchema(param),
+      })),
+      ...(docs.query ?? []).map((query) => ({
+        name: query.name,
+        in: 'query',
+        description: query.description,
+        required: query.required ?? false,
+        schema: query.schema ?? TEXT,
+      })),
+    ],
+    ...(docs.body ? { requestBody: { required: true, content: content(docs.body) } } : {}),
+    responses,
+    ...(route.role ? { security: [{ bearerAuth: [] }], 'x-required-role': route.role } : {}),
+  };
+}
+
+/**
+ * OpenAPI 3.1 description of every route with docs. Routes sharing a path are grouped under
+ * one path item.
+ */
+export function buildOpenApiDocument(routes: readonly Route[], url: URL): Schema {
+  const paths: Record<string, Record<string, Schema>> = {};
+  for (const route of routes) {
+    if (!route.docs) {
+      continue;
+    }
+    const path = openApiPath(route.path);
+    paths[path] ??= {};
+    for (const method of route.methods) {
+      paths[path][method.toLowerCase()] = operation(route, route.docs, method);
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'SolarRoots Directory API',
+      version: API_VERSION,
+      description: [
+        'Directory of community-owned solar and regenerative cooperatives.',
+        'Operations with an `x-required-role` need an API token with at least that role.',
+      ].join(' '),
+    },
+    servers: [{ url: url.origin }],
+    paths,
+    components: {
+      schemas: SCHEMAS,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'An API token issued by an admin.' },
+      },
+    },
+  };
+}
+
+export function handleOpenApi(routes: readonly Route[], url: URL): Response {
+  return jsonResponse(buildOpenApiDocument(routes, url));
+}
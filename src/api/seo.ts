@@ -0,0 +1,77 @@
+import type { Env } from '../types/env';
+import { fetchSitemapSites } from '../data/sites';
+import { sitePath } from '../pages/components';
+import { parseUtcInstant, toUtcInstant } from '../utils/time';
+import { escapeXml } from '../utils/xml';
+
+// Public pages that are not per cooperative. Admin pages, API routes, and pre-filled submission
+// forms are left out.
+const STATIC_PAGES = ['/', '/directory', '/events', '/submit'];
+
+type SitemapEntry = {
+  path: string;
+  lastModified?: string;
+};
+
+function renderSitemap(url: URL, entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) => {
+    const lines = ['  <url>', `    <loc>${escapeXml(new URL(entry.path, url).toString())}</loc>`];
+    if (entry.lastModified) {
+      lines.push(`    <lastmod>${toUtcInstant(parseUtcInstant(entry.lastModified))}</lastmod>`);
+    }
+    lines.push('  </url>');
+    return lines.join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serves `/sitemap.xml`: the static public pages and every cooperative's canonical profile URL,
+ * each profile with the time its listing last changed.
+ */
+export async function handleSitemap(url: URL, env: Env): Promise<Response> {
+  try {
+    const sites = await fetchSitemapSites(env.DB);
+    // D1 timestamps share one format, so they sort as strings.
+    const newest = sites.reduce<string | undefined>(
+      (latest, site) => (latest && latest > site.updatedAt ? latest : site.updatedAt),
+      undefined,
+    );
+    const entries: SitemapEntry[] = [
+      ...STATIC_PAGES.map((path) => ({
+        path,
+        // The landing page and directory list the newest cooperatives, so they change with them.
+        lastModified: path === '/' || path === '/directory' ? newest : undefined,
+      })),
+      ...sites.map((site) => ({ path: sitePath(site), lastModified: site.updatedAt })),
+    ];
+    return new Response(renderSitemap(url, entries), {
+      headers: { 'content-type': 'application/xml; charset=UTF-8' },
+    });
+  } catch (error) {
+    console.error('Failed to build the sitemap', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+/**
+ * Serves `/robots.txt`, keeping crawlers out of the API and staff pages and pointing them at the
+ * sitemap.
+ */
+export function handleRobots(url: URL): Response {
+  const body = [
+    'User-agent: *',
+    'Disallow: /admin',
+    'Disallow: /api/',
+    '',
+    `Sitemap: ${new URL('/sitemap.xml', url).toString()}`,
+    '',
+  ].join('\n');
+  return new Response(body, { headers: { 'content-type': 'text/plain; charset=UTF-8' } });
+}
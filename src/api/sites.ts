@@ -0,0 +1,753 @@
+import type { Principal } from '../types/auth';
+import type {
+  ContactField,
+  ContactVisibility,
+  NearbyFilter,
+  OwnershipModel,
+  SiteContact,
+  SiteInput,
+  SiteQueryOptions,
+  SiteRecord,
+  SiteSort,
+  TagMatchMode,
+} from '../types/directory';
+import type { Env } from '../types/env';
+import {
+  createSite,
+  DEFAULT_PAGE_SIZE,
+  deleteSite,
+  fetchSiteById,
+  InvalidCursorError,
+  MAX_PAGE_SIZE,
+  querySites,
+  updateSite,
+} from '../data/sites';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { slugify } from '../utils/slug';
+import { sanitizeOptionalField } from '../utils/validation';
+import { recordAudit } from './audit';
+import { withLinkHealth } from './linkHealth';
+
+const MAX_NAME_LENGTH = 160;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_WEBSITE_LENGTH = 512;
+export const MAX_TAG_LENGTH = 48;
+// Separates tags in one CSV cell, so labels may not contain it or exports would not round-trip.
+export const TAG_LIST_SEPARATOR = ';';
+const MAX_TAGS = 20;
+const MAX_QUERY_LENGTH = 200;
+const MAX_ADDRESS_LENGTH = 240;
+const MAX_REGION_LENGTH = 120;
+const MAX_HOW_TO_JOIN_LENGTH = 1000;
+const MAX_MEMBER_COUNT = 10_000_000;
+const MAX_CAPACITY_KW = 10_000_000;
+const EARLIEST_FOUNDED_YEAR = 1800;
+const MAX_CONTACTS = 10;
+const MAX_CONTACT_ROLE_LENGTH = 80;
+const MAX_CONTACT_NAME_LENGTH = 120;
+const MAX_CONTACT_EMAIL_LENGTH = 254;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Digits with the usual separators and an optional leading +, as people write numbers.
+const PHONE_PATTERN = /^\+?[0-9][0-9 ().-]{4,30}$/;
+const DEFAULT_RADIUS_KM = 25;
+const MAX_RADIUS_KM = 1000;
+const SITE_SORTS: readonly SiteSort[] = ['newest', 'name'];
+const TAG_MATCH_MODES: readonly TagMatchMode[] = ['any', 'all'];
+
+export const OWNERSHIP_MODELS: readonly OwnershipModel[] = [
+  'consumer',
+  'worker',
+  'multi-stakeholder',
+  'community',
+  'municipal',
+  'other',
+];
+
+const CONTACT_FIELDS: readonly ContactField[] = ['name', 'email', 'phone'];
+
+// Names and emails are listed to be found; phone numbers stay private unless marked public.
+const DEFAULT_CONTACT_VISIBILITY: Record<ContactField, ContactVisibility> = {
+  name: 'public',
+  email: 'public',
+  phone: 'private',
+};
+
+export function hasField(record: Record<string, unknown>, field: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, field);
+}
+
+function normalizeWebsite(value: unknown, errors: FieldError[]): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value !== 'string') {
+    errors.push({ field: 'website', message: 'Website must be a string URL.' });
+    return null;
+  }
+
+  const website = value.trim();
+  if (!website) {
+    return null;
+  }
+
+  if (website.length > MAX_WEBSITE_LENGTH) {
+    errors.push({
+      field: 'website',
+      message: `Website must be at most ${MAX_WEBSITE_LENGTH} characters.`,
+    });
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(website);
+  } catch {
+    errors.push({ field: 'website', message: 'Enter a valid website URL.' });
+    return null;
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    errors.push({ field: 'website', message: 'Website must use http or https.' });
+    return null;
+  }
+
+  return website;
+}
+
+function normalizeCoordinate(
+  value: unknown,
+  field: 'latitude' | 'longitude',
+  limit: number,
+  errors: FieldError[],
+): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ field, message: `${field === 'latitude' ? 'Latitude' : 'Longitude'} must be a number.` });
+    return null;
+  }
+
+  if (Math.abs(value) > limit) {
+    errors.push({
+      field,
+      message: `${field === 'latitude' ? 'Latitude' : 'Longitude'} must be between -${limit} and ${limit}.`,
+    });
+    return null;
+  }
+
+  return value;
+}
+
+function normalizeWholeNumber(
+  value: unknown,
+  field: string,
+  label: string,
+  min: number,
+  max: number,
+  errors: FieldError[],
+): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push({ field, message: `${label} must be a whole number between ${min} and ${max}.` });
+    return null;
+  }
+
+  return value;
+}
+
+function normalizeCapacity(value: unknown, errors: FieldError[]): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_CAPACITY_KW) {
+    errors.push({
+      field: 'capacityKw',
+      message: `Capacity must be a number of kW between 0 and ${MAX_CAPACITY_KW}.`,
+    });
+    return null;
+  }
+
+  return value;
+}
+
+function normalizeOwnershipModel(value: unknown, errors: FieldError[]): OwnershipModel | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (!OWNERSHIP_MODELS.includes(value as OwnershipModel)) {
+    errors.push({
+      field: 'ownershipModel',
+      message: `Ownership model must be one of ${OWNERSHIP_MODELS.join(', ')}.`,
+    });
+    return null;
+  }
+
+  return value as OwnershipModel;
+}
+
+function normalizeContact(value: unknown, field: string, errors: FieldError[]): SiteContact | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push({ field, message: 'Each contact must be an object.' });
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const errorCount = errors.length;
+
+  const role = typeof record.role === 'string' ? record.role.trim().replace(/\s+/g, ' ') : '';
+  if (!role) {
+    errors.push({ field: `${field}.role`, message: 'Role is required.' });
+  } else if (role.length > MAX_CONTACT_ROLE_LENGTH) {
+    errors.push({
+      field: `${field}.role`,
+      message: `Role must be at most ${MAX_CONTACT_ROLE_LENGTH} characters.`,
+    });
+  }
+
+  const name = sanitizeOptionalField(record.name, MAX_CONTACT_NAME_LENGTH);
+
+  const email = sanitizeOptionalField(record.email, MAX_CONTACT_EMAIL_LENGTH + 1);
+  if (email && (email.length > MAX_CONTACT_EMAIL_LENGTH || !EMAIL_PATTERN.test(email))) {
+    errors.push({ field: `${field}.email`, message: 'Enter a valid email address.' });
+  }
+
+  const phone = sanitizeOptionalField(record.phone, 40);
+  if (phone && !PHONE_PATTERN.test(phone)) {
+    errors.push({
+      field: `${field}.phone`,
+      message: 'Phone numbers may contain digits, spaces, brackets, dots, dashes, and a leading +.',
+    });
+  }
+
+  if (!name && !email && !phone) {
+    errors.push({ field, message: 'A contact needs a name, email, or phone number.' });
+  }
+
+  const visibility = { ...DEFAULT_CONTACT_VISIBILITY };
+  if (record.visibility !== undefined && record.visibility !== null) {
+    if (typeof record.visibility !== 'object' || Array.isArray(record.visibility)) {
+      errors.push({
+        field: `${field}.visibility`,
+        message: 'Visibility must map name, email, and phone to public or private.',
+      });
+    } else {
+      const flags = record.visibility as Record<string, unknown>;
+      for (const key of CONTACT_FIELDS) {
+        if (flags[key] === undefined) {
+          continue;
+        }
+        if (flags[key] === 'public' || flags[key] === 'private') {
+          visibility[key] = flags[key] as ContactVisibility;
+        } else {
+          errors.push({
+            field: `${field}.visibility.${key}`,
+            message: 'Visibility must be public or private.',
+          });
+        }
+      }
+    }
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+  return { role, name, email: email?.toLowerCase() ?? null, phone, visibility };
+}
+
+function normalizeContacts(value: unknown, errors: FieldError[]): SiteContact[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    errors.push({ field: 'contacts', message: 'Contacts must be an array of objects.' });
+    return [];
+  }
+
+  if (value.length > MAX_CONTACTS) {
+    errors.push({ field: 'contacts', message: `A site can have at most ${MAX_CONTACTS} contacts.` });
+    return [];
+  }
+
+  return value
+    .map((entry, index) => normalizeContact(entry, `contacts[${index}]`, errors))
+    .filter((contact): contact is SiteContact => contact !== null);
+}
+
+function normalizeTags(value: unknown, errors: FieldError[]): string[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    errors.push({ field: 'tags', message: 'Tags must be an array of strings.' });
+    return [];
+  }
+
+  const tags: string[] = [];
+  const seen = new Set<string>();
+  value.forEach((entry, index) => {
+    if (typeof entry !== 'string') {
+      errors.push({ field: `tags[${index}]`, message: 'Each tag must be a string.' });
+      return;
+    }
+
+    const tag = entry.trim().replace(/\s+/g, ' ');
+    if (!tag) {
+      return;
+    }
+
+    if (tag.length > MAX_TAG_LENGTH) {
+      errors.push({
+        field: `tags[${index}]`,
+        message: `Tags must be at most ${MAX_TAG_LENGTH} characters.`,
+      });
+      return;
+    }
+
+    if (tag.includes(TAG_LIST_SEPARATOR)) {
+      errors.push({
+        field: `tags[${index}]`,
+        message: `Tags cannot contain "${TAG_LIST_SEPARATOR}".`,
+      });
+      return;
+    }
+
+    const slug = slugify(tag);
+    if (!slug) {
+      errors.push({ field: `tags[${index}]`, message: 'Tags must contain a letter or number.' });
+      return;
+    }
+
+    if (!seen.has(slug)) {
+      seen.add(slug);
+      tags.push(tag);
+    }
+  });
+
+  if (tags.length > MAX_TAGS) {
+    errors.push({ field: 'tags', message: `A site can have at most ${MAX_TAGS} tags.` });
+  }
+
+  return tags;
+}
+
+/**
+ * Validates a site payload. When `base` is provided (PATCH), fields absent from the
+ * payload keep their current values; otherwise the payload must describe the whole site.
+ */
+export function validateSitePayload(
+  data: unknown,
+  base?: SiteInput,
+):
+  | { valid: true; payload: SiteInput }
+  | { valid: false; errors: FieldError[] } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Invalid request body.' }] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  let name = base?.name ?? '';
+  if (!base || hasField(record, 'name')) {
+    const nameRaw = typeof record.name === 'string' ? record.name.trim() : '';
+    if (!nameRaw) {
+      errors.push({ field: 'name', message: 'Name is required.' });
+    } else if (nameRaw.length > MAX_NAME_LENGTH) {
+      errors.push({
+        field: 'name',
+        message: `Name must be at most ${MAX_NAME_LENGTH} characters.`,
+      });
+    }
+    name = nameRaw;
+  }
+
+  let description = base?.description ?? null;
+  if (!base || hasField(record, 'description')) {
+    description = sanitizeOptionalField(record.description, MAX_DESCRIPTION_LENGTH);
+  }
+
+  const website =
+    !base || hasField(record, 'website')
+      ? normalizeWebsite(record.website, errors)
+      : base.website;
+
+  const tags = !base || hasField(record, 'tags') ? normalizeTags(record.tags, errors) : base.tags;
+
+  const address =
+    !base || hasField(record, 'address')
+      ? sanitizeOptionalField(record.address, MAX_ADDRESS_LENGTH)
+      : base.address;
+  const region =
+    !base || hasField(record, 'region')
+      ? sanitizeOptionalField(record.region, MAX_REGION_LENGTH)
+      : base.region;
+
+  const latitude =
+    !base || hasField(record, 'latitude')
+      ? normalizeCoordinate(record.latitude, 'latitude', 90, errors)
+      : base.latitude;
+  const longitude =
+    !base || hasField(record, 'longitude')
+      ? normalizeCoordinate(record.longitude, 'longitude', 180, errors)
+      : base.longitude;
+  if ((latitude === null) !== (longitude === null)) {
+    errors.push({
+      field: latitude === null ? 'latitude' : 'longitude',
+      message: 'Latitude and longitude must be provided together.',
+    });
+  }
+
+  const ownershipModel =
+    !base || hasField(record, 'ownershipModel')
+      ? normalizeOwnershipModel(record.ownershipModel, errors)
+      : base.ownershipModel;
+  const memberCount =
+    !base || hasField(record, 'memberCount')
+      ? normalizeWholeNumber(record.memberCount, 'memberCount', 'Member count', 0, MAX_MEMBER_COUNT, errors)
+      : base.memberCount;
+  const foundedYear =
+    !base || hasField(record, 'foundedYear')
+      ? normalizeWholeNumber(
+          record.foundedYear,
+          'foundedYear',
+          'Year founded',
+          EARLIEST_FOUNDED_YEAR,
+          new Date().getUTCFullYear(),
+          errors,
+        )
+      : base.foundedYear;
+  const capacityKw =
+    !base || hasField(record, 'capacityKw')
+      ? normalizeCapacity(record.capacityKw, errors)
+      : base.capacityKw;
+  const howToJoin =
+    !base || hasField(record, 'howToJoin')
+      ? sanitizeOptionalField(record.howToJoin, MAX_HOW_TO_JOIN_LENGTH)
+      : base.howToJoin;
+
+  const contacts =
+    !base || hasField(record, 'contacts')
+      ? normalizeContacts(record.contacts, errors)
+      : base.contacts;
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    payload: {
+      name,
+      description,
+      website,
+      tags,
+      address,
+      region,
+      latitude,
+      longitude,
+      ownershipModel,
+      memberCount,
+      foundedYear,
+      capacityKw,
+      howToJoin,
+      contacts,
+    },
+  };
+}
+
+function parseCoordinatePair(value: string): { latitude: number; longitude: number } | null {
+  const parts = value.split(',').map((part) => part.trim());
+  if (parts.length !== 2 || parts.some((part) => !part)) {
+    return null;
+  }
+
+  const [latitude, longitude] = parts.map(Number);
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+
+  return { latitude, longitude };
+}
+
+/**
+ * Parses the `/api/sites` listing parameters: `q`, repeatable `tag`, `tagMode`, `region`,
+ * `near` with `radiusKm`, `sort`, `cursor`, and `limit`.
+ */
+export function parseSiteQuery(params: URLSearchParams):
+  | { valid: true; options: SiteQueryOptions }
+  | { valid: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+
+  const q = sanitizeOptionalField(params.get('q'), MAX_QUERY_LENGTH);
+
+  const tags = Array.from(
+    new Set(
+      params
+        .getAll('tag')
+        .flatMap((value) => value.split(','))
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    ),
+  );
+  if (tags.length > MAX_TAGS) {
+    errors.push({ field: 'tag', message: `Filter by at most ${MAX_TAGS} tags.` });
+  }
+
+  const tagModeRaw = params.get('tagMode') ?? 'any';
+  if (!TAG_MATCH_MODES.includes(tagModeRaw as TagMatchMode)) {
+    errors.push({ field: 'tagMode', message: `tagMode must be one of ${TAG_MATCH_MODES.join(', ')}.` });
+  }
+
+  const sortRaw = params.get('sort') ?? 'newest';
+  if (!SITE_SORTS.includes(sortRaw as SiteSort)) {
+    errors.push({ field: 'sort', message: `sort must be one of ${SITE_SORTS.join(', ')}.` });
+  }
+
+  const region = sanitizeOptionalField(params.get('region'), MAX_REGION_LENGTH);
+
+  let near: NearbyFilter | null = null;
+  const nearRaw = params.get('near');
+  const radiusRaw = params.get('radiusKm');
+  if (nearRaw !== null) {
+    const point = parseCoordinatePair(nearRaw);
+    const radiusKm = radiusRaw === null ? DEFAULT_RADIUS_KM : Number(radiusRaw);
+    if (!point) {
+      errors.push({ field: 'near', message: 'near must be a "latitude,longitude" pair.' });
+    }
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+      errors.push({
+        field: 'radiusKm',
+        message: `radiusKm must be a number greater than 0 and at most ${MAX_RADIUS_KM}.`,
+      });
+    }
+    if (point) {
+      near = { ...point, radiusKm };
+    }
+  } else if (radiusRaw !== null) {
+    errors.push({ field: 'radiusKm', message: 'radiusKm requires a near parameter.' });
+  }
+
+  let limit = DEFAULT_PAGE_SIZE;
+  const limitRaw = params.get('limit');
+  if (limitRaw !== null) {
+    limit = Number(limitRaw);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      errors.push({
+        field: 'limit',
+        message: `limit must be a whole number between 1 and ${MAX_PAGE_SIZE}.`,
+      });
+    }
+  }
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    options: {
+      q,
+      tags,
+      tagMode: tagModeRaw as TagMatchMode,
+      region,
+      near,
+      sort: sortRaw as SiteSort,
+      cursor: params.get('cursor') || null,
+      limit,
+    },
+  };
+}
+
+/**
+ * Blanks contact values marked private, for readers who are not organizers. Contacts with no
+ * public value left are dropped.
+ */
+export function redactSite(site: SiteRecord): SiteRecord {
+  const contacts = site.contacts
+    .map((contact) => ({
+      ...contact,
+      name: contact.visibility.name === 'public' ? contact.name : null,
+      email: contact.visibility.email === 'public' ? contact.email : null,
+      phone: contact.visibility.phone === 'public' ? contact.phone : null,
+    }))
+    .filter((contact) => contact.name || contact.email || contact.phone);
+  return { ...site, contacts };
+}
+
+/**
+ * Lists sites with their `linkHealth`. Private contact fields are only included when
+ * `includePrivate` is set, which the router does for organizer credentials.
+ */
+export async function handleSiteList(
+  url: URL,
+  env: Env,
+  includePrivate: boolean,
+): Promise<Response> {
+  const parsed = parseSiteQuery(url.searchParams);
+  if (!parsed.valid) {
+    return validationErrorResponse('Invalid site query.', parsed.errors);
+  }
+
+  try {
+    const page = await querySites(env.DB, parsed.options);
+    const sites = includePrivate ? page.sites : page.sites.map(redactSite);
+    return Response.json({ ...page, sites: await withLinkHealth(env.DB, sites) });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return validationErrorResponse('Invalid site query.', [
+        { field: 'cursor', message: error.message },
+      ]);
+    }
+    console.error('Failed to list sites', error);
+    return jsonResponse({ message: 'Failed to load sites right now.' }, { status: 500 });
+  }
+}
+
+export async function readJsonBody(
+  request: Request,
+): Promise<{ ok: true; data: unknown } | { ok: false; response: Response }> {
+  try {
+    return { ok: true, data: await request.json() };
+  } catch (error) {
+    console.error('Invalid site payload', error);
+    return {
+      ok: false,
+      response: jsonResponse({ message: 'Unable to process request body.' }, { status: 400 }),
+    };
+  }
+}
+
+function siteNotFound(id: number): Response {
+  return jsonResponse({ message: `Site ${id} was not found.` }, { status: 404 });
+}
+
+export async function handleSiteGet(env: Env, id: number, includePrivate: boolean): Promise<Response> {
+  try {
+    const site = await fetchSiteById(env.DB, id);
+    if (!site) {
+      return siteNotFound(id);
+    }
+    const [listed] = await withLinkHealth(env.DB, [includePrivate ? site : redactSite(site)]);
+    return Response.json(listed);
+  } catch (error) {
+    console.error(`Failed to load site ${id}`, error);
+    return jsonResponse({ message: 'Failed to load the site right now.' }, { status: 500 });
+  }
+}
+
+export function toSiteInput(site: SiteRecord): SiteInput {
+  return {
+    name: site.name,
+    description: site.description,
+    website: site.website,
+    tags: site.tags,
+    address: site.address,
+    region: site.region,
+    latitude: site.latitude,
+    longitude: site.longitude,
+    ownershipModel: site.ownershipModel,
+    memberCount: site.memberCount,
+    foundedYear: site.foundedYear,
+    capacityKw: site.capacityKw,
+    howToJoin: site.howToJoin,
+    contacts: site.contacts,
+  };
+}
+
+export async function handleSiteCreate(
+  request: Request,
+  env: Env,
+  principal: Principal,
+): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+
+  const validation = validateSitePayload(body.data);
+  if (!validation.valid) {
+    return validationErrorResponse('Invalid site payload.', validation.errors);
+  }
+
+  try {
+    const site = await createSite(env.DB, validation.payload, { actor: principal });
+    return jsonResponse(site, { status: 201, headers: { Location: `/api/sites/${site.id}` } });
+  } catch (error) {
+    console.error('Failed to create site', error);
+    return jsonResponse({ message: 'Failed to create the site right now.' }, { status: 500 });
+  }
+}
+
+export async function handleSiteUpdate(
+  request: Request,
+  env: Env,
+  id: number,
+  mode: 'replace' | 'merge',
+  principal: Principal,
+): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+
+  try {
+    let base: SiteInput | undefined;
+    if (mode === 'merge') {
+      const existing = await fetchSiteById(env.DB, id);
+      if (!existing) {
+        return siteNotFound(id);
+      }
+      base = toSiteInput(existing);
+    }
+
+    const validation = validateSitePayload(body.data, base);
+    if (!validation.valid) {
+      return validationErrorResponse('Invalid site payload.', validation.errors);
+    }
+
+    const site = await updateSite(env.DB, id, validation.payload, { actor: principal });
+    return site ? jsonResponse(site) : siteNotFound(id);
+  } catch (error) {
+    console.error(`Failed to update site ${id}`, error);
+    return jsonResponse({ message: 'Failed to update the site right now.' }, { status: 500 });
+  }
+}
+
+export async function handleSiteDelete(
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  try {
+    const site = await deleteSite(env.DB, id, { actor: principal });
+    if (!site) {
+      return siteNotFound(id);
+    }
+    await recordAudit(env, {
+      actor: principal,
+      action: 'site.delete',
+      targetType: 'site',
+      targetId: id,
+      details: { name: site.name },
+    });
+    return jsonResponse(site);
+  } catch (error) {
+    console.error(`Failed to delete site ${id}`, error);
+    return jsonResponse({ message: 'Failed to delete the site right now.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,295 @@
+import type { Principal } from '../types/auth';
+import type { Env } from '../types/env';
+import type { Story, StoryInput, StoryQueryOptions } from '../types/story';
+import { fetchSiteById } from '../data/sites';
+import {
+  DEFAULT_STORY_PAGE_SIZE,
+  deleteStory,
+  fetchStoryById,
+  insertStory,
+  queryStories,
+  updateStory,
+} from '../data/stories';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { renderMarkdown, sanitizeMarkdown } from '../utils/markdown';
+import { isValidDate, sanitizeOptionalField } from '../utils/validation';
+import { recordAudit } from './audit';
+import { hasField, readJsonBody } from './sites';
+import { loadActiveVision } from './visionConfig';
+
+const MAX_TITLE_LENGTH = 160;
+const MAX_BODY_LENGTH = 20_000;
+const MAX_STORY_PAGE_SIZE = 100;
+
+/** A story as the API returns it, with the Markdown body rendered to safe HTML. */
+export function serializeStory(story: Story): Story & { bodyHtml: string } {
+  return { ...story, bodyHtml: renderMarkdown(story.body) };
+}
+
+function storyNotFound(id: number): Response {
+  return jsonResponse({ message: `Story ${id} was not found.` }, { status: 404 });
+}
+
+export function parseStoryQuery(params: URLSearchParams):
+  | { valid: true; options: StoryQueryOptions }
+  | { valid: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+
+  let siteId: number | null = null;
+  const siteIdRaw = params.get('siteId');
+  if (siteIdRaw !== null) {
+    siteId = Number(siteIdRaw);
+    if (!Number.isInteger(siteId) || siteId < 1) {
+      errors.push({ field: 'siteId', message: 'siteId must be a site id.' });
+    }
+  }
+
+  const focus = sanitizeOptionalField(params.get('focus'), 80);
+
+  let limit = DEFAULT_STORY_PAGE_SIZE;
+  const limitRaw = params.get('limit');
+  if (limitRaw !== null) {
+    limit = Number(limitRaw);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_STORY_PAGE_SIZE) {
+      errors.push({
+        field: 'limit',
+        message: `limit must be a whole number between 1 and ${MAX_STORY_PAGE_SIZE}.`,
+      });
+    }
+  }
+
+  return errors.length ? { valid: false, errors } : { valid: true, options: { siteId, focus, limit } };
+}
+
+/**
+ * Validates a story payload. `focusAreas` are the active vision's `storytelling_focus`. When
+ * `base` is provided (PATCH), fields absent from the payload keep their current values;
+ * `publishedOn` defaults to today (UTC) on create.
+ */
+export function validateStoryPayload(
+  data: unknown,
+  focusAreas: readonly string[],
+  base?: StoryInput,
+):
+  | { valid: true; payload: StoryInput }
+  | { valid: false; errors: FieldError[] } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Invalid request body.' }] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  let siteId = base?.siteId ?? 0;
+  if (!base || hasField(record, 'siteId')) {
+    if (typeof record.siteId !== 'number' || !Number.isInteger(record.siteId) || record.siteId < 1) {
+      errors.push({ field: 'siteId', message: 'siteId must be the id of a listed site.' });
+    } else {
+      siteId = record.siteId;
+    }
+  }
+
+  let focus = base?.focus ?? '';
+  if (!base || hasField(record, 'focus')) {
+    focus = typeof record.focus === 'string' ? record.focus.trim() : '';
+    if (!focusAreas.includes(focus)) {
+      errors.push({
+        field: 'focus',
+        message: focusAreas.length
+          ? `focus must be one of ${focusAreas.join(', ')}.`
+          : 'The vision does not define any storytelling focus areas yet.',
+      });
+    }
+  }
+
+  let title = base?.title ?? '';
+  if (!base || hasField(record, 'title')) {
+    title = typeof record.title === 'string' ? record.title.trim().replace(/\s+/g, ' ') : '';
+    if (!title) {
+      errors.push({ field: 'title', message: 'Title is required.' });
+    } else if (title.length > MAX_TITLE_LENGTH) {
+      errors.push({ field: 'title', message: `Title must be at most ${MAX_TITLE_LENGTH} characters.` });
+    }
+  }
+
+  let body = base?.body ?? '';
+  if (!base || hasField(record, 'body')) {
+    body = typeof record.body === 'string' ? sanitizeMarkdown(record.body) : '';
+    if (!body) {
+      errors.push({ field: 'body', message: 'Body is required.' });
+    } else if (body.length > MAX_BODY_LENGTH) {
+      errors.push({ field: 'body', message: `Body must be at most ${MAX_BODY_LENGTH} characters.` });
+    }
+  }
+
+  let publishedOn = base?.publishedOn ?? new Date().toISOString().slice(0, 10);
+  if (hasField(record, 'publishedOn')) {
+    const value = typeof record.publishedOn === 'string' ? record.publishedOn.trim() : '';
+    if (!isValidDate(value)) {
+      errors.push({ field: 'publishedOn', message: 'publishedOn must be a date formatted as YYYY-MM-DD.' });
+    } else {
+      publishedOn = value;
+    }
+  }
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+  return { valid: true, payload: { siteId, focus, title, body, publishedOn } };
+}
+
+/**
+ * Validates a payload against the active vision and checks the site exists, so both create
+ * and update report an unknown site as a field error.
+ */
+async function validateStory(
+  env: Env,
+  data: unknown,
+  base?: StoryInput,
+): Promise<{ valid: true; payload: StoryInput } | { valid: false; errors: FieldError[] }> {
+  const vision = await loadActiveVision(env);
+  const validation = validateStoryPayload(
+    data,
+    vision.config.directory_targets.storytelling_focus,
+    base,
+  );
+  if (!validation.valid) {
+    return validation;
+  }
+  if (!(await fetchSiteById(env.DB, validation.payload.siteId))) {
+    return {
+      valid: false,
+      errors: [{ field: 'siteId', message: `Site ${validation.payload.siteId} was not found.` }],
+    };
+  }
+  return validation;
+}
+
+/**
+ * Lists stories newest first, filtered by `siteId` and `focus`.
+ */
+export async function handleStoryList(url: URL, env: Env): Promise<Response> {
+  const parsed = parseStoryQuery(url.searchParams);
+  if (!parsed.valid) {
+    return validationErrorResponse('Invalid story query.', parsed.errors);
+  }
+
+  try {
+    const stories = await queryStories(env.DB, parsed.options);
+    return jsonResponse({ stories: stories.map(serializeStory) });
+  } catch (error) {
+    console.error('Failed to list stories', error);
+    return jsonResponse({ message: 'Failed to load stories right now.' }, { status: 500 });
+  }
+}
+
+export async function handleStoryGet(env: Env, id: number): Promise<Response> {
+  try {
+    const story = await fetchStoryById(env.DB, id);
+    return story ? jsonResponse(serializeStory(story)) : storyNotFound(id);
+  } catch (error) {
+    console.error(`Failed to load story ${id}`, error);
+    return jsonResponse({ message: 'Failed to load the story right now.' }, { status: 500 });
+  }
+}
+
+export async function handleStoryCreate(
+  request: Request,
+  env: Env,
+  principal: Principal,
+): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+
+  try {
+    const validation = await validateStory(env, body.data);
+    if (!validation.valid) {
+      return validationErrorResponse('Invalid story payload.', validation.errors);
+    }
+
+    const story = await insertStory(env.DB, validation.payload, principal.label);
+    await recordAudit(env, {
+      actor: principal,
+      action: 'story.create',
+      targetType: 'story',
+      targetId: story.id,
+      details: { siteId: story.siteId, focus: story.focus, title: story.title },
+    });
+    return jsonResponse(serializeStory(story), {
+      status: 201,
+      headers: { Location: `/api/stories/${story.id}` },
+    });
+  } catch (error) {
+    console.error('Failed to create story', error);
+    return jsonResponse({ message: 'Failed to create the story right now.' }, { status: 500 });
+  }
+}
+
+export async function handleStoryUpdate(
+  request: Request,
+  env: Env,
+  id: number,
+  mode: 'replace' | 'merge',
+  principal: Principal,
+): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+
+  try {
+    const existing = await fetchStoryById(env.DB, id);
+    if (!existing) {
+      return storyNotFound(id);
+    }
+
+    const validation = await validateStory(env, body.data, mode === 'merge' ? existing : undefined);
+    if (!validation.valid) {
+      return validationErrorResponse('Invalid story payload.', validation.errors);
+    }
+
+    const story = await updateStory(env.DB, id, validation.payload);
+    if (!story) {
+      return storyNotFound(id);
+    }
+
+    await recordAudit(env, {
+      actor: principal,
+      action: 'story.update',
+      targetType: 'story',
+      targetId: id,
+      details: { siteId: story.siteId, focus: story.focus, title: story.title },
+    });
+    return jsonResponse(serializeStory(story));
+  } catch (error) {
+    console.error(`Failed to update story ${id}`, error);
+    return jsonResponse({ message: 'Failed to update the story right now.' }, { status: 500 });
+  }
+}
+
+export async function handleStoryDelete(
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  try {
+    const story = await deleteStory(env.DB, id);
+    if (!story) {
+      return storyNotFound(id);
+    }
+
+    await recordAudit(env, {
+      actor: principal,
+      action: 'story.delete',
+      targetType: 'story',
+      targetId: id,
+      details: { siteId: story.siteId, focus: story.focus, title: story.title },
+    });
+    return jsonResponse(serializeStory(story));
+  } catch (error) {
+    console.error(`Failed to delete story ${id}`, error);
+    return jsonResponse({ message: 'Failed to delete the story right now.' }, { status: 500 });
+  }
+}
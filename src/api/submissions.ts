@@ -0,0 +1,336 @@
+import type { Principal } from '../types/auth';
+import type { SiteRecord } from '../types/directory';
+import type { Env } from '../types/env';
+import type {
+  SiteSubmission,
+  SubmissionInput,
+  SubmissionQueryOptions,
+  SubmissionStatus,
+} from '../types/submission';
+import { createSite, fetchSiteById, updateSite } from '../data/sites';
+import {
+  claimSubmission,
+  DEFAULT_SUBMISSION_PAGE_SIZE,
+  fetchSubmissionById,
+  insertSubmission,
+  querySubmissions,
+  releaseSubmission,
+  setSubmissionSite,
+} from '../data/submissions';
+import { isOriginAllowed } from '../utils/cors';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { sanitizeOptionalField } from '../utils/validation';
+import { checkSubmissionRateLimits, checkSubmissionTraps } from './antiSpam';
+import { recordAudit } from './audit';
+import { readJsonBody, validateSitePayload } from './sites';
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export const SUBMISSION_STATUSES: readonly SubmissionStatus[] = ['pending', 'approved', 'rejected'];
+
+const MAX_SUBMISSION_PAGE_SIZE = 100;
+const MAX_REASON_LENGTH = 500;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validates a public submission: the cooperative's site fields plus who sent it and,
+ * optionally, the id of the listing it proposes to update.
+ */
+export function validateSubmissionPayload(data: unknown):
+  | { valid: true; payload: SubmissionInput }
+  | { valid: false; errors: FieldError[] } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Invalid request body.' }] };
+  }
+
+  const siteValidation = validateSitePayload(data);
+  const record = data as Record<string, unknown>;
+  const errors: FieldError[] = siteValidation.valid ? [] : [...siteValidation.errors];
+
+  const email = typeof record.submitterEmail === 'string' ? record.submitterEmail.trim() : '';
+  if (!email) {
+    errors.push({ field: 'submitterEmail', message: 'Your email is required.' });
+  } else if (!EMAIL_PATTERN.test(email) || email.length > 256) {
+    errors.push({ field: 'submitterEmail', message: 'Enter a valid email address.' });
+  }
+
+  let siteId: number | null = null;
+  if (record.siteId !== undefined && record.siteId !== null && record.siteId !== '') {
+    siteId = Number(record.siteId);
+    if (!Number.isInteger(siteId) || siteId < 1) {
+      errors.push({ field: 'siteId', message: 'siteId must be a site id.' });
+    }
+  }
+
+  if (!siteValidation.valid || errors.length) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    payload: {
+      siteId,
+      site: siteValidation.payload,
+      submitterName: sanitizeOptionalField(record.submitterName, 120),
+      submitterEmail: email.toLowerCase(),
+    },
+  };
+}
+
+export async function handleSubmissionCreate(
+  request: Request,
+  url: URL,
+  env: Env,
+): Promise<Response> {
+  if (!isOriginAllowed(request, url, env)) {
+    return jsonResponse({ message: 'Submissions from this site are not allowed.' }, { status: 403 });
+  }
+
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+
+  if (typeof body.data === 'object' && body.data !== null) {
+    const trapped = checkSubmissionTraps(body.data as Record<string, unknown>);
+    if (trapped) {
+      return trapped;
+    }
+  }
+
+  const validation = validateSubmissionPayload(body.data);
+  if (!validation.valid) {
+    return validationErrorResponse('Invalid submission.', validation.errors);
+  }
+  const payload = validation.payload;
+
+  try {
+    if (payload.siteId !== null && !(await fetchSiteById(env.DB, payload.siteId))) {
+      return validationErrorResponse('Invalid submission.', [
+        { field: 'siteId', message: `Site ${payload.siteId} was not found.` },
+      ]);
+    }
+
+    const throttled = await checkSubmissionRateLimits(request, env, payload.submitterEmail);
+    if (throttled) {
+      return throttled;
+    }
+
+    const submission = await insertSubmission(env.DB, payload);
+    return jsonResponse(
+      {
+        id: submission.id,
+        status: submission.status,
+        message: 'Thanks! A moderator will review your submission before it appears in the directory.',
+      },
+      { status: 202 },
+    );
+  } catch (error) {
+    console.error('Failed to store site submission', error);
+    return jsonResponse({ message: 'Failed to record the submission right now.' }, { status: 500 });
+  }
+}
+
+export function parseSubmissionQuery(params: URLSearchParams):
+  | { valid: true; options: SubmissionQueryOptions }
+  | { valid: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+
+  const status = sanitizeOptionalField(params.get('status'), 20);
+  if (status && !SUBMISSION_STATUSES.includes(status as SubmissionStatus)) {
+    errors.push({
+      field: 'status',
+      message: `status must be one of ${SUBMISSION_STATUSES.join(', ')}.`,
+    });
+  }
+
+  let cursor: number | null = null;
+  const cursorRaw = params.get('cursor');
+  if (cursorRaw) {
+    cursor = Number(cursorRaw);
+    if (!Number.isInteger(cursor) || cursor < 1) {
+      errors.push({ field: 'cursor', message: 'cursor must be a submission id.' });
+    }
+  }
+
+  let limit = DEFAULT_SUBMISSION_PAGE_SIZE;
+  const limitRaw = params.get('limit');
+  if (limitRaw !== null) {
+    limit = Number(limitRaw);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUBMISSION_PAGE_SIZE) {
+      errors.push({
+        field: 'limit',
+        message: `limit must be a whole number between 1 and ${MAX_SUBMISSION_PAGE_SIZE}.`,
+      });
+    }
+  }
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    options: { status: status as SubmissionStatus | null, cursor, limit },
+  };
+}
+
+export async function handleSubmissionList(url: URL, env: Env): Promise<Response> {
+  const parsed = parseSubmissionQuery(url.searchParams);
+  if (!parsed.valid) {
+    return validationErrorResponse('Invalid submission query.', parsed.errors);
+  }
+
+  try {
+    return jsonResponse(await querySubmissions(env.DB, parsed.options));
+  } catch (error) {
+    console.error('Failed to list site submissions', error);
+    return jsonResponse({ message: 'Failed to load submissions right now.' }, { status: 500 });
+  }
+}
+
+export async function handleSubmissionGet(env: Env, id: number): Promise<Response> {
+  try {
+    const submission = await fetchSubmissionById(env.DB, id);
+    return submission
+      ? jsonResponse(submission)
+      : jsonResponse({ message: `Submission ${id} was not found.` }, { status: 404 });
+  } catch (error) {
+    console.error(`Failed to load site submission ${id}`, error);
+    return jsonResponse({ message: 'Failed to load the submission right now.' }, { status: 500 });
+  }
+}
+
+export function validateReviewPayload(
+  decision: ReviewDecision,
+  data: unknown,
+): { valid: true; reason: string | null } | { valid: false; errors: FieldError[] } {
+  if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+    return { valid: false, errors: [{ field: 'body', message: 'Invalid request body.' }] };
+  }
+
+  const record = (data ?? {}) as Record<string, unknown>;
+  const reason = sanitizeOptionalField(record.reason, MAX_REASON_LENGTH);
+  if (decision === 'reject' && !reason) {
+    return {
+      valid: false,
+      errors: [{ field: 'reason', message: 'A reason is required when rejecting a submission.' }],
+    };
+  }
+
+  return { valid: true, reason };
+}
+
+/**
+ * Approves or rejects a pending submission. Approval writes the submitted fields to `sites`
+ * and `site_tags`, updating the targeted listing or creating a new one. Shared by the JSON API
+ * and the admin page form.
+ */
+export async function reviewSubmission(
+  env: Env,
+  id: number,
+  decision: ReviewDecision,
+  data: unknown,
+  reviewer: Principal,
+): Promise<
+  | { ok: true; submission: SiteSubmission; site: SiteRecord | null }
+  | { ok: false; status: 400 | 404 | 409; message: string; errors?: FieldError[] }
+> {
+  const validation = validateReviewPayload(decision, data);
+  if (!validation.valid) {
+    return { ok: false, status: 400, message: 'Invalid review.', errors: validation.errors };
+  }
+
+  const existing = await fetchSubmissionById(env.DB, id);
+  if (!existing) {
+    return { ok: false, status: 404, message: `Submission ${id} was not found.` };
+  }
+
+  const claimed = await claimSubmission(
+    env.DB,
+    id,
+    decision === 'approve' ? 'approved' : 'rejected',
+    validation.reason,
+    reviewer.label,
+  );
+  if (!claimed) {
+    return {
+      ok: false,
+      status: 409,
+      message: `Submission ${id} has already been ${existing.status}.`,
+    };
+  }
+
+  let submission = claimed;
+  let site: SiteRecord | null = null;
+  if (decision === 'approve') {
+    const change = { actor: reviewer, note: `Approved submission ${id}` };
+    try {
+      if (claimed.siteId !== null) {
+        // The public form cannot show private contact details, so an update that lists no
+        // contacts keeps the ones the site already has.
+        const current = claimed.site.contacts.length
+          ? null
+          : await fetchSiteById(env.DB, claimed.siteId);
+        const input = current ? { ...claimed.site, contacts: current.contacts } : claimed.site;
+        site = await updateSite(env.DB, claimed.siteId, input, change);
+        if (!site) {
+          await releaseSubmission(env.DB, id);
+          return {
+            ok: false,
+            status: 409,
+            message: `Site ${claimed.siteId} no longer exists; reject the submission instead.`,
+          };
+        }
+      } else {
+        site = await createSite(env.DB, claimed.site, change);
+        submission = (await setSubmissionSite(env.DB, id, site.id)) ?? claimed;
+      }
+    } catch (error) {
+      await releaseSubmission(env.DB, id);
+      throw error;
+    }
+  }
+
+  await recordAudit(env, {
+    actor: reviewer,
+    action: `submission.${decision}`,
+    targetType: 'submission',
+    targetId: id,
+    details: { siteId: site?.id ?? null, reason: validation.reason },
+  });
+  return { ok: true, submission, site };
+}
+
+export async function handleSubmissionReview(
+  request: Request,
+  env: Env,
+  id: number,
+  decision: ReviewDecision,
+  principal: Principal,
+): Promise<Response> {
+  let data: unknown;
+  const text = await request.text();
+  if (text.trim()) {
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      console.error('Invalid submission review payload', error);
+      return jsonResponse({ message: 'Unable to process request body.' }, { status: 400 });
+    }
+  }
+
+  try {
+    const result = await reviewSubmission(env, id, decision, data, principal);
+    if (!result.ok) {
+      return jsonResponse(
+        { message: result.message, ...(result.errors ? { errors: result.errors } : {}) },
+        { status: result.status },
+      );
+    }
+    return jsonResponse({ submission: result.submission, site: result.site });
+  } catch (error) {
+    console.error(`Failed to review site submission ${id}`, error);
+    return jsonResponse({ message: 'Failed to review the submission right now.' }, { status: 500 });
+  }
+}
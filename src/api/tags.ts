@@ -0,0 +1,313 @@
+import type { Principal } from '../types/auth';
+import type { Env } from '../types/env';
+import type { TagCategory, TagNode, TagRecord, TagUpdate } from '../types/tags';
+import { fetchTagAliases, fetchTagById, fetchTags, mergeTags, updateTag } from '../data/tags';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { slugify } from '../utils/slug';
+import { recordAudit } from './audit';
+import { hasField, MAX_TAG_LENGTH, readJsonBody, TAG_LIST_SEPARATOR } from './sites';
+
+const MAX_ALIASES = 20;
+
+export const TAG_CATEGORIES: readonly TagCategory[] = ['technology', 'ownership', 'region', 'practice'];
+
+type TagAliasOwners = Map<string, { tagId: number; tagSlug: string }>;
+
+/**
+ * Nests tags under their parents. Children are listed alphabetically like the roots, and a tag
+ * whose parent is missing is treated as a root.
+ */
+export function buildTagTree(tags: readonly TagRecord[]): TagNode[] {
+  const nodes = new Map(tags.map((tag) => [tag.id, { ...tag, children: [] as TagNode[] }]));
+  const roots: TagNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId === null ? undefined : nodes.get(node.parentId);
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+/**
+ * Whether `id` sits somewhere below `ancestorId`. Stops on cycles rather than looping.
+ */
+function isDescendant(tags: readonly TagRecord[], id: number, ancestorId: number): boolean {
+  const parents = new Map(tags.map((tag) => [tag.id, tag.parentId]));
+  const seen = new Set<number>();
+  let current = parents.get(id) ?? null;
+  while (current !== null && !seen.has(current)) {
+    if (current === ancestorId) {
+      return true;
+    }
+    seen.add(current);
+    current = parents.get(current) ?? null;
+  }
+  return false;
+}
+
+/**
+ * Checks that a spelling is free to name `tag`: no other tag uses the slug, and it is not
+ * already an alias of another tag. Returns an error message, or null when it is free.
+ */
+function slugConflict(
+  slug: string,
+  tag: TagRecord,
+  tags: readonly TagRecord[],
+  aliasOwners: TagAliasOwners,
+): string | null {
+  const owner = tags.find((other) => other.slug === slug && other.id !== tag.id);
+  if (owner) {
+    return `Tag ${owner.id} ("${owner.label}") already uses this name; merge the tags instead.`;
+  }
+  const alias = aliasOwners.get(slug);
+  if (alias && alias.tagId !== tag.id) {
+    return `This is already an alias of tag ${alias.tagId}.`;
+  }
+  return null;
+}
+
+function normalizeLabel(value: string): string {
+  return value.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Validates an admin edit of `tag` against the rest of the taxonomy. Fields absent from the
+ * payload keep their current values; `aliases` replaces the whole alias list.
+ */
+export function validateTagUpdate(
+  data: unknown,
+  tag: TagRecord,
+  tags: readonly TagRecord[],
+  aliasOwners: TagAliasOwners,
+): { valid: true; payload: TagUpdate } | { valid: false; errors: FieldError[] } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Payload must be a JSON object.' }] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  let label = tag.label;
+  if (hasField(record, 'label')) {
+    const value = typeof record.label === 'string' ? normalizeLabel(record.label) : '';
+    const conflict = slugify(value) ? slugConflict(slugify(value), tag, tags, aliasOwners) : null;
+    if (!slugify(value)) {
+      errors.push({ field: 'label', message: 'Label must contain a letter or number.' });
+    } else if (value.length > MAX_TAG_LENGTH) {
+      errors.push({ field: 'label', message: `Label must be at most ${MAX_TAG_LENGTH} characters.` });
+    } else if (value.includes(TAG_LIST_SEPARATOR)) {
+      errors.push({ field: 'label', message: `Label cannot contain "${TAG_LIST_SEPARATOR}".` });
+    } else if (conflict) {
+      errors.push({ field: 'label', message: conflict });
+    } else {
+      label = value;
+    }
+  }
+  const slug = slugify(label);
+
+  let category = tag.category;
+  if (hasField(record, 'category')) {
+    if (record.category === null) {
+      category = null;
+    } else if (TAG_CATEGORIES.includes(record.category as TagCategory)) {
+      category = record.category as TagCategory;
+    } else {
+      errors.push({
+        field: 'category',
+        message: `category must be null or one of ${TAG_CATEGORIES.join(', ')}.`,
+      });
+    }
+  }
+
+  let parentId = tag.parentId;
+  if (hasField(record, 'parentId')) {
+    const value = record.parentId;
+    if (value === null) {
+      parentId = null;
+    } else if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      errors.push({ field: 'parentId', message: 'parentId must be null or a tag id.' });
+    } else if (value === tag.id) {
+      errors.push({ field: 'parentId', message: 'A tag cannot be its own parent.' });
+    } else if (!tags.some((other) => other.id === value)) {
+      errors.push({ field: 'parentId', message: `Tag ${value} was not found.` });
+    } else if (isDescendant(tags, value, tag.id)) {
+      errors.push({ field: 'parentId', message: `Tag ${value} sits below this tag.` });
+    } else {
+      parentId = value;
+    }
+  }
+
+  // Renaming a tag to one of its aliases retires that alias.
+  let aliases = tag.aliases.filter((alias) => slugify(alias) !== slug);
+  if (hasField(record, 'aliases')) {
+    if (!Array.isArray(record.aliases)) {
+      errors.push({ field: 'aliases', message: 'Aliases must be an array of strings.' });
+    } else {
+      aliases = [];
+      const seen = new Set<string>([slug]);
+      record.aliases.forEach((entry, index) => {
+        const field = `aliases[${index}]`;
+        const value = typeof entry === 'string' ? normalizeLabel(entry) : '';
+        const aliasSlug = slugify(value);
+        if (!aliasSlug) {
+          errors.push({ field, message: 'Each alias must contain a letter or number.' });
+          return;
+        }
+        if (value.length > MAX_TAG_LENGTH) {
+          errors.push({ field, message: `Aliases must be at most ${MAX_TAG_LENGTH} characters.` });
+          return;
+        }
+        const conflict = slugConflict(aliasSlug, tag, tags, aliasOwners);
+        if (conflict) {
+          errors.push({ field, message: conflict });
+          return;
+        }
+        if (!seen.has(aliasSlug)) {
+          seen.add(aliasSlug);
+          aliases.push(value);
+        }
+      });
+      if (aliases.length > MAX_ALIASES) {
+        errors.push({ field: 'aliases', message: `A tag can have at most ${MAX_ALIASES} aliases.` });
+      }
+    }
+  }
+
+  if (errors.length) {
+    return { valid: false, errors };
+  }
+  return { valid: true, payload: { label, category, parentId, aliases } };
+}
+
+function tagNotFound(id: number): Response {
+  return jsonResponse({ message: `Tag ${id} was not found.` }, { status: 404 });
+}
+
+/**
+ * Returns the taxonomy as a tree, with each tag's aliases and how many sites carry it.
+ */
+export async function handleTagTree(env: Env): Promise<Response> {
+  try {
+    const tags = await fetchTags(env.DB);
+    return jsonResponse({ categories: TAG_CATEGORIES, tags: buildTagTree(tags) });
+  } catch (error) {
+    console.error('Failed to load tags', error);
+    return jsonResponse({ message: 'Failed to load tags right now.' }, { status: 500 });
+  }
+}
+
+export async function handleTagUpdate(
+  request: Request,
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+
+  try {
+    const [tags, aliasOwners] = await Promise.all([fetchTags(env.DB), fetchTagAliases(env.DB)]);
+    const tag = tags.find((candidate) => candidate.id === id);
+    if (!tag) {
+      return tagNotFound(id);
+    }
+
+    const validation = validateTagUpdate(body.data, tag, tags, aliasOwners);
+    if (!validation.valid) {
+      return validationErrorResponse('Invalid tag update.', validation.errors);
+    }
+
+    const update = validation.payload;
+    const updated = await updateTag(env.DB, tag, update, {
+      actor: principal,
+      note:
+        update.label === tag.label ? null : `Renamed tag "${tag.label}" to "${update.label}"`,
+    });
+    if (!updated) {
+      return tagNotFound(id);
+    }
+
+    await recordAudit(env, {
+      actor: principal,
+      action: 'tag.update',
+      targetType: 'tag',
+      targetId: id,
+      details: { before: tag, after: updated },
+    });
+    return jsonResponse(updated);
+  } catch (error) {
+    console.error(`Failed to update tag ${id}`, error);
+    return jsonResponse({ message: 'Failed to update the tag right now.' }, { status: 500 });
+  }
+}
+
+/**
+ * Merges tag `id` into the tag named by `{ into }`. Every site carrying the merged tag is
+ * retagged, and its spelling keeps resolving as an alias of the surviving tag.
+ */
+export async function handleTagMerge(
+  request: Request,
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return body.response;
+  }
+
+  const into = (body.data as { into?: unknown } | null)?.into;
+  if (typeof into !== 'number' || !Number.isInteger(into) || into < 1) {
+    return validationErrorResponse('Invalid tag merge.', [
+      { field: 'into', message: 'into must be the id of the tag to keep.' },
+    ]);
+  }
+  if (into === id) {
+    return validationErrorResponse('Invalid tag merge.', [
+      { field: 'into', message: 'A tag cannot be merged into itself.' },
+    ]);
+  }
+
+  try {
+    const tags = await fetchTags(env.DB);
+    const source = tags.find((tag) => tag.id === id);
+    const target = tags.find((tag) => tag.id === into);
+    if (!source) {
+      return tagNotFound(id);
+    }
+    if (!target) {
+      return validationErrorResponse('Invalid tag merge.', [
+        { field: 'into', message: `Tag ${into} was not found.` },
+      ]);
+    }
+
+    // A target below the merged tag moves up to the merged tag's parent, so the children it
+    // inherits cannot end up above it.
+    const targetParentId = isDescendant(tags, target.id, source.id)
+      ? source.parentId
+      : target.parentId;
+    const siteIds = await mergeTags(env.DB, source, target, targetParentId, {
+      actor: principal,
+      note: `Merged tag "${source.label}" into "${target.label}"`,
+    });
+
+    await recordAudit(env, {
+      actor: principal,
+      action: 'tag.merge',
+      targetType: 'tag',
+      targetId: target.id,
+      details: {
+        from: { id: source.id, label: source.label },
+        into: { id: target.id, label: target.label },
+        siteIds,
+      },
+    });
+
+    const merged = await fetchTagById(env.DB, target.id);
+    return jsonResponse({ tag: merged, sitesRetagged: siteIds.length });
+  } catch (error) {
+    console.error(`Failed to merge tag ${id} into ${into}`, error);
+    return jsonResponse({ message: 'Failed to merge the tags right now.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { assessDirectoryAgainstVision, assessSiteAgainstVision } from '../config/vision';
+import type { Env } from '../types/env';
+import type { DirectoryAssessment, VisionHistoryOptions } from '../types/vision';
+import { fetchSiteById, fetchSites } from '../data/sites';
+import { fetchStoryFocusCounts } from '../data/stories';
+import { queryVisionSnapshots, upsertVisionSnapshot } from '../data/visionSnapshots';
+import { jsonResponse, validationErrorResponse, type FieldError } from '../utils/http';
+import { isValidDate, sanitizeOptionalField } from '../utils/validation';
+import { loadActiveVision } from './visionConfig';
+
+/**
+ * Loads the sites, the active vision, and the story counts, and scores the directory.
+ */
+export async function assessDirectory(env: Env): Promise<DirectoryAssessment> {
+  const [sites, vision, storyCounts] = await Promise.all([
+    fetchSites(env.DB),
+    loadActiveVision(env),
+    fetchStoryFocusCounts(env.DB),
+  ]);
+  return {
+    sites,
+    vision,
+    assessment: assessDirectoryAgainstVision(sites, { ...vision, storyCounts }),
+  };
+}
+
+/**
+ * Stores today's vision assessment. Run daily from the `scheduled` handler; `date` is the UTC
+ * day the snapshot describes.
+ */
+export async function recordVisionSnapshot(env: Env, date: string): Promise<void> {
+  const { assessment } = await assessDirectory(env);
+  await upsertVisionSnapshot(env.DB, date, assessment);
+}
+
+export function parseVisionHistoryQuery(params: URLSearchParams):
+  | { valid: true; options: VisionHistoryOptions }
+  | { valid: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+
+  const from = sanitizeOptionalField(params.get('from'), 10);
+  if (from && !isValidDate(from)) {
+    errors.push({ field: 'from', message: 'from must be a date formatted as YYYY-MM-DD.' });
+  }
+  const to = sanitizeOptionalField(params.get('to'), 10);
+  if (to && !isValidDate(to)) {
+    errors.push({ field: 'to', message: 'to must be a date formatted as YYYY-MM-DD.' });
+  }
+  if (!errors.length && from && to && from > to) {
+    errors.push({ field: 'from', message: 'from must not be after to.' });
+  }
+
+  return errors.length ? { valid: false, errors } : { valid: true, options: { from, to } };
+}
+
+/**
+ * Returns the daily vision snapshots between `from` and `to`, oldest first.
+ */
+export async function handleVisionHistory(url: URL, env: Env): Promise<Response> {
+  const parsed = parseVisionHistoryQuery(url.searchParams);
+  if (!parsed.valid) {
+    return validationErrorResponse('Invalid vision history query.', parsed.errors);
+  }
+
+  try {
+    const snapshots = await queryVisionSnapshots(env.DB, parsed.options);
+    return jsonResponse({
+      from: parsed.options.from ?? null,
+      to: parsed.options.to ?? null,
+      snapshots,
+    });
+  } catch (error) {
+    console.error('Failed to load vision history', error);
+    return jsonResponse({ message: 'Failed to load the vision history right now.' }, { status: 500 });
+  }
+}
+
+/**
+ * Scores one site against each vision pillar and lists the profile fields it is missing.
+ */
+export async function handleSiteVision(env: Env, siteId: number): Promise<Response> {
+  try {
+    const [site, vision] = await Promise.all([fetchSiteById(env.DB, siteId), loadActiveVision(env)]);
+    if (!site) {
+      return jsonResponse({ message: `Site ${siteId} was not found.` }, { status: 404 });
+    }
+    return jsonResponse(assessSiteAgainstVision(site, vision));
+  } catch (error) {
+    console.error(`Failed to assess site ${siteId} against the vision`, error);
+    return jsonResponse({ message: 'Failed to assess the site right now.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  getBundledVisionHash,
+  hashVisionSource,
+  VISION_YAML,
+  visionConfig,
+  type VisionFormat,
+} from '../config/vision';
+import { formatVisionErrors, parseVisionSource } from '../config/visionSchema';
+import type { Principal } from '../types/auth';
+import type { Env } from '../types/env';
+import type { ActiveVision, VisionConfigVersionWithSource } from '../types/vision';
+import { fetchTagAliases } from '../data/tags';
+import {
+  fetchLatestVisionConfig,
+  fetchVisionConfigById,
+  insertVisionConfig,
+  listVisionConfigs,
+} from '../data/visionConfigs';
+import { jsonResponse, validationErrorResponse } from '../utils/http';
+import { recordAudit } from './audit';
+
+const MAX_VISION_SOURCE_LENGTH = 64_000;
+
+async function bundledVision(tagAliases: ReadonlyMap<string, string>): Promise<ActiveVision> {
+  return {
+    config: visionConfig,
+    format: 'yaml',
+    source: VISION_YAML,
+    hash: await getBundledVisionHash(),
+    storedVersion: null,
+    tagAliases,
+  };
+}
+
+/**
+ * Returns the vision config in effect: the newest stored version, or the bundled YAML when none
+ * is stored. A stored document that no longer passes validation (for example after the schema
+ * gained a rule) is logged and skipped in favour of the bundled YAML. The tag aliases come
+ * along so assessments treat aliased spellings as the tags they point to.
+ */
+export async function loadActiveVision(env: Env): Promise<ActiveVision> {
+  const [stored, aliases] = await Promise.all([
+    fetchLatestVisionConfig(env.DB),
+    fetchTagAliases(env.DB),
+  ]);
+  const tagAliases = new Map(
+    Array.from(aliases, ([slug, alias]) => [slug, alias.tagSlug] as const),
+  );
+  if (!stored) {
+    return bundledVision(tagAliases);
+  }
+
+  const result = parseVisionSource(stored.source, stored.format);
+  if (!result.valid) {
+    console.error(
+      `Stored vision config ${stored.id} is invalid; using the bundled YAML.\n${formatVisionErrors(result.errors)}`,
+    );
+    return bundledVision(tagAliases);
+  }
+
+  return {
+    config: result.config,
+    format: stored.format,
+    source: stored.source,
+    hash: stored.hash,
+    storedVersion: stored.id,
+    tagAliases,
+  };
+}
+
+function requestFormat(request: Request): VisionFormat {
+  const contentType = request.headers.get('content-type') ?? '';
+  return contentType.includes('json') ? 'json' : 'yaml';
+}
+
+function versionNotFound(id: number): Response {
+  return jsonResponse({ message: `Vision config version ${id} was not found.` }, { status: 404 });
+}
+
+/**
+ * Stores a new vision config from a YAML body (any non-JSON content type) or a JSON body, and
+ * makes it active. The document is validated exactly like `config/vision.yaml`.
+ */
+export async function handleVisionUpdate(
+  request: Request,
+  env: Env,
+  principal: Principal,
+): Promise<Response> {
+  const format = requestFormat(request);
+  let source: string;
+  try {
+    source = (await request.text()).trim();
+  } catch (error) {
+    console.error('Failed to read vision config body', error);
+    return jsonResponse({ message: 'Unable to process request body.' }, { status: 400 });
+  }
+
+  if (source.length > MAX_VISION_SOURCE_LENGTH) {
+    return jsonResponse(
+      { message: `Vision configs are limited to ${MAX_VISION_SOURCE_LENGTH} characters.` },
+      { status: 413 },
+    );
+  }
+
+  const result = parseVisionSource(source, format);
+  if (!result.valid) {
+    return validationErrorResponse('Invalid vision config.', result.errors);
+  }
+
+  try {
+    const version = await insertVisionConfig(env.DB, {
+      format,
+      source,
+      versionLabel: result.config.version,
+      hash: await hashVisionSource(source),
+      actor: principal,
+    });
+
+    await recordAudit(env, {
+      actor: principal,
+      action: 'vision.update',
+      targetType: 'vision',
+      targetId: version.id,
+      details: { versionLabel: version.versionLabel, hash: version.hash },
+    });
+    return jsonResponse({ ...version, config: result.config });
+  } catch (error) {
+    console.error('Failed to store vision config', error);
+    return jsonResponse({ message: 'Failed to update the vision right now.' }, { status: 500 });
+  }
+}
+
+/**
+ * Lists stored vision config versions newest first. `active` is the version in effect, or null
+ * when the bundled YAML is.
+ */
+export async function handleVisionVersionList(env: Env): Promise<Response> {
+  try {
+    const [versions, active] = await Promise.all([listVisionConfigs(env.DB), loadActiveVision(env)]);
+    return jsonResponse({
+      active: active.storedVersion,
+      bundledHash: await getBundledVisionHash(),
+      versions,
+    });
+  } catch (error) {
+    console.error('Failed to list vision config versions', error);
+    return jsonResponse({ message: 'Failed to load vision versions right now.' }, { status: 500 });
+  }
+}
+
+export async function handleVisionVersionGet(env: Env, id: number): Promise<Response> {
+  try {
+    const version = await fetchVisionConfigById(env.DB, id);
+    return version ? jsonResponse(version) : versionNotFound(id);
+  } catch (error) {
+    console.error(`Failed to load vision config version ${id}`, error);
+    return jsonResponse({ message: 'Failed to load the vision version right now.' }, { status: 500 });
+  }
+}
+
+/**
+ * Makes an older version active again by storing a copy of it as the newest version. Versions
+ * that fail today's validation cannot be restored.
+ */
+export async function handleVisionVersionRestore(
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  try {
+    const version: VisionConfigVersionWithSource | null = await fetchVisionConfigById(env.DB, id);
+    if (!version) {
+      return versionNotFound(id);
+    }
+
+    const result = parseVisionSource(version.source, version.format);
+    if (!result.valid) {
+      return jsonResponse(
+        {
+          message: `Vision config version ${id} no longer passes validation.`,
+          errors: result.errors,
+        },
+        { status: 409 },
+      );
+    }
+
+    const restored = await insertVisionConfig(env.DB, {
+      format: version.format,
+      source: version.source,
+      versionLabel: version.versionLabel,
+      hash: version.hash,
+      actor: principal,
+      note: `Restored version ${id}`,
+    });
+
+    await recordAudit(env, {
+      actor: principal,
+      action: 'vision.restore',
+      targetType: 'vision',
+      targetId: restored.id,
+      details: { restoredFrom: id, hash: restored.hash },
+    });
+    return jsonResponse({ ...restored, config: result.config });
+  } catch (error) {
+    console.error(`Failed to restore vision config version ${id}`, error);
+    return jsonResponse({ message: 'Failed to restore the vision version right now.' }, { status: 500 });
+  }
+}
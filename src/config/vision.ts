@@ -1,23 +1,15 @@
-import { parse } from 'yaml';
 import type { SiteRecord } from '../types/directory';
+import { sha256Hex } from '../utils/crypto';
+import { slugify } from '../utils/slug';
 import visionYaml from '../../config/vision.yaml?raw';
+import {
+  formatVisionErrors,
+  parseVisionYaml,
+  type VisionConfig,
+  type VisionSiteField,
+} from './visionSchema';
 
-export interface VisionPillar {
-  id: string;
-  title: string;
-  description: string;
-}
-
-export interface VisionConfig {
-  mission: string;
-  pillars: VisionPillar[];
-  directory_targets: {
-    minimum_sites: number;
-    minimum_tag_density: number;
-    recommended_tags: string[];
-    storytelling_focus: string[];
-  };
-}
+export type { VisionConfig, VisionFormat, VisionPillar, VisionSiteField } from './visionSchema';
 
 export interface VisionAssessmentMetrics {
   siteCount: number;
@@ -31,6 +23,20 @@ export interface VisionAssessmentMetrics {
   presentRecommendedTags: string[];
   missingRecommendedTags: string[];
   coverageRatio: number;
+  /** Stories per storytelling focus area, including areas with none. */
+  storiesByFocus: Record<string, number>;
+  coveredStorytellingFocus: string[];
+  missingStorytellingFocus: string[];
+  storyCoverageRatio: number;
+}
+
+export interface VisionAssessmentOptions {
+  /** Defaults to the bundled document; pass the active one from `loadActiveVision`. */
+  config?: VisionConfig;
+  /** Alias slug to tag slug, so aliased spellings count as the tags they point to. */
+  tagAliases?: ReadonlyMap<string, string>;
+  /** Stories per focus area, from `fetchStoryFocusCounts`. */
+  storyCounts?: ReadonlyMap<string, number>;
 }
 
 export interface VisionAssessment {
@@ -40,13 +46,86 @@ export interface VisionAssessment {
   progressScore: number;
 }
 
+export interface SitePillarAssessment {
+  id: string;
+  title: string;
+  /** Share of the pillar's checks the site passes, from 0 to 100. */
+  score: number;
+  matchedTags: string[];
+  /** The pillar's tags, when the site has none of them yet. */
+  suggestedTags: string[];
+  missingFields: VisionSiteField[];
+}
+
+export interface SiteVisionAssessment {
+  siteId: number;
+  /** Average of the pillar scores, from 0 to 100. */
+  score: number;
+  pillars: SitePillarAssessment[];
+  /** Every field any pillar is missing, without repeats. */
+  missingFields: VisionSiteField[];
+}
+
 export const VISION_YAML = visionYaml.trim();
 
-export const visionConfig = Object.freeze(parse(VISION_YAML) as VisionConfig);
+function loadVisionConfig(yaml: string): VisionConfig {
+  const result = parseVisionYaml(yaml);
+  if (!result.valid) {
+    // Failing at module load makes `wrangler deploy` reject a broken config instead of
+    // publishing a worker whose every route is wrong.
+    throw new Error(`config/vision.yaml is invalid:\n${formatVisionErrors(result.errors)}`);
+  }
+  return result.config;
+}
+
+export const visionConfig: Readonly<VisionConfig> = Object.freeze(loadVisionConfig(VISION_YAML));
+
+let bundledHash: Promise<string> | null = null;
+
+const NO_TAG_ALIASES: ReadonlyMap<string, string> = new Map();
+
+const NO_STORIES: ReadonlyMap<string, number> = new Map();
 
-export function assessDirectoryAgainstVision(sites: ReadonlyArray<SiteRecord>): VisionAssessment {
+/**
+ * The key tags are compared on: the slug, or for an alias the slug of the tag it points to, so
+ * "Community Owned", "community-owned", and a registered alias all count as the same tag.
+ */
+function tagKey(tag: string, tagAliases: ReadonlyMap<string, string>): string {
+  const slug = slugify(tag);
+  return tagAliases.get(slug) ?? slug;
+}
+
+/**
+ * SHA-256 of a vision document, shortened to 12 hex characters, so clients can tell which
+ * config produced an assessment.
+ */
+export async function hashVisionSource(source: string): Promise<string> {
+  return (await sha256Hex(source)).slice(0, 12);
+}
+
+/**
+ * Hash of the bundled YAML. Computed on first use because Workers cannot hash at startup.
+ */
+export function getBundledVisionHash(): Promise<string> {
+  bundledHash ??= hashVisionSource(VISION_YAML);
+  return bundledHash;
+}
+
+/**
+ * Scores the whole directory against the vision targets: site count, tag density, recommended
+ * tags, and stories for each storytelling focus area. An `ActiveVision` can be passed as the
+ * options, with `storyCounts` added.
+ */
+export function assessDirectoryAgainstVision(
+  sites: ReadonlyArray<SiteRecord>,
+  {
+    config = visionConfig,
+    tagAliases = NO_TAG_ALIASES,
+    storyCounts = NO_STORIES,
+  }: VisionAssessmentOptions = {},
+): VisionAssessment {
   const { minimum_sites, minimum_tag_density, recommended_tags, storytelling_focus } =
-    visionConfig.directory_targets;
+    config.directory_targets;
 
   const siteCount = sites.length;
   let totalTags = 0;
@@ -55,7 +134,8 @@ export function assessDirectoryAgainstVision(sites: ReadonlyArray<SiteRecord>):
   for (const site of sites) {
     for (const tag of site.tags) {
       totalTags += 1;
-      tagOccurrences.set(tag, (tagOccurrences.get(tag) ?? 0) + 1);
+      const key = tagKey(tag, tagAliases);
+      tagOccurrences.set(key, (tagOccurrences.get(key) ?? 0) + 1);
     }
   }
 
@@ -65,7 +145,7 @@ export function assessDirectoryAgainstVision(sites: ReadonlyArray<SiteRecord>):
   const missingRecommendedTags: string[] = [];
 
   for (const tag of recommended_tags) {
-    if (tagOccurrences.has(tag)) {
+    if (tagOccurrences.has(tagKey(tag, tagAliases))) {
       presentRecommendedTags.push(tag);
     } else {
       missingRecommendedTags.push(tag);
@@ -76,6 +156,17 @@ export function assessDirectoryAgainstVision(sites: ReadonlyArray<SiteRecord>):
     ? presentRecommendedTags.length / recommended_tags.length
     : 1;
 
+  const storiesByFocus: Record<string, number> = {};
+  const coveredStorytellingFocus: string[] = [];
+  const missingStorytellingFocus: string[] = [];
+  for (const focus of storytelling_focus) {
+    storiesByFocus[focus] = storyCounts.get(focus) ?? 0;
+    (storiesByFocus[focus] ? coveredStorytellingFocus : missingStorytellingFocus).push(focus);
+  }
+  const storyCoverageRatio = storytelling_focus.length
+    ? coveredStorytellingFocus.length / storytelling_focus.length
+    : 1;
+
   const meetsMinimumSites = siteCount >= minimum_sites;
   const meetsMinimumTagDensity =
     minimum_tag_density <= 0 ? true : averageTagsPerSite >= minimum_tag_density;
@@ -92,6 +183,10 @@ export function assessDirectoryAgainstVision(sites: ReadonlyArray<SiteRecord>):
     presentRecommendedTags,
     missingRecommendedTags,
     coverageRatio,
+    storiesByFocus,
+    coveredStorytellingFocus,
+    missingStorytellingFocus,
+    storyCoverageRatio,
   };
 
   const opportunities = new Set<string>();
@@ -118,10 +213,10 @@ export function assessDirectoryAgainstVision(sites: ReadonlyArray<SiteRecord>):
     );
   }
 
-  if (storytelling_focus.length) {
+  if (missingStorytellingFocus.length) {
     opportunities.add(
       `Collect narratives covering ${formatList(
-        storytelling_focus,
+        missingStorytellingFocus,
       )} to stay aligned with the SolarRoots storytelling focus.`,
     );
   }
@@ -130,6 +225,7 @@ export function assessDirectoryAgainstVision(sites: ReadonlyArray<SiteRecord>):
     minimum_sites > 0 ? Math.min(siteCount / minimum_sites, 1) : 1,
     minimum_tag_density > 0 ? Math.min(averageTagsPerSite / minimum_tag_density, 1) : 1,
     coverageRatio,
+    storyCoverageRatio,
   ];
 
   const progressScore = Number(
@@ -147,6 +243,52 @@ export function assessDirectoryAgainstVision(sites: ReadonlyArray<SiteRecord>):
   };
 }
 
+function hasSiteField(site: SiteRecord, field: VisionSiteField): boolean {
+  if (field === 'coordinates') {
+    return site.latitude !== null && site.longitude !== null;
+  }
+  return Boolean(site[field]);
+}
+
+/**
+ * Scores one site against each pillar. A pillar checks that the site carries at least one of
+ * its tags and has each of its fields filled in; the pillar score is the share of checks passed.
+ */
+export function assessSiteAgainstVision(
+  site: SiteRecord,
+  { config = visionConfig, tagAliases = NO_TAG_ALIASES }: VisionAssessmentOptions = {},
+): SiteVisionAssessment {
+  const missingFields = new Set<VisionSiteField>();
+  const siteTagKeys = new Set(site.tags.map((tag) => tagKey(tag, tagAliases)));
+
+  const pillars = config.pillars.map((pillar): SitePillarAssessment => {
+    const pillarTags = pillar.tags;
+    const pillarFields = pillar.fields;
+    const matchedTags = pillarTags.filter((tag) => siteTagKeys.has(tagKey(tag, tagAliases)));
+    const pillarMissingFields = pillarFields.filter((field) => !hasSiteField(site, field));
+    pillarMissingFields.forEach((field) => missingFields.add(field));
+
+    const checks = pillarFields.length + (pillarTags.length ? 1 : 0);
+    const passed =
+      pillarFields.length - pillarMissingFields.length + (matchedTags.length ? 1 : 0);
+
+    return {
+      id: pillar.id,
+      title: pillar.title,
+      score: checks ? Math.round((passed / checks) * 100) : 100,
+      matchedTags,
+      suggestedTags: matchedTags.length ? [] : [...pillarTags],
+      missingFields: pillarMissingFields,
+    };
+  });
+
+  const score = pillars.length
+    ? Math.round(pillars.reduce((sum, pillar) => sum + pillar.score, 0) / pillars.length)
+    : 100;
+
+  return { siteId: site.id, score, pillars, missingFields: Array.from(missingFields) };
+}
+
 function formatList(items: readonly string[]): string {
   if (items.length === 0) {
     return '';
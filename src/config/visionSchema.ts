@@ -0,0 +1,277 @@
+import { parse, YAMLParseError } from 'yaml';
+import type { FieldError } from '../utils/http';
+
+/** Profile fields a pillar can require; `coordinates` means both latitude and longitude. */
+export type VisionSiteField = 'description' | 'website' | 'address' | 'region' | 'coordinates';
+
+export const VISION_SITE_FIELDS: readonly VisionSiteField[] = [
+  'description',
+  'website',
+  'address',
+  'region',
+  'coordinates',
+];
+
+export interface VisionPillar {
+  id: string;
+  title: string;
+  description: string;
+  /** Tags that show a site contributes to this pillar; any one of them is enough. */
+  tags: string[];
+  /** Profile fields a site needs filled in to document this pillar. */
+  fields: VisionSiteField[];
+}
+
+export interface VisionConfig {
+  /** Free-form label editors bump when they change the targets; null when not set. */
+  version: string | null;
+  mission: string;
+  pillars: VisionPillar[];
+  directory_targets: {
+    minimum_sites: number;
+    minimum_tag_density: number;
+    recommended_tags: string[];
+    storytelling_focus: string[];
+  };
+}
+
+/** How a vision document is written; JSON documents use the same keys as the YAML. */
+export type VisionFormat = 'yaml' | 'json';
+
+export type VisionConfigResult =
+  | { valid: true; config: VisionConfig }
+  | { valid: false; errors: FieldError[] };
+
+const PILLAR_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Collects errors against dotted paths such as `pillars[1].tags[0]` while reading an untrusted
+ * document.
+ */
+class ConfigReader {
+  readonly errors: FieldError[] = [];
+
+  fail(path: string, message: string): void {
+    this.errors.push({ field: path, message });
+  }
+
+  object(value: unknown, path: string, keys: readonly string[]): Record<string, unknown> | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, 'must be a mapping.');
+      return null;
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (!keys.includes(key)) {
+        this.fail(join(path, key), `is not a recognised key; expected one of ${keys.join(', ')}.`);
+      }
+    }
+    return record;
+  }
+
+  string(value: unknown, path: string, options: { optional?: boolean } = {}): string | null {
+    if ((value === undefined || value === null) && options.optional) {
+      return null;
+    }
+    if (typeof value !== 'string' || !value.trim()) {
+      this.fail(path, value === undefined ? 'is required.' : 'must be a non-empty string.');
+      return null;
+    }
+    return value.trim();
+  }
+
+  number(
+    value: unknown,
+    path: string,
+    options: { fallback?: number; integer?: boolean } = {},
+  ): number {
+    if (value === undefined && options.fallback !== undefined) {
+      return options.fallback;
+    }
+    const valid =
+      typeof value === 'number' &&
+      Number.isFinite(value) &&
+      value >= 0 &&
+      (!options.integer || Number.isInteger(value));
+    if (!valid) {
+      this.fail(
+        path,
+        value === undefined
+          ? 'is required.'
+          : `must be ${options.integer ? 'a whole number' : 'a number'} of at least 0.`,
+      );
+      return 0;
+    }
+    return value;
+  }
+
+  stringList(value: unknown, path: string): string[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      this.fail(path, 'must be a list of strings.');
+      return [];
+    }
+
+    const items: string[] = [];
+    value.forEach((item, index) => {
+      const text = this.string(item, `${path}[${index}]`);
+      if (text === null) {
+        return;
+      }
+      if (items.includes(text)) {
+        this.fail(`${path}[${index}]`, `repeats "${text}".`);
+        return;
+      }
+      items.push(text);
+    });
+    return items;
+  }
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function readPillar(reader: ConfigReader, value: unknown, path: string): VisionPillar | null {
+  const record = reader.object(value, path, ['id', 'title', 'description', 'tags', 'fields']);
+  if (!record) {
+    return null;
+  }
+
+  const id = reader.string(record.id, `${path}.id`);
+  if (id !== null && !PILLAR_ID_PATTERN.test(id)) {
+    reader.fail(`${path}.id`, 'must be lowercase words separated by hyphens.');
+  }
+
+  const fields = reader.stringList(record.fields, `${path}.fields`);
+  fields.forEach((field, index) => {
+    if (!VISION_SITE_FIELDS.includes(field as VisionSiteField)) {
+      reader.fail(`${path}.fields[${index}]`, `must be one of ${VISION_SITE_FIELDS.join(', ')}.`);
+    }
+  });
+
+  return {
+    id: id ?? '',
+    title: reader.string(record.title, `${path}.title`) ?? '',
+    description: reader.string(record.description, `${path}.description`) ?? '',
+    tags: reader.stringList(record.tags, `${path}.tags`),
+    fields: fields as VisionSiteField[],
+  };
+}
+
+/**
+ * Checks a parsed vision document and fills in defaults: `version` is null, and
+ * `minimum_tag_density`, pillar `tags` and `fields`, `recommended_tags`, and
+ * `storytelling_focus` are optional. Unknown keys are errors so typos do not go unnoticed.
+ */
+export function validateVisionConfig(data: unknown): VisionConfigResult {
+  const reader = new ConfigReader();
+  const root = reader.object(data, '', ['version', 'mission', 'pillars', 'directory_targets']);
+  if (!root) {
+    return { valid: false, errors: reader.errors };
+  }
+
+  const version = reader.string(root.version, 'version', { optional: true });
+
+  const mission = reader.string(root.mission, 'mission') ?? '';
+
+  const pillars: VisionPillar[] = [];
+  if (!Array.isArray(root.pillars)) {
+    reader.fail('pillars', root.pillars === undefined ? 'is required.' : 'must be a list.');
+  } else {
+    root.pillars.forEach((value, index) => {
+      const pillar = readPillar(reader, value, `pillars[${index}]`);
+      if (!pillar) {
+        return;
+      }
+      if (pillar.id && pillars.some((existing) => existing.id === pillar.id)) {
+        reader.fail(`pillars[${index}].id`, `repeats the pillar id "${pillar.id}".`);
+      }
+      pillars.push(pillar);
+    });
+  }
+
+  const targetsPath = 'directory_targets';
+  let targets: Record<string, unknown> | null = null;
+  if (root.directory_targets === undefined) {
+    reader.fail(targetsPath, 'is required.');
+  } else {
+    targets = reader.object(root.directory_targets, targetsPath, [
+      'minimum_sites',
+      'minimum_tag_density',
+      'recommended_tags',
+      'storytelling_focus',
+    ]);
+  }
+
+  const directoryTargets: VisionConfig['directory_targets'] = {
+    minimum_sites: targets
+      ? reader.number(targets.minimum_sites, `${targetsPath}.minimum_sites`, { integer: true })
+      : 0,
+    minimum_tag_density: targets
+      ? reader.number(targets.minimum_tag_density, `${targetsPath}.minimum_tag_density`, {
+          fallback: 0,
+        })
+      : 0,
+    recommended_tags: targets
+      ? reader.stringList(targets.recommended_tags, `${targetsPath}.recommended_tags`)
+      : [],
+    storytelling_focus: targets
+      ? reader.stringList(targets.storytelling_focus, `${targetsPath}.storytelling_focus`)
+      : [],
+  };
+
+  if (reader.errors.length) {
+    return { valid: false, errors: reader.errors };
+  }
+
+  return {
+    valid: true,
+    config: { version, mission, pillars, directory_targets: directoryTargets },
+  };
+}
+
+/**
+ * Parses and validates vision YAML. Syntax errors keep the parser's line and column.
+ */
+export function parseVisionYaml(text: string): VisionConfigResult {
+  let data: unknown;
+  try {
+    data = parse(text);
+  } catch (error) {
+    if (error instanceof YAMLParseError) {
+      const message = error.message.split('\n')[0].replace(/:$/, '.');
+      return { valid: false, errors: [{ field: '', message }] };
+    }
+    throw error;
+  }
+  return validateVisionConfig(data);
+}
+
+/**
+ * Parses and validates a vision document in either format.
+ */
+export function parseVisionSource(text: string, format: VisionFormat): VisionConfigResult {
+  if (format === 'yaml') {
+    return parseVisionYaml(text);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const message = (error as Error).message.replace(/\.?$/, '.');
+    return { valid: false, errors: [{ field: '', message }] };
+  }
+  return validateVisionConfig(data);
+}
+
+/**
+ * Formats validation errors one per line, e.g. `directory_targets.minimum_sites: is required.`
+ */
+export function formatVisionErrors(errors: readonly FieldError[]): string {
+  return errors.map((error) => `${error.field || '(document)'}: ${error.message}`).join('\n');
+}
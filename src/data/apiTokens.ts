@@ -0,0 +1,85 @@
+import type { ApiTokenRecord, Role } from '../types/auth';
+
+type ApiTokenRow = {
+  id: number;
+  label: string;
+  role: Role;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+const TOKEN_COLUMNS = 'id, label, role, created_at, last_used_at, revoked_at';
+
+const ACTIVE_TOKEN_BY_HASH_QUERY = `
+  SELECT ${TOKEN_COLUMNS}
+  FROM api_tokens
+  WHERE token_hash = ? AND revoked_at IS NULL;
+`;
+
+const TOKEN_LIST_QUERY = `
+  SELECT ${TOKEN_COLUMNS}
+  FROM api_tokens
+  ORDER BY created_at DESC, id DESC;
+`;
+
+const INSERT_TOKEN = `
+  INSERT INTO api_tokens (label, token_hash, role)
+  VALUES (?, ?, ?)
+  RETURNING ${TOKEN_COLUMNS};
+`;
+
+const REVOKE_TOKEN = `
+  UPDATE api_tokens
+  SET revoked_at = COALESCE(revoked_at, CURRENT_TIMESTAMP)
+  WHERE id = ?
+  RETURNING ${TOKEN_COLUMNS};
+`;
+
+const TOUCH_TOKEN = `UPDATE api_tokens SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?;`;
+
+function mapTokenRow(row: ApiTokenRow): ApiTokenRecord {
+  return {
+    id: row.id,
+    label: row.label,
+    role: row.role,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+export async function findActiveTokenByHash(
+  db: D1Database,
+  tokenHash: string,
+): Promise<ApiTokenRecord | null> {
+  const row = await db.prepare(ACTIVE_TOKEN_BY_HASH_QUERY).bind(tokenHash).first<ApiTokenRow>();
+  return row ? mapTokenRow(row) : null;
+}
+
+export async function listTokens(db: D1Database): Promise<ApiTokenRecord[]> {
+  const { results } = await db.prepare(TOKEN_LIST_QUERY).all<ApiTokenRow>();
+  return results.map(mapTokenRow);
+}
+
+export async function insertToken(
+  db: D1Database,
+  label: string,
+  tokenHash: string,
+  role: Role,
+): Promise<ApiTokenRecord> {
+  const row = await db.prepare(INSERT_TOKEN).bind(label, tokenHash, role).first<ApiTokenRow>();
+  if (!row) {
+    throw new Error('Token insert did not return a row.');
+  }
+  return mapTokenRow(row);
+}
+
+export async function revokeToken(db: D1Database, id: number): Promise<ApiTokenRecord | null> {
+  const row = await db.prepare(REVOKE_TOKEN).bind(id).first<ApiTokenRow>();
+  return row ? mapTokenRow(row) : null;
+}
+
+export async function touchToken(db: D1Database, id: number): Promise<void> {
+  await db.prepare(TOUCH_TOKEN).bind(id).run();
+}
@@ -0,0 +1,101 @@
+import type { Principal } from '../types/auth';
+import type { AuditEntry, AuditPage, AuditQueryOptions } from '../types/history';
+
+type AuditRow = {
+  id: number;
+  actor: string;
+  actor_token_id: number | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  details: string | null;
+  created_at: string;
+};
+
+export type AuditInput = {
+  actor: Principal;
+  action: string;
+  targetType: string;
+  targetId: string | number | null;
+  details?: Record<string, unknown> | null;
+};
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+const INSERT_AUDIT_ENTRY = `
+  INSERT INTO audit_log (actor, actor_token_id, action, target_type, target_id, details)
+  VALUES (?, ?, ?, ?, ?, ?);
+`;
+
+function mapAuditRow(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    actor: row.actor,
+    actorTokenId: row.actor_token_id,
+    action: row.action,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    details: row.details ? (JSON.parse(row.details) as Record<string, unknown>) : null,
+    createdAt: row.created_at,
+  };
+}
+
+export async function insertAuditEntry(db: D1Database, entry: AuditInput): Promise<void> {
+  await db
+    .prepare(INSERT_AUDIT_ENTRY)
+    .bind(
+      entry.actor.label,
+      entry.actor.tokenId,
+      entry.action,
+      entry.targetType,
+      entry.targetId === null ? null : String(entry.targetId),
+      entry.details ? JSON.stringify(entry.details) : null,
+    )
+    .run();
+}
+
+/**
+ * Lists audit entries newest first with keyset pagination on id.
+ */
+export async function queryAuditLog(
+  db: D1Database,
+  options: AuditQueryOptions,
+): Promise<AuditPage> {
+  const clauses: string[] = [];
+  const bindings: unknown[] = [];
+  if (options.action) {
+    clauses.push('action = ?');
+    bindings.push(options.action);
+  }
+  if (options.targetType) {
+    clauses.push('target_type = ?');
+    bindings.push(options.targetType);
+  }
+  if (options.targetId) {
+    clauses.push('target_id = ?');
+    bindings.push(options.targetId);
+  }
+  if (options.cursor) {
+    clauses.push('id < ?');
+    bindings.push(options.cursor);
+  }
+
+  const limit = options.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+  const { results } = await db
+    .prepare(
+      `SELECT id, actor, actor_token_id, action, target_type, target_id, details, created_at
+       FROM audit_log ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+       ORDER BY id DESC LIMIT ?;`,
+    )
+    .bind(...bindings, limit + 1)
+    .all<AuditRow>();
+
+  let rows = results;
+  let nextCursor: number | null = null;
+  if (rows.length > limit) {
+    rows = rows.slice(0, limit);
+    nextCursor = rows[rows.length - 1].id;
+  }
+
+  return { entries: rows.map(mapAuditRow), nextCursor };
+}
@@ -0,0 +1,10 @@
+const SELECT_VERSION = `SELECT version FROM directory_version WHERE id = 1;`;
+
+/**
+ * The directory's current version. Triggers bump it on every write to sites, tags, contacts,
+ * stories, link health, and the vision tables, so it changes whenever cached pages would.
+ */
+export async function fetchDirectoryVersion(db: D1Database): Promise<number> {
+  const row = await db.prepare(SELECT_VERSION).first<{ version: number }>();
+  return row?.version ?? 0;
+}
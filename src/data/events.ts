@@ -0,0 +1,179 @@
+import type { EventInput, EventQueryOptions, SiteEvent } from '../types/event';
+import { toUtcInstant } from '../utils/time';
+
+type EventRow = {
+  id: number;
+  site_id: number;
+  site_name: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  sequence: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const DEFAULT_EVENT_PAGE_SIZE = 20;
+
+const EVENT_COLUMNS = `
+  e.id, e.site_id, s.name AS site_name, e.title, e.description, e.location, e.starts_at,
+  e.ends_at, e.timezone, e.sequence, e.created_by, e.created_at, e.updated_at
+`;
+
+const INSERT_EVENT = `
+  INSERT INTO events (site_id, title, description, location, starts_at, ends_at, timezone, created_by)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  RETURNING id;
+`;
+
+const UPDATE_EVENT = `
+  UPDATE events
+  SET site_id = ?, title = ?, description = ?, location = ?, starts_at = ?, ends_at = ?,
+    timezone = ?, sequence = sequence + 1, updated_at = CURRENT_TIMESTAMP
+  WHERE id = ?
+  RETURNING id;
+`;
+
+const DELETE_EVENT = `DELETE FROM events WHERE id = ?;`;
+
+const EVENT_BY_ID = `
+  SELECT ${EVENT_COLUMNS}
+  FROM events e
+  JOIN sites s ON s.id = e.site_id
+  WHERE e.id = ?;
+`;
+
+function mapEventRow(row: EventRow): SiteEvent {
+  return {
+    id: row.id,
+    siteId: row.site_id,
+    siteName: row.site_name,
+    title: row.title,
+    description: row.description,
+    location: row.location,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    timezone: row.timezone,
+    sequence: row.sequence,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function fetchEventById(db: D1Database, id: number): Promise<SiteEvent | null> {
+  const row = await db.prepare(EVENT_BY_ID).bind(id).first<EventRow>();
+  return row ? mapEventRow(row) : null;
+}
+
+/**
+ * Lists events for one site or the whole directory. An event counts as upcoming until it ends,
+ * so a gathering that is under way still shows up.
+ */
+export async function queryEvents(
+  db: D1Database,
+  options: EventQueryOptions = {},
+): Promise<SiteEvent[]> {
+  const clauses: string[] = [];
+  const bindings: unknown[] = [];
+  const now = toUtcInstant(new Date());
+  const when = options.when ?? 'upcoming';
+
+  if (options.siteId) {
+    clauses.push('e.site_id = ?');
+    bindings.push(options.siteId);
+  }
+  if (when === 'upcoming') {
+    clauses.push('e.ends_at >= ?');
+    bindings.push(now);
+  } else if (when === 'past') {
+    clauses.push('e.ends_at < ?');
+    bindings.push(now);
+  }
+  if (options.endedSince) {
+    clauses.push('e.ends_at >= ?');
+    bindings.push(options.endedSince);
+  }
+
+  const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+  const order = when === 'past' ? 'e.starts_at DESC, e.id DESC' : 'e.starts_at ASC, e.id ASC';
+  const { results } = await db
+    .prepare(
+      `
+        SELECT ${EVENT_COLUMNS}
+        FROM events e
+        JOIN sites s ON s.id = e.site_id
+        ${where}
+        ORDER BY ${order}
+        LIMIT ?;
+      `,
+    )
+    .bind(...bindings, options.limit ?? DEFAULT_EVENT_PAGE_SIZE)
+    .all<EventRow>();
+  return results.map(mapEventRow);
+}
+
+export async function insertEvent(
+  db: D1Database,
+  input: EventInput,
+  createdBy: string,
+): Promise<SiteEvent> {
+  const inserted = await db
+    .prepare(INSERT_EVENT)
+    .bind(
+      input.siteId,
+      input.title,
+      input.description,
+      input.location,
+      input.startsAt,
+      input.endsAt,
+      input.timezone,
+      createdBy,
+    )
+    .first<{ id: number }>();
+  const event = inserted ? await fetchEventById(db, inserted.id) : null;
+  if (!event) {
+    throw new Error('Event insert did not return a row.');
+  }
+  return event;
+}
+
+/**
+ * Replaces an event's fields and bumps its sequence. Returns null when the event does not exist.
+ */
+export async function updateEvent(
+  db: D1Database,
+  id: number,
+  input: EventInput,
+): Promise<SiteEvent | null> {
+  const updated = await db
+    .prepare(UPDATE_EVENT)
+    .bind(
+      input.siteId,
+      input.title,
+      input.description,
+      input.location,
+      input.startsAt,
+      input.endsAt,
+      input.timezone,
+      id,
+    )
+    .first<{ id: number }>();
+  return updated ? fetchEventById(db, id) : null;
+}
+
+/**
+ * Deletes an event and returns it as it was, or null when it does not exist.
+ */
+export async function deleteEvent(db: D1Database, id: number): Promise<SiteEvent | null> {
+  const existing = await fetchEventById(db, id);
+  if (!existing) {
+    return null;
+  }
+  await db.prepare(DELETE_EVENT).bind(id).run();
+  return existing;
+}
@@ -0,0 +1,304 @@
+import type {
+  InterestPage,
+  InterestPayload,
+  InterestQueryOptions,
+  InterestSignup,
+  InterestStatus,
+} from '../types/interest';
+
+type InterestRow = {
+  id: number;
+  name: string | null;
+  email: string;
+  organization: string | null;
+  message: string | null;
+  status: InterestStatus;
+  site_id: number | null;
+  created_at: string;
+  status_updated_at: string | null;
+  confirmed_at: string | null;
+};
+
+export type InterestTokenHashes = {
+  confirmation: string;
+  manage: string;
+};
+
+export const DEFAULT_INTEREST_PAGE_SIZE = 50;
+
+const INTEREST_COLUMNS = `
+  id, name, email, organization, message, status, site_id, created_at, status_updated_at,
+  confirmed_at
+`;
+
+const INSERT_INTEREST = `
+  INSERT INTO interest_signups (
+    name, email, organization, message,
+    confirmation_token_hash, manage_token_hash, confirmation_sent_at
+  )
+  VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+  RETURNING id;
+`;
+
+const ROTATE_INTEREST_TOKENS = `
+  UPDATE interest_signups
+  SET confirmation_token_hash = ?, manage_token_hash = ?, confirmation_sent_at = CURRENT_TIMESTAMP
+  WHERE id = ?;
+`;
+
+const CONFIRM_INTEREST = `
+  UPDATE interest_signups
+  SET confirmed_at = COALESCE(confirmed_at, CURRENT_TIMESTAMP)
+  WHERE confirmation_token_hash = ?
+    AND (confirmed_at IS NOT NULL OR confirmation_sent_at >= datetime('now', ?))
+  RETURNING ${INTEREST_COLUMNS};
+`;
+
+const INTEREST_BY_MANAGE_TOKEN = `
+  SELECT ${INTEREST_COLUMNS}
+  FROM interest_signups
+  WHERE manage_token_hash = ?;
+`;
+
+const DELETE_INTEREST_BY_MANAGE_TOKEN = `
+  DELETE FROM interest_signups
+  WHERE manage_token_hash = ?
+  RETURNING id;
+`;
+
+const INTEREST_COUNT_FOR_ORGANIZATION = `
+  SELECT COUNT(*) AS total
+  FROM interest_signups
+  WHERE organization = ? COLLATE NOCASE AND status != 'spam' AND confirmed_at IS NOT NULL;
+`;
+
+// Served by idx_interest_signups_email.
+const RECENT_INTEREST_BY_EMAIL = `
+  SELECT id, confirmed_at
+  FROM interest_signups
+  WHERE email = ? AND created_at >= datetime('now', ?)
+  ORDER BY id DESC
+  LIMIT 1;
+`;
+
+const UPDATE_INTEREST_STATUS = `
+  UPDATE interest_signups
+  SET status = ?, site_id = ?, status_updated_at = CURRENT_TIMESTAMP
+  WHERE id = ?
+  RETURNING ${INTEREST_COLUMNS};
+`;
+
+function mapInterestRow(row: InterestRow): InterestSignup {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    organization: row.organization,
+    message: row.message,
+    status: row.status,
+    siteId: row.site_id,
+    createdAt: row.created_at,
+    statusUpdatedAt: row.status_updated_at,
+    confirmedAt: row.confirmed_at,
+  };
+}
+
+function buildInterestFilters(options: InterestQueryOptions): {
+  clauses: string[];
+  bindings: unknown[];
+} {
+  const clauses: string[] = [];
+  const bindings: unknown[] = [];
+
+  if (options.from) {
+    clauses.push('date(created_at) >= date(?)');
+    bindings.push(options.from);
+  }
+  if (options.to) {
+    clauses.push('date(created_at) <= date(?)');
+    bindings.push(options.to);
+  }
+  if (options.organization) {
+    clauses.push("organization LIKE ? ESCAPE '\\'");
+    bindings.push(`%${escapeLike(options.organization)}%`);
+  }
+  if (options.q) {
+    const pattern = `%${escapeLike(options.q)}%`;
+    clauses.push(`(
+      name LIKE ? ESCAPE '\\' OR email LIKE ? ESCAPE '\\' OR
+      organization LIKE ? ESCAPE '\\' OR message LIKE ? ESCAPE '\\'
+    )`);
+    bindings.push(pattern, pattern, pattern, pattern);
+  }
+  if (options.status) {
+    clauses.push('status = ?');
+    bindings.push(options.status);
+  }
+  if (options.confirmed === true) {
+    clauses.push('confirmed_at IS NOT NULL');
+  } else if (options.confirmed === false) {
+    clauses.push('confirmed_at IS NULL');
+  }
+
+  return { clauses, bindings };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
+
+/**
+ * Stores an unconfirmed signup with the hashes of its confirmation and manage tokens.
+ */
+export async function insertInterest(
+  db: D1Database,
+  payload: InterestPayload,
+  tokens: InterestTokenHashes,
+): Promise<number> {
+  const row = await db
+    .prepare(INSERT_INTEREST)
+    .bind(
+      payload.name,
+      payload.email,
+      payload.organization,
+      payload.message,
+      tokens.confirmation,
+      tokens.manage,
+    )
+    .first<{ id: number }>();
+  if (!row) {
+    throw new Error('Interest insert did not return an id.');
+  }
+  return row.id;
+}
+
+export async function rotateInterestTokens(
+  db: D1Database,
+  id: number,
+  tokens: InterestTokenHashes,
+): Promise<void> {
+  await db.prepare(ROTATE_INTEREST_TOKENS).bind(tokens.confirmation, tokens.manage, id).run();
+}
+
+/**
+ * Finds a signup for the same address within the last `withinDays` days, if any.
+ */
+export async function findRecentInterestByEmail(
+  db: D1Database,
+  email: string,
+  withinDays: number,
+): Promise<{ id: number; confirmedAt: string | null } | null> {
+  const row = await db
+    .prepare(RECENT_INTEREST_BY_EMAIL)
+    .bind(email, `-${withinDays} days`)
+    .first<{ id: number; confirmed_at: string | null }>();
+  return row ? { id: row.id, confirmedAt: row.confirmed_at } : null;
+}
+
+/**
+ * Marks the signup that owns the confirmation token as confirmed. Tokens for unconfirmed
+ * signups expire after `validForDays`; confirming twice is harmless.
+ */
+export async function confirmInterest(
+  db: D1Database,
+  confirmationHash: string,
+  validForDays: number,
+): Promise<InterestSignup | null> {
+  const row = await db
+    .prepare(CONFIRM_INTEREST)
+    .bind(confirmationHash, `-${validForDays} days`)
+    .first<InterestRow>();
+  return row ? mapInterestRow(row) : null;
+}
+
+export async function findInterestByManageToken(
+  db: D1Database,
+  manageHash: string,
+): Promise<InterestSignup | null> {
+  const row = await db.prepare(INTEREST_BY_MANAGE_TOKEN).bind(manageHash).first<InterestRow>();
+  return row ? mapInterestRow(row) : null;
+}
+
+export async function deleteInterestByManageToken(
+  db: D1Database,
+  manageHash: string,
+): Promise<boolean> {
+  const row = await db
+    .prepare(DELETE_INTEREST_BY_MANAGE_TOKEN)
+    .bind(manageHash)
+    .first<{ id: number }>();
+  return row !== null;
+}
+
+/**
+ * Lists signups newest first with keyset pagination on the row id.
+ */
+export async function queryInterest(
+  db: D1Database,
+  options: InterestQueryOptions,
+): Promise<InterestPage> {
+  const filters = buildInterestFilters(options);
+  const pageClauses = [...filters.clauses];
+  const pageBindings = [...filters.bindings];
+  if (options.cursor) {
+    pageClauses.push('id < ?');
+    pageBindings.push(options.cursor);
+  }
+
+  const where = (clauses: string[]) => (clauses.length ? `WHERE ${clauses.join(' AND ')}` : '');
+  const limit = options.limit === null ? null : options.limit ?? DEFAULT_INTEREST_PAGE_SIZE;
+  if (limit !== null) {
+    pageBindings.push(limit + 1);
+  }
+
+  const [{ results }, countRow] = await Promise.all([
+    db
+      .prepare(
+        `SELECT ${INTEREST_COLUMNS} FROM interest_signups ${where(pageClauses)}
+         ORDER BY id DESC ${limit === null ? '' : 'LIMIT ?'};`,
+      )
+      .bind(...pageBindings)
+      .all<InterestRow>(),
+    db
+      .prepare(`SELECT COUNT(*) AS total FROM interest_signups ${where(filters.clauses)};`)
+      .bind(...filters.bindings)
+      .first<{ total: number }>(),
+  ]);
+
+  let rows = results;
+  let nextCursor: number | null = null;
+  if (limit !== null && rows.length > limit) {
+    rows = rows.slice(0, limit);
+    nextCursor = rows[rows.length - 1].id;
+  }
+
+  return { signups: rows.map(mapInterestRow), nextCursor, total: countRow?.total ?? 0 };
+}
+
+export async function updateInterestStatus(
+  db: D1Database,
+  id: number,
+  status: InterestStatus,
+  siteId: number | null,
+): Promise<InterestSignup | null> {
+  const row = await db
+    .prepare(UPDATE_INTEREST_STATUS)
+    .bind(status, siteId, id)
+    .first<InterestRow>();
+  return row ? mapInterestRow(row) : null;
+}
+
+/**
+ * Counts signups whose organization matches a site name, so profiles can show community
+ * interest without exposing who signed up.
+ */
+export async function countInterestForOrganization(
+  db: D1Database,
+  organization: string,
+): Promise<number> {
+  const row = await db
+    .prepare(INTEREST_COUNT_FOR_ORGANIZATION)
+    .bind(organization)
+    .first<{ total: number }>();
+  return row?.total ?? 0;
+}
@@ -0,0 +1,188 @@
+import type { LinkCheckRecord, LinkCheckResult, LinkReportRow } from '../types/linkHealth';
+
+type LinkCheckRow = {
+  site_id: number;
+  url: string;
+  status_code: number | null;
+  redirect_url: string | null;
+  error: string | null;
+  checked_at: string;
+  consecutive_failures: number;
+  last_ok_at: string | null;
+};
+
+type LinkReportQueryRow = {
+  id: number;
+  name: string;
+  website: string;
+  checked_site_id: number | null;
+  url: string | null;
+  status_code: number | null;
+  redirect_url: string | null;
+  error: string | null;
+  checked_at: string | null;
+  consecutive_failures: number | null;
+  last_ok_at: string | null;
+};
+
+const LINK_CHECK_COLUMNS = `
+  c.site_id, c.url, c.status_code, c.redirect_url, c.error, c.checked_at, c.consecutive_failures,
+  c.last_ok_at
+`;
+
+// Sites never checked come first (NULL sorts first), then the stalest. A site whose website
+// changed since its last check is due straight away.
+const SITES_DUE_FOR_CHECK = `
+  SELECT s.id, s.website
+  FROM sites s
+  LEFT JOIN site_link_checks c ON c.site_id = s.id
+  WHERE s.website IS NOT NULL
+    AND (c.site_id IS NULL OR c.url != s.website OR c.checked_at < ?)
+  ORDER BY c.checked_at, s.id
+  LIMIT ?;
+`;
+
+// Failures only keep counting while the same URL is checked; a new website starts afresh.
+const UPSERT_LINK_CHECK = `
+  INSERT INTO site_link_checks (
+    site_id, url, status_code, redirect_url, error, checked_at, consecutive_failures, last_ok_at
+  )
+  VALUES (?1, ?2, ?3, ?4, ?5, ?6, CASE WHEN ?7 THEN 0 ELSE 1 END, CASE WHEN ?7 THEN ?6 END)
+  ON CONFLICT (site_id) DO UPDATE SET
+    url = excluded.url,
+    status_code = excluded.status_code,
+    redirect_url = excluded.redirect_url,
+    error = excluded.error,
+    checked_at = excluded.checked_at,
+    consecutive_failures = CASE
+      WHEN ?7 THEN 0
+      WHEN site_link_checks.url = excluded.url THEN site_link_checks.consecutive_failures + 1
+      ELSE 1
+    END,
+    last_ok_at = CASE
+      WHEN ?7 THEN excluded.checked_at
+      WHEN site_link_checks.url = excluded.url THEN site_link_checks.last_ok_at
+    END;
+`;
+
+// Results for a website the site no longer lists are left out.
+const LINK_CHECKS_FOR_SITES = `
+  SELECT ${LINK_CHECK_COLUMNS}
+  FROM site_link_checks c
+  JOIN sites s ON s.id = c.site_id AND s.website = c.url
+  WHERE c.site_id IN (SELECT value FROM json_each(?));
+`;
+
+const LINK_REPORT = `
+  SELECT
+    s.id, s.name, s.website, c.site_id AS checked_site_id, c.url, c.status_code, c.redirect_url,
+    c.error, c.checked_at, c.consecutive_failures, c.last_ok_at
+  FROM sites s
+  LEFT JOIN site_link_checks c ON c.site_id = s.id AND c.url = s.website
+  WHERE s.website IS NOT NULL
+  ORDER BY COALESCE(c.consecutive_failures, 0) DESC, s.name COLLATE NOCASE, s.id;
+`;
+
+const COUNT_FAILING_LINKS = `
+  SELECT COUNT(*) AS count
+  FROM site_link_checks c
+  JOIN sites s ON s.id = c.site_id AND s.website = c.url
+  WHERE c.consecutive_failures >= ?;
+`;
+
+function mapLinkCheckRow(row: LinkCheckRow): LinkCheckRecord {
+  return {
+    siteId: row.site_id,
+    url: row.url,
+    statusCode: row.status_code,
+    redirectUrl: row.redirect_url,
+    error: row.error,
+    checkedAt: row.checked_at,
+    consecutiveFailures: row.consecutive_failures,
+    lastOkAt: row.last_ok_at,
+  };
+}
+
+/**
+ * Sites with a website that has not been checked since `checkedBefore`, stalest first.
+ */
+export async function fetchSitesDueForLinkCheck(
+  db: D1Database,
+  checkedBefore: string,
+  limit: number,
+): Promise<{ id: number; website: string }[]> {
+  const { results } = await db
+    .prepare(SITES_DUE_FOR_CHECK)
+    .bind(checkedBefore, limit)
+    .all<{ id: number; website: string }>();
+  return results;
+}
+
+export async function recordLinkCheck(
+  db: D1Database,
+  siteId: number,
+  url: string,
+  result: LinkCheckResult,
+  checkedAt: string,
+): Promise<void> {
+  await db
+    .prepare(UPSERT_LINK_CHECK)
+    .bind(
+      siteId,
+      url,
+      result.statusCode,
+      result.redirectUrl,
+      result.error,
+      checkedAt,
+      result.ok ? 1 : 0,
+    )
+    .run();
+}
+
+/**
+ * The latest check of each site's current website, keyed by site id.
+ */
+export async function fetchLinkChecks(
+  db: D1Database,
+  siteIds: readonly number[],
+): Promise<Map<number, LinkCheckRecord>> {
+  if (!siteIds.length) {
+    return new Map();
+  }
+
+  const { results } = await db
+    .prepare(LINK_CHECKS_FOR_SITES)
+    .bind(JSON.stringify(siteIds))
+    .all<LinkCheckRow>();
+  return new Map(results.map((row) => [row.site_id, mapLinkCheckRow(row)]));
+}
+
+/**
+ * Every site with a website and its latest check, most consecutive failures first.
+ */
+export async function fetchLinkReport(db: D1Database): Promise<LinkReportRow[]> {
+  const { results } = await db.prepare(LINK_REPORT).all<LinkReportQueryRow>();
+  return results.map((row) => ({
+    siteId: row.id,
+    siteName: row.name,
+    website: row.website,
+    check:
+      row.checked_site_id === null
+        ? null
+        : mapLinkCheckRow({
+            site_id: row.checked_site_id,
+            url: row.url as string,
+            status_code: row.status_code,
+            redirect_url: row.redirect_url,
+            error: row.error,
+            checked_at: row.checked_at as string,
+            consecutive_failures: row.consecutive_failures ?? 0,
+            last_ok_at: row.last_ok_at,
+          }),
+  }));
+}
+
+export async function countFailingLinks(db: D1Database, minFailures: number): Promise<number> {
+  const row = await db.prepare(COUNT_FAILING_LINKS).bind(minFailures).first<{ count: number }>();
+  return row?.count ?? 0;
+}
@@ -0,0 +1,60 @@
+export type RateLimitResult = {
+  allowed: boolean;
+  hits: number;
+  /** Seconds until the current window resets. */
+  retryAfterSeconds: number;
+};
+
+// Starts a new window once the stored one has expired; SQLite evaluates every SET
+// expression against the old row, so both columns see the previous window_start.
+const HIT_BUCKET = `
+  INSERT INTO rate_limits (bucket, window_start, hits)
+  VALUES (?1, ?2, 1)
+  ON CONFLICT (bucket) DO UPDATE SET
+    hits = CASE WHEN rate_limits.window_start <= ?2 - ?3 THEN 1 ELSE rate_limits.hits + 1 END,
+    window_start = CASE
+      WHEN rate_limits.window_start <= ?2 - ?3 THEN ?2
+      ELSE rate_limits.window_start
+    END
+  RETURNING window_start, hits;
+`;
+
+const DELETE_EXPIRED_BUCKETS = `DELETE FROM rate_limits WHERE window_start <= ?;`;
+
+/**
+ * Records a hit against `bucket` and reports whether it is still within `limit` hits for
+ * the current fixed window of `windowSeconds`.
+ */
+export async function hitRateLimit(
+  db: D1Database,
+  bucket: string,
+  limit: number,
+  windowSeconds: number,
+  now = Date.now(),
+): Promise<RateLimitResult> {
+  const nowSeconds = Math.floor(now / 1000);
+  const row = await db
+    .prepare(HIT_BUCKET)
+    .bind(bucket, nowSeconds, windowSeconds)
+    .first<{ window_start: number; hits: number }>();
+  if (!row) {
+    throw new Error(`Rate limit bucket ${bucket} did not return a row.`);
+  }
+
+  return {
+    allowed: row.hits <= limit,
+    hits: row.hits,
+    retryAfterSeconds: Math.max(row.window_start + windowSeconds - nowSeconds, 1),
+  };
+}
+
+export async function deleteExpiredRateLimits(
+  db: D1Database,
+  maxWindowSeconds: number,
+  now = Date.now(),
+): Promise<void> {
+  await db
+    .prepare(DELETE_EXPIRED_BUCKETS)
+    .bind(Math.floor(now / 1000) - maxWindowSeconds)
+    .run();
+}
@@ -0,0 +1,76 @@
+import type { SiteContact, SiteMembership } from '../types/directory';
+
+/** Membership values for rows and snapshots written before membership details existed. */
+export const EMPTY_MEMBERSHIP: SiteMembership = {
+  ownershipModel: null,
+  memberCount: null,
+  foundedYear: null,
+  capacityKw: null,
+  howToJoin: null,
+};
+
+/**
+ * A site's contacts as a JSON array in listing order, in the `SiteContact` shape. `siteId` is
+ * the SQL expression for the site, such as `s.id`.
+ */
+export function contactsJson(siteId: string): string {
+  return `
+    json((
+      SELECT json_group_array(json_object(
+        'role', c.role,
+        'name', c.name,
+        'email', c.email,
+        'phone', c.phone,
+        'visibility', json_object(
+          'name', c.name_visibility,
+          'email', c.email_visibility,
+          'phone', c.phone_visibility
+        )
+      ))
+      FROM (SELECT * FROM site_contacts WHERE site_id = ${siteId} ORDER BY position) c
+    ))
+  `;
+}
+
+const DELETE_SITE_CONTACTS = `DELETE FROM site_contacts WHERE site_id = ?;`;
+
+// A null site id targets the newest site, like `revisionStatement` does.
+const INSERT_SITE_CONTACT = `
+  INSERT INTO site_contacts (
+    site_id, position, role, name, email, phone, name_visibility, email_visibility, phone_visibility
+  )
+  VALUES (COALESCE(?, (SELECT MAX(id) FROM sites)), ?, ?, ?, ?, ?, ?, ?, ?);
+`;
+
+export function parseContacts(json: string | null): SiteContact[] {
+  return json ? (JSON.parse(json) as SiteContact[]) : [];
+}
+
+export function deleteContactsStatement(db: D1Database, siteId: number): D1PreparedStatement {
+  return db.prepare(DELETE_SITE_CONTACTS).bind(siteId);
+}
+
+/**
+ * Inserts a site's contacts in order. Batch after deleting the previous ones when replacing.
+ */
+export function contactStatements(
+  db: D1Database,
+  siteId: number | null,
+  contacts: readonly SiteContact[],
+): D1PreparedStatement[] {
+  return contacts.map((contact, position) =>
+    db
+      .prepare(INSERT_SITE_CONTACT)
+      .bind(
+        siteId,
+        position,
+        contact.role,
+        contact.name,
+        contact.email,
+        contact.phone,
+        contact.visibility.name,
+        contact.visibility.email,
+        contact.visibility.phone,
+      ),
+  );
+}
@@ -0,0 +1,124 @@
+import type { SiteRecord } from '../types/directory';
+import type { RevisionAction, SiteChange, SiteRevision } from '../types/history';
+import { contactsJson, EMPTY_MEMBERSHIP } from './siteContacts';
+
+type SiteRevisionRow = {
+  site_id: number;
+  revision: number;
+  action: RevisionAction;
+  snapshot: string;
+  actor: string;
+  actor_token_id: number | null;
+  note: string | null;
+  created_at: string;
+};
+
+const REVISION_COLUMNS = `
+  site_id, revision, action, snapshot, actor, actor_token_id, note, created_at
+`;
+
+// Snapshots are built in SQL from the row as it stands at that point in the batch, so the
+// stored revision always matches what was written. Tags are sorted for stable diffs. A null
+// site id targets the newest site, for batches that insert a site and cannot know its id yet.
+const INSERT_REVISION = `
+  INSERT INTO site_revisions (site_id, revision, action, snapshot, actor, actor_token_id, note)
+  SELECT
+    s.id,
+    (SELECT COALESCE(MAX(r.revision), 0) + 1 FROM site_revisions r WHERE r.site_id = s.id),
+    ?1,
+    json_object(
+      'id', s.id,
+      'name', s.name,
+      'description', s.description,
+      'website', s.website,
+      'address', s.address,
+      'region', s.region,
+      'latitude', s.latitude,
+      'longitude', s.longitude,
+      'ownershipModel', s.ownership_model,
+      'memberCount', s.member_count,
+      'foundedYear', s.founded_year,
+      'capacityKw', s.capacity_kw,
+      'howToJoin', s.how_to_join,
+      'contacts', ${contactsJson('s.id')},
+      'tags', json((
+        SELECT json_group_array(label)
+        FROM (
+          SELECT t.label
+          FROM site_tags st
+          JOIN tags t ON t.id = st.tag_id
+          WHERE st.site_id = s.id
+          ORDER BY t.label
+        )
+      ))
+    ),
+    ?2,
+    ?3,
+    ?4
+  FROM sites s
+  WHERE s.id = COALESCE(?5, (SELECT MAX(id) FROM sites));
+`;
+
+const REVISIONS_FOR_SITE = `
+  SELECT ${REVISION_COLUMNS}
+  FROM site_revisions
+  WHERE site_id = ?
+  ORDER BY revision DESC;
+`;
+
+const REVISION_BY_NUMBER = `
+  SELECT ${REVISION_COLUMNS}
+  FROM site_revisions
+  WHERE site_id = ? AND revision = ?;
+`;
+
+function mapRevisionRow(row: SiteRevisionRow): SiteRevision {
+  const snapshot = JSON.parse(row.snapshot) as SiteRecord;
+  return {
+    siteId: row.site_id,
+    revision: row.revision,
+    action: row.action,
+    // Snapshots taken before contacts and membership details existed lack those fields.
+    snapshot: { ...EMPTY_MEMBERSHIP, ...snapshot, contacts: snapshot.contacts ?? [] },
+    actor: row.actor,
+    actorTokenId: row.actor_token_id,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Records the current state of a site as its next revision. Batch it after the statements
+ * that change the site (or before a delete) so the snapshot and the write land together.
+ * Pass a null `siteId` straight after inserting a site in the same batch.
+ */
+export function revisionStatement(
+  db: D1Database,
+  siteId: number | null,
+  action: RevisionAction,
+  change: SiteChange,
+): D1PreparedStatement {
+  return db
+    .prepare(INSERT_REVISION)
+    .bind(action, change.actor.label, change.actor.tokenId, change.note ?? null, siteId);
+}
+
+/**
+ * Lists every revision of a site, newest first. Works for deleted sites too.
+ */
+export async function listSiteRevisions(db: D1Database, siteId: number): Promise<SiteRevision[]> {
+  const { results } = await db.prepare(REVISIONS_FOR_SITE).bind(siteId).all<SiteRevisionRow>();
+  return results.map(mapRevisionRow);
+}
+
+export async function fetchSiteRevision(
+  db: D1Database,
+  siteId: number,
+  revision: number,
+): Promise<SiteRevision | null> {
+  const row = await db
+    .prepare(REVISION_BY_NUMBER)
+    .bind(siteId, revision)
+    .first<SiteRevisionRow>();
+  return row ? mapRevisionRow(row) : null;
+}
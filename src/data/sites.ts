@@ -0,0 +1,690 @@
+import type {
+  DatedSite,
+  NearbyFilter,
+  RegionSummary,
+  SiteInput,
+  SitePage,
+  SiteQueryOptions,
+  SiteRecord,
+  SiteSort,
+} from '../types/directory';
+import type { SiteChange } from '../types/history';
+import { slugify } from '../utils/slug';
+import {
+  contactsJson,
+  contactStatements,
+  deleteContactsStatement,
+  parseContacts,
+} from './siteContacts';
+import { revisionStatement } from './siteRevisions';
+
+type SiteRow = {
+  id: number;
+  name: string;
+  description: string | null;
+  website: string | null;
+  address: string | null;
+  region: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  ownership_model: SiteRecord['ownershipModel'];
+  member_count: number | null;
+  founded_year: number | null;
+  capacity_kw: number | null;
+  how_to_join: string | null;
+  created_at: string;
+  tag_string: string;
+  contacts_json: string | null;
+};
+
+type SiteCursor = {
+  sort: SiteSort;
+  key: string;
+  id: number;
+};
+
+export type SiteUpsert = {
+  /** The site to overwrite, or null to create a new one. */
+  id: number | null;
+  input: SiteInput;
+};
+
+type SqlQuery = {
+  sql: string;
+  bindings: unknown[];
+};
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('The pagination cursor is invalid or belongs to a different sort order.');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const TAG_SEPARATOR = '\u001f';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+// `sites` only ever holds reviewed listings: public submissions wait in `site_submissions`
+// until a moderator approves them, so every query built on this select is safe to publish once
+// private contact fields are redacted (see `redactSite` in src/api/sites.ts).
+const SITE_SELECT = `
+  SELECT
+    s.id,
+    s.name,
+    s.description,
+    s.website,
+    s.address,
+    s.region,
+    s.latitude,
+    s.longitude,
+    s.ownership_model,
+    s.member_count,
+    s.founded_year,
+    s.capacity_kw,
+    s.how_to_join,
+    s.created_at,
+    COALESCE(GROUP_CONCAT(t.label, '${TAG_SEPARATOR}'), '') AS tag_string,
+    ${contactsJson('s.id')} AS contacts_json
+  FROM sites s
+  LEFT JOIN site_tags st ON st.site_id = s.id
+  LEFT JOIN tags t ON t.id = st.tag_id
+`;
+
+// When a listing last changed: its latest revision, or its creation for sites that predate
+// revisions. Expects the site row aliased as `site`.
+const SITE_UPDATED_AT = `
+  COALESCE(
+    (SELECT MAX(r.created_at) FROM site_revisions r WHERE r.site_id = site.id),
+    site.created_at
+  )
+`;
+
+const SITEMAP_SITES = `
+  SELECT site.id, site.name, ${SITE_UPDATED_AT} AS updated_at
+  FROM sites site
+  ORDER BY site.id;
+`;
+
+const SITE_BY_ID_QUERY = `
+  ${SITE_SELECT}
+  WHERE s.id = ?
+  GROUP BY s.id;
+`;
+
+const SORT_ORDER: Record<SiteSort, string> = {
+  newest: 's.created_at DESC, s.id DESC',
+  name: 's.name COLLATE NOCASE ASC, s.id ASC',
+};
+
+const CURSOR_CONDITION: Record<SiteSort, string> = {
+  newest: '(s.created_at < ? OR (s.created_at = ? AND s.id < ?))',
+  name: '(s.name COLLATE NOCASE > ? OR (s.name COLLATE NOCASE = ? AND s.id > ?))',
+};
+
+const SITE_COLUMNS = `
+  name, description, website, address, region, latitude, longitude, ownership_model,
+  member_count, founded_year, capacity_kw, how_to_join
+`;
+
+const INSERT_SITE = `
+  INSERT INTO sites (${SITE_COLUMNS})
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  RETURNING id;
+`;
+
+const INSERT_SITE_WITH_ID = `
+  INSERT INTO sites (id, ${SITE_COLUMNS})
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+`;
+
+const UPDATE_SITE = `
+  UPDATE sites
+  SET name = ?, description = ?, website = ?, address = ?, region = ?, latitude = ?, longitude = ?,
+    ownership_model = ?, member_count = ?, founded_year = ?, capacity_kw = ?, how_to_join = ?
+  WHERE id = ?;
+`;
+
+const REGION_SUMMARY_QUERY = `
+  SELECT
+    region,
+    COUNT(*) AS site_count,
+    AVG(latitude) AS center_latitude,
+    AVG(longitude) AS center_longitude
+  FROM sites
+  WHERE region IS NOT NULL
+  GROUP BY region COLLATE NOCASE
+  ORDER BY site_count DESC, region COLLATE NOCASE ASC;
+`;
+
+const UNASSIGNED_REGION_COUNT_QUERY = `
+  SELECT COUNT(*) AS total FROM sites WHERE region IS NULL;
+`;
+
+// Haversine great-circle distance in kilometres from the site to a bound point. D1 does not
+// allow power(), so each squared sine is written out and the point is bound five times as
+// latitude, latitude, latitude, longitude, longitude.
+const HAVERSINE_DISTANCE = `
+  (2 * ${EARTH_RADIUS_KM} * asin(sqrt(
+    sin(radians(s.latitude - ?) / 2) * sin(radians(s.latitude - ?) / 2) +
+    cos(radians(?)) * cos(radians(s.latitude)) *
+      sin(radians(s.longitude - ?) / 2) * sin(radians(s.longitude - ?) / 2)
+  )))
+`;
+
+const DELETE_SITE = `DELETE FROM sites WHERE id = ?;`;
+
+const DELETE_SITE_TAGS = `DELETE FROM site_tags WHERE site_id = ?;`;
+
+// Tags are matched on their slug, so "Community Owned" and "community-owned" are one tag, and a
+// spelling registered as an alias resolves to the tag that owns it instead of creating a new one.
+const INSERT_TAG = `
+  INSERT OR IGNORE INTO tags (label, slug)
+  SELECT ?1, ?2
+  WHERE NOT EXISTS (SELECT 1 FROM tag_aliases WHERE slug = ?2);
+`;
+
+// A null site id links the newest site, like `revisionStatement` does.
+const LINK_SITE_TAG = `
+  INSERT OR IGNORE INTO site_tags (site_id, tag_id)
+  SELECT COALESCE(?1, (SELECT MAX(id) FROM sites)), id
+  FROM tags
+  WHERE id = COALESCE(
+    (SELECT tag_id FROM tag_aliases WHERE slug = ?3),
+    (SELECT id FROM tags WHERE slug = ?3),
+    (SELECT id FROM tags WHERE label = ?2)
+  );
+`;
+
+// Resolves a filter value to the tag it names, directly or through an alias. Bind the slug twice.
+export const TAG_IDS_FOR_SLUG = `
+  SELECT id FROM tags WHERE slug = ? UNION SELECT tag_id FROM tag_aliases WHERE slug = ?
+`;
+
+function mapSiteRow(row: SiteRow): SiteRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    website: row.website,
+    address: row.address,
+    region: row.region,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    ownershipModel: row.ownership_model,
+    memberCount: row.member_count,
+    foundedYear: row.founded_year,
+    capacityKw: row.capacity_kw,
+    howToJoin: row.how_to_join,
+    tags: row.tag_string ? row.tag_string.split(TAG_SEPARATOR).filter(Boolean) : [],
+    contacts: parseContacts(row.contacts_json),
+  };
+}
+
+function siteColumnValues(input: SiteInput): unknown[] {
+  return [
+    input.name,
+    input.description,
+    input.website,
+    input.address,
+    input.region,
+    input.latitude,
+    input.longitude,
+    input.ownershipModel,
+    input.memberCount,
+    input.foundedYear,
+    input.capacityKw,
+    input.howToJoin,
+  ];
+}
+
+function tagStatements(
+  db: D1Database,
+  siteId: number | null,
+  tags: readonly string[],
+): D1PreparedStatement[] {
+  return tags.flatMap((tag) => {
+    const slug = slugify(tag);
+    return [
+      db.prepare(INSERT_TAG).bind(tag, slug),
+      db.prepare(LINK_SITE_TAG).bind(siteId, tag, slug),
+    ];
+  });
+}
+
+/**
+ * Converts free text into an FTS5 query that prefix-matches every word, so user input can
+ * never inject FTS syntax. Returns null when the text contains nothing searchable.
+ */
+export function toFtsQuery(text: string): string | null {
+  const terms = text.match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (!terms.length) {
+    return null;
+  }
+  return terms
+    .slice(0, 8)
+    .map((term) => `"${term}"*`)
+    .join(' ');
+}
+
+/**
+ * Cursors are base64url over UTF-8 bytes, since `btoa` alone rejects names outside Latin-1.
+ */
+export function encodeCursor(cursor: SiteCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([cursor.sort, cursor.key, cursor.id]));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeCursor(value: string): SiteCursor | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const json = new TextDecoder().decode(bytes);
+    const [sort, key, id] = JSON.parse(json) as unknown[];
+    if (
+      (sort === 'newest' || sort === 'name') &&
+      typeof key === 'string' &&
+      typeof id === 'number' &&
+      Number.isInteger(id)
+    ) {
+      return { sort, key, id };
+    }
+  } catch {
+    // Fall through to the invalid cursor result.
+  }
+  return null;
+}
+
+/**
+ * Restricts sites to a radius around a point. A bounding box lets SQLite use the coordinate
+ * index before the exact haversine distance is checked.
+ */
+function buildNearbyFilter(near: NearbyFilter): { clauses: string[]; bindings: unknown[] } {
+  const latitudeDelta = near.radiusKm / KM_PER_DEGREE_LATITUDE;
+  const clauses = ['s.latitude BETWEEN ? AND ?'];
+  const bindings: unknown[] = [near.latitude - latitudeDelta, near.latitude + latitudeDelta];
+
+  const cosLatitude = Math.cos((near.latitude * Math.PI) / 180);
+  const longitudeDelta = cosLatitude > 0.01 ? near.radiusKm / (KM_PER_DEGREE_LATITUDE * cosLatitude) : 180;
+  const west = near.longitude - longitudeDelta;
+  const east = near.longitude + longitudeDelta;
+  // Skip the longitude box near the poles or when it would wrap around the antimeridian.
+  if (west >= -180 && east <= 180) {
+    clauses.push('s.longitude BETWEEN ? AND ?');
+    bindings.push(west, east);
+  }
+
+  clauses.push(`${HAVERSINE_DISTANCE} <= ?`);
+  bindings.push(
+    near.latitude,
+    near.latitude,
+    near.latitude,
+    near.longitude,
+    near.longitude,
+    near.radiusKm,
+  );
+
+  return { clauses, bindings };
+}
+
+function buildSiteFilters(options: SiteQueryOptions): { clauses: string[]; bindings: unknown[] } {
+  const clauses: string[] = [];
+  const bindings: unknown[] = [];
+
+  const ftsQuery = options.q ? toFtsQuery(options.q) : null;
+  if (ftsQuery) {
+    clauses.push('s.id IN (SELECT rowid FROM sites_fts WHERE sites_fts MATCH ?)');
+    bindings.push(ftsQuery);
+  }
+
+  if (options.region) {
+    clauses.push('s.region = ? COLLATE NOCASE');
+    bindings.push(options.region);
+  }
+
+  if (options.hasCoordinates || options.near) {
+    clauses.push('s.latitude IS NOT NULL AND s.longitude IS NOT NULL');
+  }
+
+  if (options.near) {
+    const nearby = buildNearbyFilter(options.near);
+    clauses.push(...nearby.clauses);
+    bindings.push(...nearby.bindings);
+  }
+
+  const slugs = Array.from(new Set((options.tags ?? []).map(slugify)));
+  if (slugs.length) {
+    if (options.tagMode === 'all') {
+      for (const slug of slugs) {
+        clauses.push(`s.id IN (
+          SELECT ft.site_id FROM site_tags ft WHERE ft.tag_id IN (${TAG_IDS_FOR_SLUG})
+        )`);
+        bindings.push(slug, slug);
+      }
+    } else {
+      const matches = slugs.map(() => TAG_IDS_FOR_SLUG).join(' UNION ');
+      clauses.push(`s.id IN (
+        SELECT ft.site_id FROM site_tags ft WHERE ft.tag_id IN (${matches})
+      )`);
+      bindings.push(...slugs.flatMap((slug) => [slug, slug]));
+    }
+  }
+
+  return { clauses, bindings };
+}
+
+/**
+ * Builds the page and count statements for a filtered, sorted, keyset-paginated site listing.
+ * The page query fetches one extra row so callers can tell whether another page exists.
+ */
+export function buildSiteQuery(options: SiteQueryOptions): { page: SqlQuery; count: SqlQuery } {
+  const sort = options.sort ?? 'newest';
+  const filters = buildSiteFilters(options);
+  const pageClauses = [...filters.clauses];
+  const pageBindings = [...filters.bindings];
+
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+  if (options.cursor && (!cursor || cursor.sort !== sort)) {
+    throw new InvalidCursorError();
+  }
+  if (cursor) {
+    pageClauses.push(CURSOR_CONDITION[sort]);
+    pageBindings.push(cursor.key, cursor.key, cursor.id);
+  }
+
+  const where = (clauses: string[]) => (clauses.length ? `WHERE ${clauses.join(' AND ')}` : '');
+  const limit = options.limit === null ? '' : 'LIMIT ?';
+  if (options.limit !== null) {
+    pageBindings.push((options.limit ?? DEFAULT_PAGE_SIZE) + 1);
+  }
+
+  return {
+    page: {
+      sql: `
+        ${SITE_SELECT}
+        ${where(pageClauses)}
+        GROUP BY s.id
+        ORDER BY ${SORT_ORDER[sort]}
+        ${limit};
+      `,
+      bindings: pageBindings,
+    },
+    count: {
+      sql: `SELECT COUNT(*) AS total FROM sites s ${where(filters.clauses)};`,
+      bindings: filters.bindings,
+    },
+  };
+}
+
+export async function querySites(db: D1Database, options: SiteQueryOptions): Promise<SitePage> {
+  const sort = options.sort ?? 'newest';
+  const { page, count } = buildSiteQuery(options);
+  const [pageResult, countRow] = await Promise.all([
+    db.prepare(page.sql).bind(...page.bindings).all<SiteRow>(),
+    db.prepare(count.sql).bind(...count.bindings).first<{ total: number }>(),
+  ]);
+
+  let rows = pageResult.results;
+  let nextCursor: string | null = null;
+  const limit = options.limit === null ? null : options.limit ?? DEFAULT_PAGE_SIZE;
+  if (limit !== null && rows.length > limit) {
+    rows = rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+    nextCursor = encodeCursor({
+      sort,
+      key: sort === 'name' ? last.name : last.created_at,
+      id: last.id,
+    });
+  }
+
+  return {
+    sites: rows.map(mapSiteRow),
+    nextCursor,
+    total: countRow?.total ?? 0,
+  };
+}
+
+/**
+ * The most recently created or changed sites, judged by their latest revision, optionally
+ * limited to sites carrying any of `tags`.
+ */
+export async function fetchRecentlyChangedSites(
+  db: D1Database,
+  options: { tags?: string[]; limit: number },
+): Promise<DatedSite[]> {
+  const filters = buildSiteFilters({ tags: options.tags });
+  const where = filters.clauses.length ? `WHERE ${filters.clauses.join(' AND ')}` : '';
+  const { results } = await db
+    .prepare(
+      `
+        SELECT site.*, ${SITE_UPDATED_AT} AS updated_at
+        FROM (
+          ${SITE_SELECT}
+          ${where}
+          GROUP BY s.id
+        ) site
+        ORDER BY updated_at DESC, site.id DESC
+        LIMIT ?;
+      `,
+    )
+    .bind(...filters.bindings, options.limit)
+    .all<SiteRow & { updated_at: string }>();
+  return results.map((row) => ({
+    ...mapSiteRow(row),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }));
+}
+
+/**
+ * Every listed site with when it last changed, for the sitemap.
+ */
+export async function fetchSitemapSites(
+  db: D1Database,
+): Promise<{ id: number; name: string; updatedAt: string }[]> {
+  const { results } = await db
+    .prepare(SITEMAP_SITES)
+    .all<{ id: number; name: string; updated_at: string }>();
+  return results.map((row) => ({ id: row.id, name: row.name, updatedAt: row.updated_at }));
+}
+
+/**
+ * Loads every site, newest first. Used where the whole directory is needed, such as the
+ * vision assessment.
+ */
+export async function fetchSites(db: D1Database): Promise<SiteRecord[]> {
+  const { page } = buildSiteQuery({ limit: null });
+  const { results } = await db.prepare(page.sql).bind(...page.bindings).all<SiteRow>();
+  return results.map(mapSiteRow);
+}
+
+export async function fetchSiteById(db: D1Database, id: number): Promise<SiteRecord | null> {
+  const row = await db.prepare(SITE_BY_ID_QUERY).bind(id).first<SiteRow>();
+  return row ? mapSiteRow(row) : null;
+}
+
+/**
+ * Inserts a site and links its tags, creating any tag labels that do not exist yet, and
+ * records the first revision. Everything runs in one batch, so a failure leaves no half-made
+ * site behind; the dependent rows find the new site as the newest id, like `upsertSites`.
+ */
+export async function createSite(
+  db: D1Database,
+  input: SiteInput,
+  change: SiteChange,
+): Promise<SiteRecord> {
+  const [insertResult] = await db.batch([
+    db.prepare(INSERT_SITE).bind(...siteColumnValues(input)),
+    ...tagStatements(db, null, input.tags),
+    ...contactStatements(db, null, input.contacts),
+    revisionStatement(db, null, 'create', change),
+  ]);
+  const inserted = (insertResult.results as { id: number }[])[0];
+  if (!inserted) {
+    throw new Error('Site insert did not return an id.');
+  }
+
+  const site = await fetchSiteById(db, inserted.id);
+  if (!site) {
+    throw new Error(`Site ${inserted.id} disappeared after insert.`);
+  }
+  return site;
+}
+
+/**
+ * Replaces the stored fields, tag links, and contacts of an existing site in a single batch, together
+ * with a revision snapshot. Returns null when the site does not exist.
+ */
+export async function updateSite(
+  db: D1Database,
+  id: number,
+  input: SiteInput,
+  change: SiteChange,
+): Promise<SiteRecord | null> {
+  return writeSite(db, id, input, 'update', change);
+}
+
+/**
+ * Deletes a site with its tag links and contacts. Returns the record as it was before deletion, which is
+ * also kept as the final revision so the site can be restored.
+ */
+export async function deleteSite(
+  db: D1Database,
+  id: number,
+  change: SiteChange,
+): Promise<SiteRecord | null> {
+  const existing = await fetchSiteById(db, id);
+  if (!existing) {
+    return null;
+  }
+
+  await db.batch([
+    revisionStatement(db, id, 'delete', change),
+    db.prepare(DELETE_SITE_TAGS).bind(id),
+    deleteContactsStatement(db, id),
+    db.prepare(DELETE_SITE).bind(id),
+  ]);
+  return existing;
+}
+
+/**
+ * Writes an earlier revision's fields back to a site, re-creating it under the same id when it
+ * has been deleted since.
+ */
+export async function restoreSite(
+  db: D1Database,
+  id: number,
+  input: SiteInput,
+  change: SiteChange,
+): Promise<SiteRecord> {
+  const restored = await writeSite(db, id, input, 'restore', change);
+  if (restored) {
+    return restored;
+  }
+
+  await db.batch([
+    db.prepare(INSERT_SITE_WITH_ID).bind(id, ...siteColumnValues(input)),
+    ...tagStatements(db, id, input.tags),
+    ...contactStatements(db, id, input.contacts),
+    revisionStatement(db, id, 'restore', change),
+  ]);
+
+  const site = await fetchSiteById(db, id);
+  if (!site) {
+    throw new Error(`Site ${id} disappeared after restore.`);
+  }
+  return site;
+}
+
+async function writeSite(
+  db: D1Database,
+  id: number,
+  input: SiteInput,
+  action: 'update' | 'restore',
+  change: SiteChange,
+): Promise<SiteRecord | null> {
+  const existing = await fetchSiteById(db, id);
+  if (!existing) {
+    return null;
+  }
+
+  await db.batch([
+    db.prepare(UPDATE_SITE).bind(...siteColumnValues(input), id),
+    db.prepare(DELETE_SITE_TAGS).bind(id),
+    ...tagStatements(db, id, input.tags),
+    deleteContactsStatement(db, id),
+    ...contactStatements(db, id, input.contacts),
+    revisionStatement(db, id, action, change),
+  ]);
+
+  return fetchSiteById(db, id);
+}
+
+/**
+ * Creates and updates many sites in one batch, so either every row lands or none do. Each
+ * write records a revision like the single-site functions.
+ */
+export async function upsertSites(
+  db: D1Database,
+  upserts: readonly SiteUpsert[],
+  change: SiteChange,
+): Promise<void> {
+  const statements = upserts.flatMap(({ id, input }) =>
+    id === null
+      ? [
+          db.prepare(INSERT_SITE).bind(...siteColumnValues(input)),
+          ...tagStatements(db, null, input.tags),
+          ...contactStatements(db, null, input.contacts),
+          revisionStatement(db, null, 'create', change),
+        ]
+      : [
+          db.prepare(UPDATE_SITE).bind(...siteColumnValues(input), id),
+          db.prepare(DELETE_SITE_TAGS).bind(id),
+          ...tagStatements(db, id, input.tags),
+          deleteContactsStatement(db, id),
+          ...contactStatements(db, id, input.contacts),
+          revisionStatement(db, id, 'update', change),
+        ],
+  );
+
+  if (statements.length) {
+    await db.batch(statements);
+  }
+}
+
+/**
+ * Summarises how many sites each region holds, with the average coordinates of the sites that
+ * have them as a map centre.
+ */
+export async function fetchRegionSummaries(
+  db: D1Database,
+): Promise<{ regions: RegionSummary[]; unassignedCount: number }> {
+  const [{ results }, unassigned] = await Promise.all([
+    db.prepare(REGION_SUMMARY_QUERY).all<{
+      region: string;
+      site_count: number;
+      center_latitude: number | null;
+      center_longitude: number | null;
+    }>(),
+    db.prepare(UNASSIGNED_REGION_COUNT_QUERY).first<{ total: number }>(),
+  ]);
+
+  return {
+    regions: results.map((row) => ({
+      region: row.region,
+      siteCount: row.site_count,
+      center:
+        row.center_latitude === null || row.center_longitude === null
+          ? null
+          : { latitude: row.center_latitude, longitude: row.center_longitude },
+    })),
+    unassignedCount: unassigned?.total ?? 0,
+  };
+}
@@ -0,0 +1,168 @@
+import type { Story, StoryInput, StoryQueryOptions } from '../types/story';
+import { slugify } from '../utils/slug';
+import { TAG_IDS_FOR_SLUG } from './sites';
+
+type StoryRow = {
+  id: number;
+  site_id: number;
+  site_name: string;
+  focus: string;
+  title: string;
+  body: string;
+  published_on: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const DEFAULT_STORY_PAGE_SIZE = 20;
+
+const STORY_COLUMNS = `
+  st.id, st.site_id, s.name AS site_name, st.focus, st.title, st.body, st.published_on,
+  st.created_by, st.created_at, st.updated_at
+`;
+
+const INSERT_STORY = `
+  INSERT INTO stories (site_id, focus, title, body, published_on, created_by)
+  VALUES (?, ?, ?, ?, ?, ?)
+  RETURNING id;
+`;
+
+const UPDATE_STORY = `
+  UPDATE stories
+  SET site_id = ?, focus = ?, title = ?, body = ?, published_on = ?,
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = ?
+  RETURNING id;
+`;
+
+const DELETE_STORY = `DELETE FROM stories WHERE id = ?;`;
+
+const STORY_BY_ID = `
+  SELECT ${STORY_COLUMNS}
+  FROM stories st
+  JOIN sites s ON s.id = st.site_id
+  WHERE st.id = ?;
+`;
+
+const STORY_FOCUS_COUNTS = `
+  SELECT focus, COUNT(*) AS story_count
+  FROM stories
+  GROUP BY focus;
+`;
+
+function mapStoryRow(row: StoryRow): Story {
+  return {
+    id: row.id,
+    siteId: row.site_id,
+    siteName: row.site_name,
+    focus: row.focus,
+    title: row.title,
+    body: row.body,
+    publishedOn: row.published_on,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function fetchStoryById(db: D1Database, id: number): Promise<Story | null> {
+  const row = await db.prepare(STORY_BY_ID).bind(id).first<StoryRow>();
+  return row ? mapStoryRow(row) : null;
+}
+
+/**
+ * Lists stories newest first by published date, optionally for one site, focus area, or the
+ * sites carrying a tag.
+ */
+export async function queryStories(
+  db: D1Database,
+  options: StoryQueryOptions = {},
+): Promise<Story[]> {
+  const clauses: string[] = [];
+  const bindings: unknown[] = [];
+  if (options.siteId) {
+    clauses.push('st.site_id = ?');
+    bindings.push(options.siteId);
+  }
+  if (options.focus) {
+    clauses.push('st.focus = ?');
+    bindings.push(options.focus);
+  }
+  if (options.tag) {
+    const slug = slugify(options.tag);
+    clauses.push(`st.site_id IN (
+      SELECT ft.site_id FROM site_tags ft WHERE ft.tag_id IN (${TAG_IDS_FOR_SLUG})
+    )`);
+    bindings.push(slug, slug);
+  }
+
+  const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+  const { results } = await db
+    .prepare(
+      `
+        SELECT ${STORY_COLUMNS}
+        FROM stories st
+        JOIN sites s ON s.id = st.site_id
+        ${where}
+        ORDER BY st.published_on DESC, st.id DESC
+        LIMIT ?;
+      `,
+    )
+    .bind(...bindings, options.limit ?? DEFAULT_STORY_PAGE_SIZE)
+    .all<StoryRow>();
+  return results.map(mapStoryRow);
+}
+
+/**
+ * Counts stories per focus area, for the vision's storytelling coverage.
+ */
+export async function fetchStoryFocusCounts(db: D1Database): Promise<Map<string, number>> {
+  const { results } = await db
+    .prepare(STORY_FOCUS_COUNTS)
+    .all<{ focus: string; story_count: number }>();
+  return new Map(results.map((row) => [row.focus, row.story_count]));
+}
+
+export async function insertStory(
+  db: D1Database,
+  input: StoryInput,
+  createdBy: string,
+): Promise<Story> {
+  const inserted = await db
+    .prepare(INSERT_STORY)
+    .bind(input.siteId, input.focus, input.title, input.body, input.publishedOn, createdBy)
+    .first<{ id: number }>();
+  const story = inserted ? await fetchStoryById(db, inserted.id) : null;
+  if (!story) {
+    throw new Error('Story insert did not return a row.');
+  }
+  return story;
+}
+
+/**
+ * Replaces a story's fields. Returns null when the story does not exist.
+ */
+export async function updateStory(
+  db: D1Database,
+  id: number,
+  input: StoryInput,
+): Promise<Story | null> {
+  const updated = await db
+    .prepare(UPDATE_STORY)
+    .bind(input.siteId, input.focus, input.title, input.body, input.publishedOn, id)
+    .first<{ id: number }>();
+  return updated ? fetchStoryById(db, id) : null;
+}
+
+/**
+ * Deletes a story and returns it as it was, or null when it does not exist.
+ */
+export async function deleteStory(db: D1Database, id: number): Promise<Story | null> {
+  const existing = await fetchStoryById(db, id);
+  if (!existing) {
+    return null;
+  }
+  await db.prepare(DELETE_STORY).bind(id).run();
+  return existing;
+}
@@ -0,0 +1,182 @@
+import type { SiteInput } from '../types/directory';
+import type {
+  SiteSubmission,
+  SubmissionInput,
+  SubmissionPage,
+  SubmissionQueryOptions,
+  SubmissionStatus,
+} from '../types/submission';
+import { EMPTY_MEMBERSHIP } from './siteContacts';
+
+type SubmissionRow = {
+  id: number;
+  site_id: number | null;
+  payload: string;
+  submitter_name: string | null;
+  submitter_email: string;
+  status: SubmissionStatus;
+  review_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+};
+
+export const DEFAULT_SUBMISSION_PAGE_SIZE = 25;
+
+const SUBMISSION_COLUMNS = `
+  id, site_id, payload, submitter_name, submitter_email, status, review_reason, reviewed_by,
+  reviewed_at, created_at
+`;
+
+const INSERT_SUBMISSION = `
+  INSERT INTO site_submissions (site_id, payload, submitter_name, submitter_email)
+  VALUES (?, ?, ?, ?)
+  RETURNING ${SUBMISSION_COLUMNS};
+`;
+
+const SUBMISSION_BY_ID = `
+  SELECT ${SUBMISSION_COLUMNS}
+  FROM site_submissions
+  WHERE id = ?;
+`;
+
+const CLAIM_SUBMISSION = `
+  UPDATE site_submissions
+  SET status = ?, review_reason = ?, reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP
+  WHERE id = ? AND status = 'pending'
+  RETURNING ${SUBMISSION_COLUMNS};
+`;
+
+const SET_SUBMISSION_SITE = `
+  UPDATE site_submissions
+  SET site_id = ?
+  WHERE id = ?
+  RETURNING ${SUBMISSION_COLUMNS};
+`;
+
+const RELEASE_SUBMISSION = `
+  UPDATE site_submissions
+  SET status = 'pending', review_reason = NULL, reviewed_by = NULL, reviewed_at = NULL
+  WHERE id = ?;
+`;
+
+function mapSubmissionRow(row: SubmissionRow): SiteSubmission {
+  const site = JSON.parse(row.payload) as SiteInput;
+  return {
+    id: row.id,
+    siteId: row.site_id,
+    // Submissions made before contacts and membership details existed lack those fields.
+    site: { ...EMPTY_MEMBERSHIP, ...site, contacts: site.contacts ?? [] },
+    submitterName: row.submitter_name,
+    submitterEmail: row.submitter_email,
+    status: row.status,
+    reviewReason: row.review_reason,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    createdAt: row.created_at,
+  };
+}
+
+export async function insertSubmission(
+  db: D1Database,
+  input: SubmissionInput,
+): Promise<SiteSubmission> {
+  const row = await db
+    .prepare(INSERT_SUBMISSION)
+    .bind(input.siteId, JSON.stringify(input.site), input.submitterName, input.submitterEmail)
+    .first<SubmissionRow>();
+  if (!row) {
+    throw new Error('Submission insert did not return a row.');
+  }
+  return mapSubmissionRow(row);
+}
+
+export async function fetchSubmissionById(
+  db: D1Database,
+  id: number,
+): Promise<SiteSubmission | null> {
+  const row = await db.prepare(SUBMISSION_BY_ID).bind(id).first<SubmissionRow>();
+  return row ? mapSubmissionRow(row) : null;
+}
+
+/**
+ * Lists submissions oldest first so the review queue is worked through in arrival order.
+ */
+export async function querySubmissions(
+  db: D1Database,
+  options: SubmissionQueryOptions,
+): Promise<SubmissionPage> {
+  const clauses: string[] = [];
+  const bindings: unknown[] = [];
+  if (options.status) {
+    clauses.push('status = ?');
+    bindings.push(options.status);
+  }
+
+  const pageClauses = [...clauses];
+  const pageBindings = [...bindings];
+  if (options.cursor) {
+    pageClauses.push('id > ?');
+    pageBindings.push(options.cursor);
+  }
+
+  const where = (parts: string[]) => (parts.length ? `WHERE ${parts.join(' AND ')}` : '');
+  const limit = options.limit ?? DEFAULT_SUBMISSION_PAGE_SIZE;
+
+  const [{ results }, countRow] = await Promise.all([
+    db
+      .prepare(
+        `SELECT ${SUBMISSION_COLUMNS} FROM site_submissions ${where(pageClauses)}
+         ORDER BY id ASC LIMIT ?;`,
+      )
+      .bind(...pageBindings, limit + 1)
+      .all<SubmissionRow>(),
+    db
+      .prepare(`SELECT COUNT(*) AS total FROM site_submissions ${where(clauses)};`)
+      .bind(...bindings)
+      .first<{ total: number }>(),
+  ]);
+
+  let rows = results;
+  let nextCursor: number | null = null;
+  if (rows.length > limit) {
+    rows = rows.slice(0, limit);
+    nextCursor = rows[rows.length - 1].id;
+  }
+
+  return { submissions: rows.map(mapSubmissionRow), nextCursor, total: countRow?.total ?? 0 };
+}
+
+/**
+ * Moves a pending submission to its reviewed state. Returns null when the submission is
+ * missing or was already reviewed, so two moderators cannot apply the same entry twice.
+ */
+export async function claimSubmission(
+  db: D1Database,
+  id: number,
+  status: Exclude<SubmissionStatus, 'pending'>,
+  reason: string | null,
+  reviewer: string,
+): Promise<SiteSubmission | null> {
+  const row = await db
+    .prepare(CLAIM_SUBMISSION)
+    .bind(status, reason, reviewer, id)
+    .first<SubmissionRow>();
+  return row ? mapSubmissionRow(row) : null;
+}
+
+export async function setSubmissionSite(
+  db: D1Database,
+  id: number,
+  siteId: number,
+): Promise<SiteSubmission | null> {
+  const row = await db.prepare(SET_SUBMISSION_SITE).bind(siteId, id).first<SubmissionRow>();
+  return row ? mapSubmissionRow(row) : null;
+}
+
+/**
+ * Returns a claimed submission to the queue, used when applying an approval fails.
+ */
+export async function releaseSubmission(db: D1Database, id: number): Promise<void> {
+  await db.prepare(RELEASE_SUBMISSION).bind(id).run();
+}
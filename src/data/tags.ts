@@ -0,0 +1,193 @@
+import type { TagSummary } from '../types/directory';
+import type { SiteChange } from '../types/history';
+import type { TagCategory, TagRecord, TagUpdate } from '../types/tags';
+import { slugify } from '../utils/slug';
+import { revisionStatement } from './siteRevisions';
+
+type TagRow = {
+  id: number;
+  label: string;
+  slug: string;
+  category: TagCategory | null;
+  parent_id: number | null;
+  aliases: string;
+  site_count: number;
+};
+
+const TAG_USAGE_QUERY = `
+  SELECT t.label, COUNT(st.site_id) AS site_count
+  FROM tags t
+  LEFT JOIN site_tags st ON st.tag_id = t.id
+  GROUP BY t.id
+  HAVING site_count > 0
+  ORDER BY site_count DESC, t.label COLLATE NOCASE ASC;
+`;
+
+const TAG_COLUMNS = `
+  t.id,
+  t.label,
+  t.slug,
+  t.category,
+  t.parent_id,
+  (
+    SELECT json_group_array(label)
+    FROM (SELECT a.label FROM tag_aliases a WHERE a.tag_id = t.id ORDER BY a.label)
+  ) AS aliases,
+  (SELECT COUNT(*) FROM site_tags st WHERE st.tag_id = t.id) AS site_count
+`;
+
+const LIST_TAGS = `
+  SELECT ${TAG_COLUMNS}
+  FROM tags t
+  ORDER BY t.label COLLATE NOCASE ASC;
+`;
+
+const TAG_BY_ID = `
+  SELECT ${TAG_COLUMNS}
+  FROM tags t
+  WHERE t.id = ?;
+`;
+
+const TAG_ALIAS_SLUGS = `
+  SELECT a.slug, a.tag_id, t.slug AS tag_slug
+  FROM tag_aliases a
+  JOIN tags t ON t.id = a.tag_id;
+`;
+
+const TAG_SITE_IDS = `SELECT site_id FROM site_tags WHERE tag_id = ? ORDER BY site_id;`;
+
+const UPDATE_TAG = `
+  UPDATE tags SET label = ?, slug = ?, category = ?, parent_id = ? WHERE id = ?;
+`;
+
+const DELETE_TAG_ALIASES = `DELETE FROM tag_aliases WHERE tag_id = ?;`;
+
+const UPSERT_TAG_ALIAS = `
+  INSERT INTO tag_aliases (slug, label, tag_id) VALUES (?, ?, ?)
+  ON CONFLICT (slug) DO UPDATE SET label = excluded.label, tag_id = excluded.tag_id;
+`;
+
+const MOVE_SITE_TAGS = `
+  INSERT OR IGNORE INTO site_tags (site_id, tag_id)
+  SELECT site_id, ?2 FROM site_tags WHERE tag_id = ?1;
+`;
+
+const DELETE_TAG_LINKS = `DELETE FROM site_tags WHERE tag_id = ?;`;
+
+const MOVE_TAG_ALIASES = `UPDATE tag_aliases SET tag_id = ?2 WHERE tag_id = ?1;`;
+
+const SET_TAG_PARENT = `UPDATE tags SET parent_id = ?2 WHERE id = ?1;`;
+
+const MOVE_TAG_CHILDREN = `UPDATE tags SET parent_id = ?2 WHERE parent_id = ?1;`;
+
+const DELETE_TAG = `DELETE FROM tags WHERE id = ?;`;
+
+function mapTagRow(row: TagRow): TagRecord {
+  return {
+    id: row.id,
+    label: row.label,
+    slug: row.slug,
+    category: row.category,
+    parentId: row.parent_id,
+    aliases: JSON.parse(row.aliases) as string[],
+    siteCount: row.site_count,
+  };
+}
+
+/**
+ * Lists every tag that is attached to at least one site, most used first.
+ */
+export async function fetchTagSummaries(db: D1Database): Promise<TagSummary[]> {
+  const { results } = await db
+    .prepare(TAG_USAGE_QUERY)
+    .all<{ label: string; site_count: number }>();
+  return results.map((row) => ({ label: row.label, siteCount: row.site_count }));
+}
+
+/**
+ * Lists the whole taxonomy alphabetically, including tags no site uses any more.
+ */
+export async function fetchTags(db: D1Database): Promise<TagRecord[]> {
+  const { results } = await db.prepare(LIST_TAGS).all<TagRow>();
+  return results.map(mapTagRow);
+}
+
+export async function fetchTagById(db: D1Database, id: number): Promise<TagRecord | null> {
+  const row = await db.prepare(TAG_BY_ID).bind(id).first<TagRow>();
+  return row ? mapTagRow(row) : null;
+}
+
+/**
+ * Maps each alias slug to the tag that owns it, with that tag's own slug.
+ */
+export async function fetchTagAliases(
+  db: D1Database,
+): Promise<Map<string, { tagId: number; tagSlug: string }>> {
+  const { results } = await db
+    .prepare(TAG_ALIAS_SLUGS)
+    .all<{ slug: string; tag_id: number; tag_slug: string }>();
+  return new Map(results.map((row) => [row.slug, { tagId: row.tag_id, tagSlug: row.tag_slug }]));
+}
+
+async function fetchTagSiteIds(db: D1Database, tagId: number): Promise<number[]> {
+  const { results } = await db.prepare(TAG_SITE_IDS).bind(tagId).all<{ site_id: number }>();
+  return results.map((row) => row.site_id);
+}
+
+/**
+ * Applies an admin edit to a tag. A renamed tag keeps its old spelling as an alias so existing
+ * links and imports still resolve, and every site carrying it gets a revision because the label
+ * in its snapshot changes.
+ */
+export async function updateTag(
+  db: D1Database,
+  tag: TagRecord,
+  update: TagUpdate,
+  change: SiteChange,
+): Promise<TagRecord | null> {
+  const slug = slugify(update.label);
+  const renamed = update.label !== tag.label;
+  const aliases = [...update.aliases];
+  if (slug !== tag.slug) {
+    aliases.push(tag.label);
+  }
+  const siteIds = renamed ? await fetchTagSiteIds(db, tag.id) : [];
+
+  await db.batch([
+    db.prepare(UPDATE_TAG).bind(update.label, slug, update.category, update.parentId, tag.id),
+    db.prepare(DELETE_TAG_ALIASES).bind(tag.id),
+    ...aliases.map((alias) => db.prepare(UPSERT_TAG_ALIAS).bind(slugify(alias), alias, tag.id)),
+    ...siteIds.map((siteId) => revisionStatement(db, siteId, 'update', change)),
+  ]);
+
+  return fetchTagById(db, tag.id);
+}
+
+/**
+ * Folds `source` into `target` in one batch: sites, aliases, and child tags move over, the
+ * source's own spelling becomes an alias, and the source is deleted. Pass `targetParentId` when
+ * the target sits below the source and has to move up to stay out of a cycle. Returns the ids
+ * of the sites that were retagged; each gets a revision.
+ */
+export async function mergeTags(
+  db: D1Database,
+  source: TagRecord,
+  target: TagRecord,
+  targetParentId: number | null,
+  change: SiteChange,
+): Promise<number[]> {
+  const siteIds = await fetchTagSiteIds(db, source.id);
+
+  await db.batch([
+    db.prepare(MOVE_SITE_TAGS).bind(source.id, target.id),
+    db.prepare(DELETE_TAG_LINKS).bind(source.id),
+    db.prepare(MOVE_TAG_ALIASES).bind(source.id, target.id),
+    db.prepare(UPSERT_TAG_ALIAS).bind(source.slug, source.label, target.id),
+    db.prepare(SET_TAG_PARENT).bind(target.id, targetParentId),
+    db.prepare(MOVE_TAG_CHILDREN).bind(source.id, target.id),
+    db.prepare(DELETE_TAG).bind(source.id),
+    ...siteIds.map((siteId) => revisionStatement(db, siteId, 'update', change)),
+  ]);
+
+  return siteIds;
+}
@@ -0,0 +1,118 @@
+import type { Principal } from '../types/auth';
+import type { VisionFormat } from '../config/vision';
+import type { VisionConfigVersion, VisionConfigVersionWithSource } from '../types/vision';
+
+type VisionConfigRow = {
+  id: number;
+  format: VisionFormat;
+  source?: string;
+  version_label: string | null;
+  hash: string;
+  actor: string;
+  actor_token_id: number | null;
+  note: string | null;
+  created_at: string;
+};
+
+export type VisionConfigInput = {
+  format: VisionFormat;
+  source: string;
+  versionLabel: string | null;
+  hash: string;
+  actor: Principal;
+  note?: string | null;
+};
+
+const VERSION_COLUMNS = `
+  id, format, version_label, hash, actor, actor_token_id, note, created_at
+`;
+
+const INSERT_VISION_CONFIG = `
+  INSERT INTO vision_configs (format, source, version_label, hash, actor, actor_token_id, note)
+  VALUES (?, ?, ?, ?, ?, ?, ?)
+  RETURNING ${VERSION_COLUMNS};
+`;
+
+const LATEST_VISION_CONFIG = `
+  SELECT ${VERSION_COLUMNS}, source
+  FROM vision_configs
+  ORDER BY id DESC
+  LIMIT 1;
+`;
+
+const VISION_CONFIG_BY_ID = `
+  SELECT ${VERSION_COLUMNS}, source
+  FROM vision_configs
+  WHERE id = ?;
+`;
+
+const LIST_VISION_CONFIGS = `
+  SELECT ${VERSION_COLUMNS}
+  FROM vision_configs
+  ORDER BY id DESC;
+`;
+
+function mapVersionRow(row: VisionConfigRow): VisionConfigVersion {
+  return {
+    id: row.id,
+    format: row.format,
+    versionLabel: row.version_label,
+    hash: row.hash,
+    actor: row.actor,
+    actorTokenId: row.actor_token_id,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+function mapVersionWithSource(row: VisionConfigRow): VisionConfigVersionWithSource {
+  return { ...mapVersionRow(row), source: row.source ?? '' };
+}
+
+/**
+ * Stores a validated vision document as the newest, and therefore active, version.
+ */
+export async function insertVisionConfig(
+  db: D1Database,
+  input: VisionConfigInput,
+): Promise<VisionConfigVersion> {
+  const row = await db
+    .prepare(INSERT_VISION_CONFIG)
+    .bind(
+      input.format,
+      input.source,
+      input.versionLabel,
+      input.hash,
+      input.actor.label,
+      input.actor.tokenId,
+      input.note ?? null,
+    )
+    .first<VisionConfigRow>();
+  if (!row) {
+    throw new Error('Vision config insert did not return a row.');
+  }
+  return mapVersionRow(row);
+}
+
+export async function fetchLatestVisionConfig(
+  db: D1Database,
+): Promise<VisionConfigVersionWithSource | null> {
+  const row = await db.prepare(LATEST_VISION_CONFIG).first<VisionConfigRow>();
+  return row ? mapVersionWithSource(row) : null;
+}
+
+export async function fetchVisionConfigById(
+  db: D1Database,
+  id: number,
+): Promise<VisionConfigVersionWithSource | null> {
+  const row = await db.prepare(VISION_CONFIG_BY_ID).bind(id).first<VisionConfigRow>();
+  return row ? mapVersionWithSource(row) : null;
+}
+
+/**
+ * Lists every stored version newest first, without the documents themselves.
+ */
+export async function listVisionConfigs(db: D1Database): Promise<VisionConfigVersion[]> {
+  const { results } = await db.prepare(LIST_VISION_CONFIGS).all<VisionConfigRow>();
+  return results.map(mapVersionRow);
+}
@@ -0,0 +1,115 @@
+import type { VisionAssessment, VisionAssessmentMetrics } from '../config/vision';
+import type { VisionHistoryOptions, VisionSnapshot } from '../types/vision';
+
+type VisionSnapshotRow = {
+  snapshot_date: string;
+  progress_score: number;
+  site_count: number;
+  total_tags: number;
+  average_tags_per_site: number;
+  coverage_ratio: number;
+  metrics: string;
+  created_at: string;
+};
+
+const SNAPSHOT_COLUMNS = `
+  snapshot_date, progress_score, site_count, total_tags, average_tags_per_site, coverage_ratio,
+  metrics, created_at
+`;
+
+// Re-running the job on the same day replaces that day's snapshot instead of adding another.
+const UPSERT_SNAPSHOT = `
+  INSERT INTO vision_snapshots (
+    snapshot_date, progress_score, site_count, total_tags, average_tags_per_site, coverage_ratio,
+    metrics
+  )
+  VALUES (?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT (snapshot_date) DO UPDATE SET
+    progress_score = excluded.progress_score,
+    site_count = excluded.site_count,
+    total_tags = excluded.total_tags,
+    average_tags_per_site = excluded.average_tags_per_site,
+    coverage_ratio = excluded.coverage_ratio,
+    metrics = excluded.metrics,
+    created_at = CURRENT_TIMESTAMP;
+`;
+
+const RECENT_SNAPSHOTS = `
+  SELECT ${SNAPSHOT_COLUMNS}
+  FROM vision_snapshots
+  ORDER BY snapshot_date DESC
+  LIMIT ?;
+`;
+
+function mapSnapshotRow(row: VisionSnapshotRow): VisionSnapshot {
+  return {
+    date: row.snapshot_date,
+    progressScore: row.progress_score,
+    siteCount: row.site_count,
+    totalTags: row.total_tags,
+    averageTagsPerSite: row.average_tags_per_site,
+    coverageRatio: row.coverage_ratio,
+    metrics: JSON.parse(row.metrics) as VisionAssessmentMetrics,
+    createdAt: row.created_at,
+  };
+}
+
+export async function upsertVisionSnapshot(
+  db: D1Database,
+  date: string,
+  assessment: VisionAssessment,
+): Promise<void> {
+  const { metrics } = assessment;
+  await db
+    .prepare(UPSERT_SNAPSHOT)
+    .bind(
+      date,
+      assessment.progressScore,
+      metrics.siteCount,
+      metrics.totalTags,
+      metrics.averageTagsPerSite,
+      metrics.coverageRatio,
+      JSON.stringify(metrics),
+    )
+    .run();
+}
+
+/**
+ * Lists snapshots oldest first, optionally bounded by inclusive dates.
+ */
+export async function queryVisionSnapshots(
+  db: D1Database,
+  options: VisionHistoryOptions,
+): Promise<VisionSnapshot[]> {
+  const clauses: string[] = [];
+  const bindings: unknown[] = [];
+  if (options.from) {
+    clauses.push('snapshot_date >= ?');
+    bindings.push(options.from);
+  }
+  if (options.to) {
+    clauses.push('snapshot_date <= ?');
+    bindings.push(options.to);
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT ${SNAPSHOT_COLUMNS}
+       FROM vision_snapshots ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+       ORDER BY snapshot_date ASC;`,
+    )
+    .bind(...bindings)
+    .all<VisionSnapshotRow>();
+  return results.map(mapSnapshotRow);
+}
+
+/**
+ * Loads the latest `count` snapshots, oldest first, for trend displays.
+ */
+export async function fetchRecentVisionSnapshots(
+  db: D1Database,
+  count: number,
+): Promise<VisionSnapshot[]> {
+  const { results } = await db.prepare(RECENT_SNAPSHOTS).bind(count).all<VisionSnapshotRow>();
+  return results.map(mapSnapshotRow).reverse();
+}
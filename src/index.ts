@@ -1,10 +1,108 @@
 import template from './templates/index.html';
 import type { SiteRecord } from './types/directory';
+import type { Env } from './types/env';
+import type { Story } from './types/story';
+import type { ActiveVision, DirectoryAssessment, VisionSnapshot } from './types/vision';
+import { stringify } from 'yaml';
+import type { VisionAssessment } from './config/vision';
+import { querySites } from './data/sites';
+import { queryStories } from './data/stories';
+import { fetchRecentVisionSnapshots } from './data/visionSnapshots';
 import {
-  assessDirectoryAgainstVision,
-  visionConfig,
-  VISION_YAML,
-} from './config/vision';
+  handleSiteCreate,
+  handleSiteDelete,
+  handleSiteGet,
+  handleSiteList,
+  handleSiteUpdate,
+} from './api/sites';
+import { handleRegionList, handleSitesGeoJson } from './api/geo';
+import { handleTagMerge, handleTagTree, handleTagUpdate } from './api/tags';
+import { handleSiteHistory, handleSiteRestore, handleSiteRevision } from './api/history';
+import { handleAuditList } from './api/audit';
+import { withDirectoryCache } from './api/cache';
+import {
+  countBrokenLinks,
+  handleLinkReport,
+  LINK_CHECK_CRON,
+  runLinkChecks,
+} from './api/linkHealth';
+import { handleDirectoryExport, handleDirectoryImport } from './api/bulk';
+import { FEED_FORMATS, handleFeed } from './api/feeds';
+import { handleRobots, handleSitemap } from './api/seo';
+import {
+  handleEventCalendar,
+  handleEventCreate,
+  handleEventDelete,
+  handleEventGet,
+  handleEventList,
+  handleEventUpdate,
+  handleSiteEventCalendar,
+} from './api/events';
+import {
+  handleStoryCreate,
+  handleStoryDelete,
+  handleStoryGet,
+  handleStoryList,
+  handleStoryUpdate,
+} from './api/stories';
+import {
+  assessDirectory,
+  handleSiteVision,
+  handleVisionHistory,
+  recordVisionSnapshot,
+} from './api/vision';
+import {
+  handleVisionUpdate,
+  handleVisionVersionGet,
+  handleVisionVersionList,
+  handleVisionVersionRestore,
+} from './api/visionConfig';
+import {
+  handleInterestExport,
+  handleInterestList,
+  handleInterestStatusUpdate,
+  handleInterestSubmission,
+  INTEREST_STATUSES,
+} from './api/interest';
+import { handleInterestConfirm, handleInterestUnsubscribe } from './api/interestConfirmation';
+import {
+  handleSubmissionCreate,
+  handleSubmissionGet,
+  handleSubmissionList,
+  handleSubmissionReview,
+  SUBMISSION_STATUSES,
+  type ReviewDecision,
+} from './api/submissions';
+import {
+  handleTokenCreate,
+  handleTokenList,
+  handleTokenRevoke,
+  isOrganizerRequest,
+} from './api/auth';
+import { handleOpenApi } from './api/openapi';
+import { renderSiteCard, renderStoryCard } from './pages/components';
+import { handleAdminLogin, handleAdminLogout, withPageRole } from './pages/admin';
+import { handleAdminLinksPage } from './pages/adminLinks';
+import { handleAdminInterestPage, handleAdminInterestUpdate } from './pages/adminInterest';
+import {
+  handleAdminSubmissionReview,
+  handleAdminSubmissionsPage,
+} from './pages/adminSubmissions';
+import { handleDirectoryPage } from './pages/directory';
+import { handleEventsPage } from './pages/events';
+import { renderNotFoundPage } from './pages/layout';
+import {
+  DEFAULT_PAGE_DESCRIPTION,
+  renderPageMeta,
+  siteListJsonLd,
+  websiteJsonLd,
+} from './pages/seo';
+import { handleSitePage } from './pages/site';
+import { handleSubmitPage } from './pages/submit';
+import { escapeAttribute, escapeHtml, formatList, renderTemplate } from './utils/html';
+import { withCors } from './utils/cors';
+import { jsonResponse } from './utils/http';
+import { createRouter, isApiPath, route, type QueryParameterDoc, type Route } from './router';
 
 type NextStep = {
   id: string;
@@ -18,79 +116,9 @@ type StatTile = {
   detail: string;
 };
 
-type InterestPayload = {
-  name: string | null;
-  email: string;
-  organization: string | null;
-  message: string | null;
-};
-
-export interface Env {
-  DB: D1Database;
-}
-
-const SITE_QUERY = `
-  SELECT
-    s.id,
-    s.name,
-    s.description,
-    s.website,
-    COALESCE(GROUP_CONCAT(t.label, '\u001f'), '') AS tag_string
-  FROM sites s
-  LEFT JOIN site_tags st ON st.site_id = s.id
-  LEFT JOIN tags t ON t.id = st.tag_id
-  GROUP BY s.id
-  ORDER BY s.created_at DESC, s.id DESC;
-`;
-
-const INSERT_INTEREST = `
-  INSERT INTO interest_signups (name, email, organization, message)
-  VALUES (?, ?, ?, ?);
-`;
-
-const INTEREST_CORS_HEADERS = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'POST,OPTIONS',
-  'Access-Control-Allow-Headers': 'content-type',
-};
-
-async function fetchSites(env: Env): Promise<SiteRecord[]> {
-  const { results } = await env.DB.prepare(SITE_QUERY).all<{
-    id: number;
-    name: string;
-    description: string | null;
-    website: string | null;
-    tag_string: string;
-  }>();
-
-  return results.map((row) => ({
-    ...row,
-    tags: row.tag_string ? row.tag_string.split('\u001f').filter(Boolean) : [],
-  }));
-}
-
-function renderSiteCard(site: SiteRecord): string {
-  const tagList = site.tags
-    .map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`)
-    .join('');
-  const description = site.description ? `<p>${escapeHtml(site.description)}</p>` : '';
-  const link = site.website
-    ? `<a href="${escapeAttribute(site.website)}" target="_blank" rel="noopener noreferrer">Visit site</a>`
-    : '';
-
-  return `
-    <article class="site-card">
-      <h2>${escapeHtml(site.name)}</h2>
-      ${description}
-      ${link}
-      <div class="tag-list">${tagList}</div>
-    </article>
-  `;
-}
-
 function buildStatTiles(
   sites: SiteRecord[],
-  metrics: ReturnType<typeof assessDirectoryAgainstVision>['metrics'],
+  metrics: VisionAssessment['metrics'],
 ): StatTile[] {
   const siteDetail = metrics.minimumSites
     ? metrics.siteCount >= metrics.minimumSites
@@ -160,7 +188,12 @@ function renderStatTiles(stats: StatTile[]): string {
     .join('\n');
 }
 
-function renderHighlightCards(sites: SiteRecord[]): string {
+const HIGHLIGHT_COUNT = 3;
+const TREND_DAYS = 30;
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 48;
+
+function renderHighlightCards(sites: SiteRecord[], vision: ActiveVision): string {
   if (!sites.length) {
     return `
       <div class="empty-state">
@@ -170,31 +203,58 @@ function renderHighlightCards(sites: SiteRecord[]): string {
     `.trim();
   }
 
-  return sites
-    .slice(0, 3)
-    .map(renderSiteCard)
-    .join('\n');
+  return sites.map((site) => renderSiteCard(site, vision)).join('\n');
 }
 
-function renderPage(sites: SiteRecord[]): string {
-  const assessment = assessDirectoryAgainstVision(sites);
+function renderStoryCards(stories: Story[]): string {
+  if (!stories.length) {
+    return `
+      <div class="empty-state">
+        No stories have been shared yet. Organizers can publish one for their cooperative through
+        the <code>/api/stories</code> endpoint.
+      </div>
+    `.trim();
+  }
+
+  return stories.map(renderStoryCard).join('\n');
+}
+
+function renderPage(
+  url: URL,
+  { sites, vision, assessment }: DirectoryAssessment,
+  highlights: SiteRecord[],
+  snapshots: VisionSnapshot[],
+  stories: Story[],
+  brokenLinks: number,
+): string {
   const statsMarkup = renderStatTiles(buildStatTiles(sites, assessment.metrics));
-  const highlightMarkup = renderHighlightCards(sites);
-  const nextSteps = determineNextSteps(sites);
+  const highlightMarkup = renderHighlightCards(highlights, vision);
+  const nextSteps = determineNextSteps(sites, assessment, brokenLinks);
   const nextStepsMarkup = renderNextSteps(nextSteps);
   const visionSummaryMarkup = renderVisionSummary(assessment);
 
-  return template
-    .replace('{{statTiles}}', statsMarkup)
-    .replace('{{highlightCards}}', highlightMarkup)
-    .replace('{{nextSteps}}', nextStepsMarkup)
-    .replace('{{visionSummary}}', visionSummaryMarkup);
+  return renderTemplate(template, {
+    head: renderPageMeta('SolarRoots Directory', {
+      url: new URL('/', url).toString(),
+      description: DEFAULT_PAGE_DESCRIPTION,
+      structuredData: [websiteJsonLd(url), siteListJsonLd(highlights, url)],
+    }),
+    statTiles: statsMarkup,
+    highlightCards: highlightMarkup,
+    storyCards: renderStoryCards(stories),
+    nextSteps: nextStepsMarkup,
+    visionSummary: visionSummaryMarkup,
+    visionTrend: renderVisionTrend(snapshots),
+  });
 }
 
-function determineNextSteps(sites: SiteRecord[]): NextStep[] {
+function determineNextSteps(
+  sites: SiteRecord[],
+  assessment: VisionAssessment,
+  brokenLinks: number,
+): NextStep[] {
   const steps: NextStep[] = [];
   const seen = new Set<string>();
-  const assessment = assessDirectoryAgainstVision(sites);
 
   const addStep = (step: NextStep) => {
     if (seen.has(step.id)) {
@@ -249,6 +309,44 @@ function determineNextSteps(sites: SiteRecord[]): NextStep[] {
       });
     }
 
+    if (brokenLinks) {
+      addStep({
+        id: 'fix-broken-links',
+        title: 'Fix broken website links',
+        description: `${brokenLinks} cooperative website${
+          brokenLinks === 1 ? ' has' : 's have'
+        } failed several checks in a row. Update or remove ${
+          brokenLinks === 1 ? 'it' : 'them'
+        } so visitors are not sent to dead pages.`,
+      });
+    }
+
+    const sitesMissingCoordinates = sites.filter(
+      (site) => site.latitude === null || site.longitude === null,
+    ).length;
+    if (sitesMissingCoordinates) {
+      addStep({
+        id: 'map-cooperatives',
+        title: 'Put cooperatives on the map',
+        description: `Add a region and coordinates for ${sitesMissingCoordinates} cooperativ${
+          sitesMissingCoordinates === 1 ? 'e' : 'es'
+        } so neighbours can find projects near them.`,
+      });
+    }
+
+    const sitesMissingMembership = sites.filter(
+      (site) => !site.ownershipModel || !site.howToJoin || !site.contacts.length,
+    ).length;
+    if (sitesMissingMembership) {
+      addStep({
+        id: 'share-membership-details',
+        title: 'Share how to get involved',
+        description: `Add an ownership model, joining instructions, and a contact for ${sitesMissingMembership} cooperativ${
+          sitesMissingMembership === 1 ? 'e' : 'es'
+        } so prospective members know where to start.`,
+      });
+    }
+
     const tagSet = new Set<string>();
     for (const site of sites) {
       for (const tag of site.tags) {
@@ -290,18 +388,23 @@ function determineNextSteps(sites: SiteRecord[]): NextStep[] {
         });
       }
     }
+
+    if (assessment.metrics.missingStorytellingFocus.length) {
+      addStep({
+        id: 'tell-cooperative-stories',
+        title: 'Tell cooperative stories',
+        description: `Publish stories about ${formatList(
+          assessment.metrics.missingStorytellingFocus,
+        )} so every storytelling focus in the vision has an example.`,
+      });
+    }
   }
 
   const evergreenSteps: NextStep[] = [
     {
-      id: 'extend-schema',
-      title: 'Extend the D1 schema',
-      description: 'Model events, contacts, or regional data to support richer cooperative profiles.',
-    },
-    {
-      id: 'add-authentication',
-      title: 'Introduce authenticated submissions',
-      description: 'Secure write operations so trusted organizers can submit updates directly from the site.',
+      id: 'invite-organizers',
+      title: 'Invite trusted organizers',
+      description: 'Issue organizer API tokens so partner cooperatives can keep their own entries up to date.',
     },
     {
       id: 'enhance-frontend',
@@ -339,7 +442,7 @@ function renderNextSteps(steps: NextStep[]): string {
     .join('\n');
 }
 
-function renderVisionSummary(assessment: ReturnType<typeof assessDirectoryAgainstVision>): string {
+function renderVisionSummary(assessment: VisionAssessment): string {
   const { metrics, progressScore } = assessment;
   const coveragePercent = Math.round(metrics.coverageRatio * 100);
   const minimumSitesLabel = metrics.minimumSites
@@ -352,6 +455,9 @@ function renderVisionSummary(assessment: ReturnType<typeof assessDirectoryAgains
   const missingTagsText = metrics.missingRecommendedTags.length
     ? `Missing tags: ${formatList(metrics.missingRecommendedTags)}.`
     : 'All recommended tags are represented.';
+  const storyText = metrics.missingStorytellingFocus.length
+    ? `No stories yet about ${formatList(metrics.missingStorytellingFocus)}.`
+    : 'Every storytelling focus has a story.';
 
   const lines = [
     `<p class="vision-score"><strong>${progressScore.toFixed(1)}% alignment</strong> with the SolarRoots vision targets.</p>`,
@@ -359,182 +465,966 @@ function renderVisionSummary(assessment: ReturnType<typeof assessDirectoryAgains
     `  <li>${escapeHtml(minimumSitesLabel)}.</li>`,
     `  <li>${escapeHtml(densityLine)}</li>`,
     `  <li>${coveragePercent}% of recommended tags present. ${escapeHtml(missingTagsText)}</li>`,
+    `  <li>${Math.round(metrics.storyCoverageRatio * 100)}% of storytelling focus areas covered. ${escapeHtml(storyText)}</li>`,
     '</ul>',
   ];
 
   return lines.join('\n').trim();
 }
 
-function formatList(items: readonly string[]): string {
-  if (items.length === 0) {
-    return '';
-  }
-
-  if (items.length === 1) {
-    return items[0];
-  }
-
-  if (items.length === 2) {
-    return `${items[0]} and ${items[1]}`;
+/**
+ * Draws the daily progress scores as an inline SVG sparkline on a fixed 0–100 scale, with the
+ * change between the first and last snapshot.
+ */
+function renderVisionTrend(snapshots: VisionSnapshot[]): string {
+  if (snapshots.length < 2) {
+    return '<p class="vision-trend-empty">The alignment trend appears once daily snapshots have been recorded.</p>';
   }
 
-  return `${items.slice(0, -1).join(', ')}, and ${items[items.length - 1]}`;
+  const step = SPARKLINE_WIDTH / (snapshots.length - 1);
+  const points = snapshots
+    .map((snapshot, index) => {
+      const x = (index * step).toFixed(1);
+      const y = (SPARKLINE_HEIGHT - (snapshot.progressScore / 100) * SPARKLINE_HEIGHT).toFixed(1);
+      return `${x},${y}`;
+    })
+    .join(' ');
+
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const delta = Number((last.progressScore - first.progressScore).toFixed(1));
+  const change =
+    delta === 0
+      ? 'No change'
+      : `${delta > 0 ? 'Up' : 'Down'} ${Math.abs(delta).toFixed(1)} points`;
+  const summary = `${change} since ${first.date} (${snapshots.length} daily snapshots).`;
+
+  return [
+    `<svg class="vision-sparkline" viewBox="0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}" width="${SPARKLINE_WIDTH}" height="${SPARKLINE_HEIGHT}" role="img" aria-label="${escapeAttribute(`Alignment trend: ${summary}`)}">`,
+    `  <polyline fill="none" stroke="currentColor" stroke-width="2" stroke-linejoin="round" points="${points}" />`,
+    '</svg>',
+    `<p class="vision-trend-summary">${escapeHtml(summary)}</p>`,
+  ].join('\n');
 }
 
-function escapeHtml(value: string): string {
-  return value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
+// PUT replaces every field of a story or event; PATCH only changes the fields sent.
+function updateMode(request: Request): 'replace' | 'merge' {
+  return request.method === 'PUT' ? 'replace' : 'merge';
 }
 
-function escapeAttribute(value: string): string {
-  return escapeHtml(value).replace(/`/g, '&#96;');
-}
-
-function sanitizeOptionalField(value: unknown, maxLength: number): string | null {
-  if (typeof value !== 'string') {
-    return null;
-  }
-
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return null;
-  }
-
-  return trimmed.slice(0, maxLength);
-}
-
-function validateInterestPayload(data: unknown):
-  | { valid: true; payload: InterestPayload }
-  | { valid: false; error: string } {
-  if (typeof data !== 'object' || data === null) {
-    return { valid: false, error: 'Invalid request body.' };
-  }
-
-  const record = data as Record<string, unknown>;
-  const emailRaw = typeof record.email === 'string' ? record.email.trim() : '';
-  if (!emailRaw) {
-    return { valid: false, error: 'Email is required.' };
-  }
-
-  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailPattern.test(emailRaw)) {
-    return { valid: false, error: 'Enter a valid email address.' };
-  }
-
-  const payload: InterestPayload = {
-    email: emailRaw.slice(0, 256),
-    name: sanitizeOptionalField(record.name, 120),
-    organization: sanitizeOptionalField(record.organization, 160),
-    message: sanitizeOptionalField(record.message, 1500),
-  };
-
-  return { valid: true, payload };
-}
-
-function jsonResponse(body: unknown, init?: ResponseInit): Response {
-  const headers = new Headers(init?.headers);
-  headers.set('content-type', 'application/json; charset=UTF-8');
-  headers.set('Access-Control-Allow-Origin', '*');
-  headers.set('Access-Control-Allow-Methods', 'POST,OPTIONS');
-  headers.set('Access-Control-Allow-Headers', 'content-type');
-  return new Response(JSON.stringify(body), { ...init, headers });
-}
-
-async function handleInterestSubmission(request: Request, env: Env): Promise<Response> {
-  let payload: InterestPayload;
-  try {
-    const data = await request.json();
-    const validation = validateInterestPayload(data);
-    if (!validation.valid) {
-      return jsonResponse({ message: validation.error }, { status: 400 });
-    }
-    payload = validation.payload;
-  } catch (error) {
-    console.error('Invalid interest submission payload', error);
-    return jsonResponse({ message: 'Unable to process request body.' }, { status: 400 });
-  }
-
-  try {
-    await env.DB.prepare(INSERT_INTEREST)
-      .bind(payload.name, payload.email, payload.organization, payload.message)
-      .run();
-  } catch (error) {
-    console.error('Failed to store interest submission', error);
-    return jsonResponse({ message: 'Failed to record interest right now.' }, { status: 500 });
-  }
-
-  return jsonResponse({ message: 'Interest recorded.' }, { status: 201 });
-}
-
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const url = new URL(request.url);
-
-    if (url.pathname === '/api/interest') {
-      if (request.method === 'OPTIONS') {
-        return new Response(null, {
-          status: 204,
-          headers: { ...INTEREST_CORS_HEADERS, Allow: 'POST, OPTIONS' },
-        });
-      }
+const LIMIT_QUERY: QueryParameterDoc = {
+  name: 'limit',
+  description: 'Page size.',
+  schema: { type: 'integer', minimum: 1 },
+};
+const CURSOR_QUERY: QueryParameterDoc = {
+  name: 'cursor',
+  description: '`nextCursor` from the previous page.',
+};
+const DATE_QUERY = (name: string, description: string): QueryParameterDoc => ({
+  name,
+  description,
+  schema: { type: 'string', format: 'date' },
+});
+const SITE_QUERY: QueryParameterDoc[] = [
+  { name: 'q', description: 'Searches names and descriptions.' },
+  {
+    name: 'tag',
+    description: 'Tag slug or alias; repeat or separate with commas for several.',
+    schema: { type: 'array', items: { type: 'string' } },
+  },
+  {
+    name: 'tagMode',
+    description: 'Whether sites need any or all of the tags.',
+    schema: { enum: ['any', 'all'] },
+  },
+  { name: 'region', description: 'Exact region.' },
+  { name: 'near', description: 'Centre of a radius search, as `latitude,longitude`.' },
+  { name: 'radiusKm', description: 'Radius around `near`.', schema: { type: 'number' } },
+  { name: 'sort', description: 'Sort order.', schema: { enum: ['newest', 'name'] } },
+  CURSOR_QUERY,
+  LIMIT_QUERY,
+];
+/** Signup filters shared by the list and the export; see `parseInterestQuery`. */
+const INTEREST_QUERY: QueryParameterDoc[] = [
+  DATE_QUERY('from', 'Signed up on or after this day.'),
+  DATE_QUERY('to', 'Signed up on or before this day.'),
+  { name: 'organization', description: 'Organization contains this text.' },
+  { name: 'q', description: 'Searches names, emails, organizations, and messages.' },
+  {
+    name: 'status',
+    description: 'Only signups with this status.',
+    schema: { enum: INTEREST_STATUSES },
+  },
+  {
+    name: 'confirmed',
+    description: 'Only confirmed, or unconfirmed, signups.',
+    schema: { type: 'boolean' },
+  },
+];
+const FORMAT_QUERY: QueryParameterDoc = {
+  name: 'format',
+  description: 'File format; defaults to CSV.',
+  schema: { enum: ['csv', 'json'] },
+};
+const TOKEN_QUERY: QueryParameterDoc = {
+  name: 'token',
+  description: 'Token from the confirmation email.',
+  required: true,
+};
+const CONFIRMATION_RESPONSE = {
+  'application/json': { $ref: '#/components/schemas/Message' },
+  'text/html': { type: 'string' },
+};
 
-      if (request.method === 'POST') {
-        return handleInterestSubmission(request, env);
+/**
+ * Every route the worker serves. Routes under `/api/` carry docs for `/api/openapi.json`;
+ * HTML pages, feeds, and calendars do not.
+ */
+const routes: Route[] = [
+  route(
+    'GET',
+    '/api/openapi.json',
+    { docs: { summary: 'This API description.', tag: 'Meta' } },
+    ({ url }) => handleOpenApi(routes, url),
+  ),
+
+  route(
+    'GET',
+    '/api/sites',
+    {
+      docs: {
+        summary: 'List and search cooperatives. Private contact details need an organizer token.',
+        tag: 'Sites',
+        query: SITE_QUERY,
+        response: 'SitePage',
+      },
+    },
+    async ({ request, env, url, ctx }) => {
+      // Organizers see private contact details, so only anonymous listings are shared.
+      if (await isOrganizerRequest(request, env)) {
+        return handleSiteList(url, env, true);
       }
-
-      return jsonResponse(
-        { message: 'Method Not Allowed' },
-        { status: 405, headers: { ...INTEREST_CORS_HEADERS, Allow: 'POST, OPTIONS' } },
-      );
-    }
-
-    if (url.pathname === '/api/sites') {
-      const sites = await fetchSites(env);
-      return Response.json(sites);
-    }
-
-    if (url.pathname === '/api/next-steps') {
-      const sites = await fetchSites(env);
-      const nextSteps = determineNextSteps(sites);
-      return Response.json({
-        nextSteps,
-        generatedAt: new Date().toISOString(),
+      return withDirectoryCache(request, env, ctx, () => handleSiteList(url, env, false), {
+        vary: 'Authorization, Cookie',
       });
-    }
+    },
+  ),
+  route(
+    'POST',
+    '/api/sites',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'Add a cooperative.',
+        tag: 'Sites',
+        body: 'SiteInput',
+        status: 201,
+        response: 'Site',
+      },
+    },
+    ({ request, env }, principal) => handleSiteCreate(request, env, principal),
+  ),
+  route(
+    'GET',
+    '/api/sites.geojson',
+    {
+      docs: {
+        summary: 'Cooperatives with coordinates as GeoJSON points.',
+        tag: 'Sites',
+        query: SITE_QUERY.filter((query) => query.name !== 'cursor' && query.name !== 'limit'),
+        response: { 'application/geo+json': { $ref: '#/components/schemas/FeatureCollection' } },
+      },
+    },
+    ({ env, url }) => handleSitesGeoJson(url, env),
+  ),
+  route(
+    'GET',
+    '/api/regions',
+    {
+      docs: {
+        summary: 'Regions with their site counts and map centres.',
+        tag: 'Sites',
+        response: 'RegionList',
+      },
+    },
+    ({ env }) => handleRegionList(env),
+  ),
+  route(
+    'GET',
+    '/api/sites/:id(\\d+)',
+    {
+      docs: {
+        summary: 'One cooperative. Private contact details need an organizer token.',
+        tag: 'Sites',
+        response: 'Site',
+      },
+    },
+    async ({ request, env, params }) =>
+      handleSiteGet(env, Number(params.id), await isOrganizerRequest(request, env)),
+  ),
+  route(
+    'PUT',
+    '/api/sites/:id(\\d+)',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'Replace a cooperative.',
+        tag: 'Sites',
+        body: 'SiteInput',
+        response: 'Site',
+      },
+    },
+    ({ request, env, params }, principal) =>
+      handleSiteUpdate(request, env, Number(params.id), 'replace', principal),
+  ),
+  route(
+    'PATCH',
+    '/api/sites/:id(\\d+)',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'Change some fields of a cooperative.',
+        tag: 'Sites',
+        body: 'SiteInput',
+        response: 'Site',
+      },
+    },
+    ({ request, env, params }, principal) =>
+      handleSiteUpdate(request, env, Number(params.id), 'merge', principal),
+  ),
+  route(
+    'DELETE',
+    '/api/sites/:id(\\d+)',
+    {
+      role: 'moderator',
+      docs: { summary: 'Remove a cooperative.', tag: 'Sites', response: 'Site' },
+    },
+    ({ env, params }, principal) => handleSiteDelete(env, Number(params.id), principal),
+  ),
+  route(
+    'GET',
+    '/api/sites/:id(\\d+)/vision',
+    {
+      docs: {
+        summary: 'How one cooperative measures up to the vision.',
+        tag: 'Vision',
+        response: 'VisionAssessment',
+      },
+    },
+    ({ env, params }) => handleSiteVision(env, Number(params.id)),
+  ),
+  route(
+    'GET',
+    '/api/sites/:id(\\d+)/history',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'Every revision of a cooperative, newest first.',
+        tag: 'History',
+        response: 'SiteHistory',
+      },
+    },
+    ({ env, params }) => handleSiteHistory(env, Number(params.id)),
+  ),
+  route(
+    'GET',
+    '/api/sites/:id(\\d+)/history/:revision(\\d+)',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'One revision and what it changed.',
+        tag: 'History',
+        query: [
+          {
+            name: 'compare',
+            description: 'Revision to diff against; defaults to the one before.',
+            schema: { type: 'integer', minimum: 0 },
+          },
+        ],
+        response: 'SiteRevisionDiff',
+      },
+    },
+    ({ env, url, params }) =>
+      handleSiteRevision(url, env, Number(params.id), Number(params.revision)),
+  ),
+  route(
+    'POST',
+    '/api/sites/:id(\\d+)/history/:revision(\\d+)/restore',
+    {
+      role: 'moderator',
+      docs: {
+        summary: 'Restore a cooperative to an earlier revision.',
+        tag: 'History',
+        response: 'Site',
+      },
+    },
+    ({ env, params }, principal) =>
+      handleSiteRestore(env, Number(params.id), Number(params.revision), principal),
+  ),
+
+  route(
+    'GET',
+    '/api/tags',
+    {
+      docs: {
+        summary: 'The tag hierarchy with aliases and site counts.',
+        tag: 'Tags',
+        response: 'TagTree',
+      },
+    },
+    ({ env }) => handleTagTree(env),
+  ),
+  route(
+    'PATCH',
+    '/api/tags/:id(\\d+)',
+    {
+      role: 'admin',
+      docs: {
+        summary: 'Rename, recategorise, or move a tag.',
+        tag: 'Tags',
+        body: 'TagUpdate',
+        response: 'Tag',
+      },
+    },
+    ({ request, env, params }, principal) =>
+      handleTagUpdate(request, env, Number(params.id), principal),
+  ),
+  route(
+    'POST',
+    '/api/tags/:id(\\d+)/merge',
+    {
+      role: 'admin',
+      docs: {
+        summary: 'Merge a tag into another, retagging its sites.',
+        tag: 'Tags',
+        body: 'TagMerge',
+        response: 'TagMergeResult',
+      },
+    },
+    ({ request, env, params }, principal) =>
+      handleTagMerge(request, env, Number(params.id), principal),
+  ),
 
-    if (url.pathname === '/api/vision') {
-      const sites = await fetchSites(env);
-      const assessment = assessDirectoryAgainstVision(sites);
-      return Response.json({
-        vision: {
-          yaml: VISION_YAML,
-          config: visionConfig,
+  route(
+    'GET',
+    '/api/stories',
+    {
+      docs: {
+        summary: 'Published stories, newest first.',
+        tag: 'Stories',
+        query: [
+          {
+            name: 'siteId',
+            description: 'Only stories about this site.',
+            schema: { type: 'integer' },
+          },
+          { name: 'focus', description: 'Only stories with this storytelling focus.' },
+          LIMIT_QUERY,
+        ],
+        response: 'StoryList',
+      },
+    },
+    ({ env, url }) => handleStoryList(url, env),
+  ),
+  route(
+    'POST',
+    '/api/stories',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'Publish a story.',
+        tag: 'Stories',
+        body: 'StoryInput',
+        status: 201,
+        response: 'Story',
+      },
+    },
+    ({ request, env }, principal) => handleStoryCreate(request, env, principal),
+  ),
+  route(
+    'GET',
+    '/api/stories/:id(\\d+)',
+    { docs: { summary: 'One story.', tag: 'Stories', response: 'Story' } },
+    ({ env, params }) => handleStoryGet(env, Number(params.id)),
+  ),
+  route(
+    ['PUT', 'PATCH'],
+    '/api/stories/:id(\\d+)',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'Edit a story. PUT replaces every field; PATCH changes the fields sent.',
+        tag: 'Stories',
+        body: 'StoryInput',
+        response: 'Story',
+      },
+    },
+    ({ request, env, params }, principal) =>
+      handleStoryUpdate(request, env, Number(params.id), updateMode(request), principal),
+  ),
+  route(
+    'DELETE',
+    '/api/stories/:id(\\d+)',
+    { role: 'moderator', docs: { summary: 'Remove a story.', tag: 'Stories', response: 'Story' } },
+    ({ env, params }, principal) => handleStoryDelete(env, Number(params.id), principal),
+  ),
+
+  route(
+    'GET',
+    '/api/events',
+    {
+      docs: {
+        summary: 'Events, upcoming ones soonest first.',
+        tag: 'Events',
+        query: [
+          {
+            name: 'siteId',
+            description: 'Only events hosted by this site.',
+            schema: { type: 'integer' },
+          },
+          {
+            name: 'when',
+            description: 'Which events to list.',
+            schema: { enum: ['upcoming', 'past', 'all'] },
+          },
+          LIMIT_QUERY,
+        ],
+        response: 'EventList',
+      },
+    },
+    ({ env, url }) => handleEventList(url, env),
+  ),
+  route(
+    'POST',
+    '/api/events',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'Add an event.',
+        tag: 'Events',
+        body: 'EventInput',
+        status: 201,
+        response: 'Event',
+      },
+    },
+    ({ request, env }, principal) => handleEventCreate(request, env, principal),
+  ),
+  route(
+    'GET',
+    '/api/events/:id(\\d+)',
+    { docs: { summary: 'One event.', tag: 'Events', response: 'Event' } },
+    ({ env, params }) => handleEventGet(env, Number(params.id)),
+  ),
+  route(
+    ['PUT', 'PATCH'],
+    '/api/events/:id(\\d+)',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'Edit an event. PUT replaces every field; PATCH changes the fields sent.',
+        tag: 'Events',
+        body: 'EventInput',
+        response: 'Event',
+      },
+    },
+    ({ request, env, params }, principal) =>
+      handleEventUpdate(request, env, Number(params.id), updateMode(request), principal),
+  ),
+  route(
+    'DELETE',
+    '/api/events/:id(\\d+)',
+    { role: 'moderator', docs: { summary: 'Cancel an event.', tag: 'Events', response: 'Event' } },
+    ({ env, params }, principal) => handleEventDelete(env, Number(params.id), principal),
+  ),
+
+  route(
+    'POST',
+    '/api/submissions',
+    {
+      docs: {
+        summary: 'Propose a new cooperative, or changes to a listed one, for review.',
+        tag: 'Submissions',
+        body: 'SubmissionInput',
+        status: 202,
+        response: 'SubmissionAccepted',
+      },
+    },
+    ({ request, env, url }) => handleSubmissionCreate(request, url, env),
+  ),
+  route(
+    'GET',
+    '/api/submissions',
+    {
+      role: 'moderator',
+      docs: {
+        summary: 'The review queue.',
+        tag: 'Submissions',
+        query: [
+          {
+            name: 'status',
+            description: 'Only submissions with this status.',
+            schema: { enum: SUBMISSION_STATUSES },
+          },
+          CURSOR_QUERY,
+          LIMIT_QUERY,
+        ],
+        response: 'SubmissionPage',
+      },
+    },
+    ({ env, url }) => handleSubmissionList(url, env),
+  ),
+  route(
+    'GET',
+    '/api/submissions/:id(\\d+)',
+    {
+      role: 'moderator',
+      docs: { summary: 'One submission.', tag: 'Submissions', response: 'Submission' },
+    },
+    ({ env, params }) => handleSubmissionGet(env, Number(params.id)),
+  ),
+  route(
+    'POST',
+    '/api/submissions/:id(\\d+)/:decision(approve|reject)',
+    {
+      role: 'moderator',
+      docs: {
+        summary: 'Approve a submission into the directory, or reject it with a reason.',
+        tag: 'Submissions',
+        body: 'SubmissionReview',
+        response: 'SubmissionReviewResult',
+      },
+    },
+    ({ request, env, params }, principal) =>
+      handleSubmissionReview(
+        request,
+        env,
+        Number(params.id),
+        params.decision as ReviewDecision,
+        principal,
+      ),
+  ),
+
+  route(
+    'POST',
+    '/api/interest',
+    {
+      docs: {
+        summary: 'Register interest and get a confirmation email.',
+        tag: 'Interest',
+        body: 'InterestInput',
+        status: 201,
+        response: 'Message',
+      },
+    },
+    ({ request, env, url }) => handleInterestSubmission(request, url, env),
+  ),
+  route(
+    'GET',
+    '/api/interest',
+    {
+      role: 'moderator',
+      docs: {
+        summary: 'Interest signups, newest first.',
+        tag: 'Interest',
+        query: [...INTEREST_QUERY, CURSOR_QUERY, LIMIT_QUERY],
+        response: 'InterestPage',
+      },
+    },
+    ({ env, url }) => handleInterestList(url, env),
+  ),
+  route(
+    'GET',
+    '/api/interest/confirm',
+    {
+      docs: {
+        summary: 'Confirm a signup from its email link.',
+        tag: 'Interest',
+        query: [TOKEN_QUERY],
+        response: CONFIRMATION_RESPONSE,
+      },
+    },
+    ({ request, env, url }) => handleInterestConfirm(request, url, env),
+  ),
+  route(
+    ['GET', 'POST', 'DELETE'],
+    '/api/interest/unsubscribe',
+    {
+      docs: {
+        summary: 'Unsubscribe from its email link. GET shows what POST or DELETE would remove.',
+        tag: 'Interest',
+        query: [TOKEN_QUERY],
+        response: CONFIRMATION_RESPONSE,
+      },
+    },
+    ({ request, env, url }) => handleInterestUnsubscribe(request, url, env),
+  ),
+  route(
+    'GET',
+    '/api/interest/export',
+    {
+      role: 'moderator',
+      docs: {
+        summary: 'Download signups matching the list filters.',
+        tag: 'Interest',
+        query: [FORMAT_QUERY, ...INTEREST_QUERY],
+        response: {
+          'text/csv': { type: 'string' },
+          'application/json': { $ref: '#/components/schemas/InterestExport' },
         },
-        assessment,
-        generatedAt: new Date().toISOString(),
-      });
-    }
+      },
+    },
+    ({ env, url }) => handleInterestExport(url, env),
+  ),
+  route(
+    'PATCH',
+    '/api/interest/:id(\\d+)',
+    {
+      role: 'moderator',
+      docs: {
+        summary: 'Move a signup through follow-up.',
+        tag: 'Interest',
+        body: 'InterestStatusUpdate',
+        response: 'InterestSignup',
+      },
+    },
+    ({ request, env, params }, principal) =>
+      handleInterestStatusUpdate(request, env, Number(params.id), principal),
+  ),
 
-    if (url.pathname !== '/' && url.pathname !== '/index.html') {
-      return new Response('Not Found', { status: 404 });
-    }
+  route(
+    'POST',
+    '/api/import',
+    {
+      role: 'moderator',
+      docs: {
+        summary: 'Create and update cooperatives from a CSV or JSON file. Dry runs by default.',
+        tag: 'Bulk',
+        query: [
+          FORMAT_QUERY,
+          {
+            name: 'dryRun',
+            description: 'Report without writing; defaults to true.',
+            schema: { type: 'boolean' },
+          },
+        ],
+        body: {
+          'text/csv': { type: 'string' },
+          'application/json': { type: 'array', items: { $ref: '#/components/schemas/SiteInput' } },
+        },
+        response: 'ImportReport',
+      },
+    },
+    ({ request, env, url }, principal) => handleDirectoryImport(request, url, env, principal),
+  ),
+  route(
+    'GET',
+    '/api/export',
+    {
+      role: 'organizer',
+      docs: {
+        summary: 'Download every cooperative.',
+        tag: 'Bulk',
+        query: [FORMAT_QUERY],
+        response: {
+          'text/csv': { type: 'string' },
+          'application/json': { $ref: '#/components/schemas/SiteExport' },
+        },
+      },
+    },
+    ({ env, url }) => handleDirectoryExport(url, env),
+  ),
+
+  route(
+    'GET',
+    '/api/admin/tokens',
+    { role: 'admin', docs: { summary: 'Issued API tokens.', tag: 'Admin', response: 'TokenList' } },
+    ({ env }) => handleTokenList(env),
+  ),
+  route(
+    'POST',
+    '/api/admin/tokens',
+    {
+      role: 'admin',
+      docs: {
+        summary: 'Issue an API token.',
+        tag: 'Admin',
+        body: 'TokenInput',
+        status: 201,
+        response: 'IssuedToken',
+      },
+    },
+    ({ request, env }, principal) => handleTokenCreate(request, env, principal),
+  ),
+  route(
+    'DELETE',
+    '/api/admin/tokens/:id(\\d+)',
+    { role: 'admin', docs: { summary: 'Revoke an API token.', tag: 'Admin', response: 'Token' } },
+    ({ env, params }, principal) => handleTokenRevoke(env, Number(params.id), principal),
+  ),
+  route(
+    'GET',
+    '/api/admin/link-health',
+    {
+      role: 'moderator',
+      docs: {
+        summary: 'Results of the scheduled website checks.',
+        tag: 'Admin',
+        response: 'LinkReport',
+      },
+    },
+    ({ env }) => handleLinkReport(env),
+  ),
+  route(
+    'GET',
+    '/api/admin/audit',
+    {
+      role: 'admin',
+      docs: {
+        summary: 'The audit log, newest first.',
+        tag: 'Admin',
+        query: [
+          { name: 'action', description: 'Only entries for this action, such as `site.update`.' },
+          { name: 'targetType', description: 'Only entries about this kind of record.' },
+          { name: 'targetId', description: 'Only entries about this record.' },
+          CURSOR_QUERY,
+          LIMIT_QUERY,
+        ],
+        response: 'AuditPage',
+      },
+    },
+    ({ env, url }) => handleAuditList(url, env),
+  ),
 
+  route(
+    'GET',
+    '/api/next-steps',
+    {
+      docs: {
+        summary: 'Suggested next steps for growing the directory.',
+        tag: 'Vision',
+        response: 'NextSteps',
+      },
+    },
+    ({ request, env, ctx }) =>
+      withDirectoryCache(request, env, ctx, async () => {
+        const [{ sites, assessment }, brokenLinks] = await Promise.all([
+          assessDirectory(env),
+          countBrokenLinks(env.DB),
+        ]);
+        const nextSteps = determineNextSteps(sites, assessment, brokenLinks);
+        return Response.json({
+          nextSteps,
+          generatedAt: new Date().toISOString(),
+        });
+      }),
+  ),
+  route(
+    'GET',
+    '/api/vision',
+    {
+      docs: {
+        summary: 'The active vision and how the directory measures up.',
+        tag: 'Vision',
+        response: 'Vision',
+      },
+    },
+    ({ request, env, ctx }) =>
+      withDirectoryCache(request, env, ctx, async () => {
+        const { vision, assessment } = await assessDirectory(env);
+        return Response.json({
+          vision: {
+            version: vision.config.version,
+            hash: vision.hash,
+            storedVersion: vision.storedVersion,
+            format: vision.format,
+            source: vision.source,
+            yaml: vision.format === 'yaml' ? vision.source : stringify(vision.config),
+            config: vision.config,
+          },
+          assessment,
+          generatedAt: new Date().toISOString(),
+        });
+      }),
+  ),
+  route(
+    'PUT',
+    '/api/vision',
+    {
+      role: 'admin',
+      docs: {
+        summary: 'Store and activate a new vision config.',
+        tag: 'Vision',
+        body: { 'application/yaml': { type: 'string' }, 'application/json': { type: 'object' } },
+        response: 'VisionVersionActivated',
+      },
+    },
+    ({ request, env }, principal) => handleVisionUpdate(request, env, principal),
+  ),
+  route(
+    'GET',
+    '/api/vision/history',
+    {
+      docs: {
+        summary: 'Daily snapshots of the vision assessment.',
+        tag: 'Vision',
+        query: [
+          DATE_QUERY('from', 'First day to include.'),
+          DATE_QUERY('to', 'Last day to include.'),
+        ],
+        response: 'VisionHistory',
+      },
+    },
+    ({ env, url }) => handleVisionHistory(url, env),
+  ),
+  route(
+    'GET',
+    '/api/vision/versions',
+    {
+      role: 'admin',
+      docs: {
+        summary: 'Stored vision config versions, newest first.',
+        tag: 'Vision',
+        response: 'VisionVersionList',
+      },
+    },
+    ({ env }) => handleVisionVersionList(env),
+  ),
+  route(
+    'GET',
+    '/api/vision/versions/:id(\\d+)',
+    {
+      role: 'admin',
+      docs: {
+        summary: 'One stored vision config with its source.',
+        tag: 'Vision',
+        response: 'VisionVersionSource',
+      },
+    },
+    ({ env, params }) => handleVisionVersionGet(env, Number(params.id)),
+  ),
+  route(
+    'POST',
+    '/api/vision/versions/:id(\\d+)/restore',
+    {
+      role: 'admin',
+      docs: {
+        summary: 'Activate a copy of an earlier vision config.',
+        tag: 'Vision',
+        response: 'VisionVersionActivated',
+      },
+    },
+    ({ env, params }, principal) => handleVisionVersionRestore(env, Number(params.id), principal),
+  ),
+
+  route(['GET', 'POST'], '/admin/login', {}, ({ request, env, url }) =>
+    handleAdminLogin(request, url, env),
+  ),
+  route(['GET', 'POST'], '/admin/logout', {}, () => handleAdminLogout()),
+  route('GET', '/admin/interest', {}, ({ request, env, url }) =>
+    withPageRole(request, url, env, 'moderator', () => handleAdminInterestPage(url, env)),
+  ),
+  route('POST', '/admin/interest/:id(\\d+)', {}, ({ request, env, url, params }) =>
+    withPageRole(request, url, env, 'moderator', (principal) =>
+      handleAdminInterestUpdate(request, url, env, Number(params.id), principal),
+    ),
+  ),
+  route('GET', '/admin/links', {}, ({ request, env, url }) =>
+    withPageRole(request, url, env, 'moderator', () => handleAdminLinksPage(env)),
+  ),
+  route('GET', '/admin/submissions', {}, ({ request, env, url }) =>
+    withPageRole(request, url, env, 'moderator', () => handleAdminSubmissionsPage(url, env)),
+  ),
+  route('POST', '/admin/submissions/:id(\\d+)', {}, ({ request, env, url, params }) =>
+    withPageRole(request, url, env, 'moderator', (principal) =>
+      handleAdminSubmissionReview(request, url, env, Number(params.id), principal),
+    ),
+  ),
+
+  route('GET', '/directory', {}, ({ env, url }) => handleDirectoryPage(url, env)),
+  route('GET', '/events', {}, ({ env, url }) => handleEventsPage(url, env)),
+  route('GET', '/events.ics', {}, ({ env, url }) => handleEventCalendar(url, env)),
+  route('GET', '/submit', {}, ({ env, url }) => handleSubmitPage(url, env)),
+  // Profile URLs carry a name slug after the id, such as `/sites/12-sunny-hill-solar`.
+  route('GET', '/sites/:site(\\d+(-[^/]*)?)', {}, ({ request, env, url, params }) =>
+    handleSitePage(request, url, env, parseInt(params.site, 10)),
+  ),
+  route('GET', '/sites/:site(\\d+(-[^/]*)?)/events.ics', {}, ({ env, url, params }) =>
+    handleSiteEventCalendar(url, env, parseInt(params.site, 10)),
+  ),
+  route('GET', '/sitemap.xml', {}, ({ request, env, url, ctx }) =>
+    withDirectoryCache(request, env, ctx, () => handleSitemap(url, env)),
+  ),
+  route('GET', '/robots.txt', {}, ({ url }) => handleRobots(url)),
+  ...Object.keys(FEED_FORMATS).map((feedPath) =>
+    route('GET', feedPath, {}, ({ request, env, url, ctx }) =>
+      withDirectoryCache(request, env, ctx, () => handleFeed(url, env, feedPath)),
+    ),
+  ),
+  ...['/', '/index.html'].map((path) =>
+    route('GET', path, {}, ({ request, env, url, ctx }) => handleHomePage(request, env, url, ctx)),
+  ),
+];
+
+function handleHomePage(
+  request: Request,
+  env: Env,
+  url: URL,
+  ctx: ExecutionContext,
+): Promise<Response> {
+  return withDirectoryCache(request, env, ctx, async () => {
     try {
-      const sites = await fetchSites(env);
-      const html = renderPage(sites);
+      const [directory, highlights, snapshots, stories, brokenLinks] = await Promise.all([
+        assessDirectory(env),
+        querySites(env.DB, { sort: 'newest', limit: HIGHLIGHT_COUNT }),
+        fetchRecentVisionSnapshots(env.DB, TREND_DAYS),
+        queryStories(env.DB, { limit: HIGHLIGHT_COUNT }),
+        countBrokenLinks(env.DB),
+      ]);
+      const html = renderPage(url, directory, highlights.sites, snapshots, stories, brokenLinks);
       return new Response(html, {
-        headers: {
-          'content-type': 'text/html; charset=UTF-8',
-          'cache-control': 'no-store',
-        },
+        headers: { 'content-type': 'text/html; charset=UTF-8' },
       });
     } catch (error) {
       console.error('Failed to load page', error);
       return new Response('Internal Server Error', { status: 500 });
     }
+  });
+}
+
+const router = createRouter(routes, (url) =>
+  isApiPath(url.pathname)
+    ? jsonResponse({ message: 'Not Found' }, { status: 404 })
+    : renderNotFoundPage(),
+);
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+    const response = await router.handle(request, env, ctx);
+    return isApiPath(url.pathname) ? withCors(request, env, response) : response;
+  },
+
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    if (controller.cron === LINK_CHECK_CRON) {
+      ctx.waitUntil(
+        runLinkChecks(env, new Date(controller.scheduledTime)).then(
+          (summary) => console.log(`Checked ${summary.checked} websites; ${summary.failed} failed`),
+          (error) => {
+            console.error('Failed to run website link checks', error);
+            throw error;
+          },
+        ),
+      );
+      return;
+    }
+
+    const date = new Date(controller.scheduledTime).toISOString().slice(0, 10);
+    ctx.waitUntil(
+      recordVisionSnapshot(env, date).catch((error) => {
+        console.error(`Failed to record vision snapshot for ${date}`, error);
+        throw error;
+      }),
+    );
   },
 };
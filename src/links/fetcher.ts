@@ -0,0 +1,68 @@
+import type { LinkCheckResult } from '../types/linkHealth';
+
+/**
+ * Whatever sends the link checker's requests. Deployments use `fetch`; tests pass a stub to
+ * `runLinkChecks` so no real website is contacted.
+ */
+export type LinkFetcher = (request: Request) => Promise<Response>;
+
+export const defaultLinkFetcher: LinkFetcher = (request) => fetch(request);
+
+const MAX_REDIRECTS = 5;
+const CHECK_TIMEOUT_MS = 10_000;
+const USER_AGENT = 'SolarRoots directory link checker';
+
+function linkRequest(url: string, method: 'HEAD' | 'GET'): Request {
+  return new Request(url, {
+    method,
+    redirect: 'manual',
+    headers: { 'User-Agent': USER_AGENT },
+    signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+  });
+}
+
+async function send(fetcher: LinkFetcher, url: string): Promise<Response> {
+  let response = await fetcher(linkRequest(url, 'HEAD'));
+  // Some servers refuse HEAD; ask again with GET before calling the link broken.
+  if (response.status === 405 || response.status === 501) {
+    await response.body?.cancel();
+    response = await fetcher(linkRequest(url, 'GET'));
+  }
+  await response.body?.cancel();
+  return response;
+}
+
+/**
+ * Requests `url`, following up to five redirects by hand so the final target can be recorded.
+ * Any response below 400 at the end of the chain counts as working.
+ */
+export async function checkLink(url: string, fetcher: LinkFetcher): Promise<LinkCheckResult> {
+  let current = url;
+  let redirectUrl: string | null = null;
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+      const response = await send(fetcher, current);
+      const location = response.headers.get('Location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        current = new URL(location, current).toString();
+        redirectUrl = current;
+        continue;
+      }
+      return {
+        statusCode: response.status,
+        redirectUrl,
+        error: response.status < 400 ? null : `Responded with HTTP ${response.status}.`,
+        ok: response.status < 400,
+      };
+    }
+    return { statusCode: null, redirectUrl, error: `More than ${MAX_REDIRECTS} redirects.`, ok: false };
+  } catch (error) {
+    const message =
+      error instanceof Error && error.name === 'TimeoutError'
+        ? `No response within ${CHECK_TIMEOUT_MS / 1000} seconds.`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    return { statusCode: null, redirectUrl, error: message, ok: false };
+  }
+}
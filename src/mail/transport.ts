@@ -0,0 +1,92 @@
+import type { Env } from '../types/env';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  /** The link the message asks the reader to follow, such as a confirmation link. */
+  actionUrl?: string;
+};
+
+/**
+ * Anything that can deliver a message. Messages carry secret confirm and unsubscribe links, so
+ * transports must never log their bodies.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const DEFAULT_MAIL_API_URL = 'https://api.resend.com/emails';
+
+export type HttpMailTransportOptions = {
+  endpoint: string;
+  apiKey: string;
+  from: string;
+};
+
+/**
+ * Sends mail through a JSON HTTP API that takes `{ from, to, subject, text }` with a bearer key,
+ * as Resend and several compatible providers do.
+ */
+export function createHttpMailTransport(options: HttpMailTransportOptions): MailTransport {
+  return {
+    async send(message) {
+      const response = await fetch(options.endpoint, {
+        method: 'POST',
+        headers: {
+          authorization: `Bearer ${options.apiKey}`,
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: options.from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+        }),
+      });
+      // The body is drained but never logged: providers may quote the message back.
+      await response.arrayBuffer();
+      if (!response.ok) {
+        throw new Error(`Mail API responded with ${response.status}.`);
+      }
+    },
+  };
+}
+
+/**
+ * Local development stub: logs the recipient and the path of the message's action link so a
+ * signup can be confirmed by hand. Nothing else from the body is logged, and it is only used
+ * when `MAIL_TRANSPORT` is `console`.
+ */
+export function createConsoleMailTransport(): MailTransport {
+  return {
+    async send(message) {
+      const action = message.actionUrl ? new URL(message.actionUrl) : null;
+      console.log(
+        `[mail] to=${message.to} subject=${JSON.stringify(message.subject)}` +
+          (action ? ` action=${action.pathname}${action.search}` : ''),
+      );
+    },
+  };
+}
+
+/**
+ * Builds the transport configured by `MAIL_API_KEY`, `MAIL_FROM`, and optionally
+ * `MAIL_API_URL`, or the console stub when `MAIL_TRANSPORT` is `console`. Returns null when
+ * mail is not configured.
+ */
+export function resolveMailTransport(env: Env): MailTransport | null {
+  if (env.MAIL_TRANSPORT?.trim() === 'console') {
+    return createConsoleMailTransport();
+  }
+  const apiKey = env.MAIL_API_KEY?.trim();
+  const from = env.MAIL_FROM?.trim();
+  if (!apiKey || !from) {
+    return null;
+  }
+  return createHttpMailTransport({
+    endpoint: env.MAIL_API_URL?.trim() || DEFAULT_MAIL_API_URL,
+    apiKey,
+    from,
+  });
+}
@@ -0,0 +1,215 @@
+import type { Principal, Role } from '../types/auth';
+import type { Env } from '../types/env';
+import {
+  authenticate,
+  authenticateToken,
+  clearSessionCookie,
+  hasRole,
+  sessionCookie,
+} from '../api/auth';
+import { escapeAttribute, escapeHtml, htmlResponse } from '../utils/html';
+import { renderLayout } from './layout';
+
+/** Table and inline form styles shared by the staff pages. */
+export const ADMIN_STYLES = `
+  <style>
+    .admin-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.95rem;
+    }
+    .admin-table th,
+    .admin-table td {
+      text-align: left;
+      vertical-align: top;
+      padding: 0.75rem 0.5rem;
+      border-bottom: 1px solid rgba(148, 163, 184, 0.35);
+    }
+    .admin-table th {
+      font-size: 0.75rem;
+      text-transform: uppercase;
+      letter-spacing: 0.12em;
+      color: rgba(15, 118, 110, 0.9);
+    }
+    .admin-table form {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.5rem;
+    }
+    .admin-table select,
+    .admin-table input {
+      padding: 0.35rem 0.5rem;
+      border-radius: 0.5rem;
+      border: 1px solid rgba(148, 163, 184, 0.6);
+      font-family: inherit;
+    }
+    .admin-table input {
+      width: 5rem;
+    }
+    .admin-table input.wide {
+      width: 14rem;
+    }
+    .admin-table button {
+      padding: 0.35rem 0.9rem;
+      border-radius: 999px;
+      border: none;
+      background: #0f766e;
+      color: white;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    .status-new { color: #b45309; font-weight: 600; }
+    .status-spam { color: #b91c1c; }
+    .status-pending { color: #b45309; font-weight: 600; }
+    .status-rejected { color: #b91c1c; }
+    .status-broken { color: #b91c1c; font-weight: 600; }
+    .status-failing { color: #b45309; font-weight: 600; }
+    .status-redirected { color: #0369a1; }
+    .unconfirmed { color: #64748b; font-size: 0.85rem; }
+    .table-scroll { overflow-x: auto; }
+  </style>
+`;
+
+/**
+ * Only allow same-site redirect targets after login so `next` cannot send staff elsewhere.
+ * Values are resolved the way browsers do, which catches tricks such as `/\evil.example`.
+ */
+function safeNextPath(value: string | null, url: URL): string {
+  if (!value?.startsWith('/')) {
+    return '/admin/interest';
+  }
+  const resolved = new URL(value, url.origin);
+  if (resolved.origin !== url.origin) {
+    return '/admin/interest';
+  }
+  return `${resolved.pathname}${resolved.search}${resolved.hash}`;
+}
+
+function redirect(location: string, headers?: HeadersInit): Response {
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set('Location', location);
+  return new Response(null, { status: 303, headers: responseHeaders });
+}
+
+/**
+ * Rejects cross-site form posts. Browsers send `Origin` on POST; when it is missing, fall back
+ * to `Sec-Fetch-Site` and then `Referer`. A post that carries none of them is refused, since the
+ * staff session cookie would otherwise make it a CSRF vector.
+ */
+export function isSameOriginPost(request: Request, url: URL): boolean {
+  const origin = request.headers.get('Origin');
+  if (origin) {
+    return origin === url.origin;
+  }
+  const fetchSite = request.headers.get('Sec-Fetch-Site');
+  if (fetchSite) {
+    return fetchSite === 'same-origin';
+  }
+  const referer = request.headers.get('Referer');
+  if (!referer) {
+    return false;
+  }
+  try {
+    return new URL(referer).origin === url.origin;
+  } catch {
+    return false;
+  }
+}
+
+export function renderLoginPage(next: string, error: string | null = null): string {
+  const content = `
+    <section>
+      <h1>Staff sign in</h1>
+      <p>Paste a moderator or admin API token to manage directory data.</p>
+      ${error ? `<p class="notice">${escapeHtml(error)}</p>` : ''}
+      <form class="filter-form" method="post" action="/admin/login">
+        <input type="hidden" name="next" value="${escapeAttribute(next)}" />
+        <div class="search-row">
+          <label class="visually-hidden" for="admin-token">API token</label>
+          <input id="admin-token" type="password" name="token" autocomplete="off" required placeholder="sr_…" />
+          <button class="button" type="submit">Sign in</button>
+        </div>
+      </form>
+    </section>
+  `;
+  return renderLayout({ title: 'Staff sign in · SolarRoots Directory', content });
+}
+
+export async function handleAdminLogin(request: Request, url: URL, env: Env): Promise<Response> {
+  if (request.method !== 'POST') {
+    return htmlResponse(renderLoginPage(safeNextPath(url.searchParams.get('next'), url)));
+  }
+
+  if (!isSameOriginPost(request, url)) {
+    return htmlResponse(renderLoginPage('/admin/interest', 'Sign in from this site.'), { status: 403 });
+  }
+
+  const form = await request.formData();
+  const token = String(form.get('token') ?? '').trim();
+  const next = safeNextPath(String(form.get('next') ?? ''), url);
+
+  let principal: Principal | null = null;
+  if (token) {
+    try {
+      principal = await authenticateToken(env, token);
+    } catch (error) {
+      console.error('Failed to verify admin sign in', error);
+      return htmlResponse(renderLoginPage(next, 'Unable to verify the token right now.'), {
+        status: 500,
+      });
+    }
+  }
+
+  if (!principal || !hasRole(principal, 'moderator')) {
+    return htmlResponse(renderLoginPage(next, 'That token is invalid or lacks staff access.'), {
+      status: 401,
+    });
+  }
+
+  return redirect(next, { 'Set-Cookie': sessionCookie(token) });
+}
+
+export function handleAdminLogout(): Response {
+  return redirect('/', { 'Set-Cookie': clearSessionCookie() });
+}
+
+/**
+ * HTML counterpart of `withRole`: anonymous visitors are sent to the sign-in page and
+ * signed-in staff without the role see a 403 page.
+ */
+export async function withPageRole(
+  request: Request,
+  url: URL,
+  env: Env,
+  role: Role,
+  handler: (principal: Principal) => Promise<Response>,
+): Promise<Response> {
+  let principal: Principal | null;
+  try {
+    principal = await authenticate(request, env);
+  } catch (error) {
+    console.error('Failed to verify admin session', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+
+  if (!principal) {
+    const next = `${url.pathname}${url.search}`;
+    return redirect(`/admin/login?${new URLSearchParams({ next }).toString()}`);
+  }
+
+  if (!hasRole(principal, role)) {
+    const html = renderLayout({
+      title: 'Access denied · SolarRoots Directory',
+      content: `
+        <section>
+          <h1>Access denied</h1>
+          <p>This page requires the ${escapeHtml(role)} role.</p>
+          <p><a class="text-link" href="/admin/logout">Sign in with a different token</a></p>
+        </section>
+      `,
+    });
+    return htmlResponse(html, { status: 403 });
+  }
+
+  return handler(principal);
+}
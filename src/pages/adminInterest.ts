@@ -0,0 +1,220 @@
+import type { Principal } from '../types/auth';
+import type { Env } from '../types/env';
+import type { InterestPage, InterestQueryOptions, InterestSignup } from '../types/interest';
+import { applyInterestStatus, INTEREST_STATUSES, parseInterestQuery } from '../api/interest';
+import { queryInterest } from '../data/interest';
+import { escapeAttribute, escapeHtml, htmlResponse } from '../utils/html';
+import { ADMIN_STYLES, isSameOriginPost } from './admin';
+import { renderLayout } from './layout';
+
+function filterParams(options: InterestQueryOptions): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of ['from', 'to', 'organization', 'q', 'status'] as const) {
+    const value = options[key];
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  return params;
+}
+
+function withQuery(path: string, params: URLSearchParams): string {
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+function renderStatusForm(signup: InterestSignup, returnTo: string): string {
+  const options = INTEREST_STATUSES.map(
+    (status) =>
+      `<option value="${status}"${status === signup.status ? ' selected' : ''}>${status}</option>`,
+  ).join('');
+
+  return `
+    <form method="post" action="/admin/interest/${signup.id}">
+      <input type="hidden" name="returnTo" value="${escapeAttribute(returnTo)}" />
+      <label class="visually-hidden" for="status-${signup.id}">Status</label>
+      <select id="status-${signup.id}" name="status">${options}</select>
+      <label class="visually-hidden" for="site-${signup.id}">Site id</label>
+      <input id="site-${signup.id}" name="siteId" inputmode="numeric" placeholder="site id" value="${
+        signup.siteId ?? ''
+      }" />
+      <button type="submit">Save</button>
+    </form>
+  `;
+}
+
+function renderRows(page: InterestPage, returnTo: string): string {
+  if (!page.signups.length) {
+    return '<tr><td colspan="5">No signups match these filters.</td></tr>';
+  }
+
+  return page.signups
+    .map(
+      (signup) => `
+        <tr>
+          <td>
+            ${escapeHtml(signup.createdAt)}
+            ${signup.confirmedAt ? '' : '<br /><span class="unconfirmed">Unconfirmed</span>'}
+          </td>
+          <td>
+            <strong>${escapeHtml(signup.name ?? '—')}</strong><br />
+            <a class="text-link" href="mailto:${escapeAttribute(signup.email)}">${escapeHtml(signup.email)}</a>
+          </td>
+          <td>${escapeHtml(signup.organization ?? '—')}</td>
+          <td>${escapeHtml(signup.message ?? '')}</td>
+          <td>
+            <span class="status-${signup.status}">${escapeHtml(signup.status)}</span>
+            ${renderStatusForm(signup, returnTo)}
+          </td>
+        </tr>
+      `,
+    )
+    .join('\n');
+}
+
+export function renderAdminInterestPage(
+  options: InterestQueryOptions,
+  page: InterestPage,
+  returnTo: string,
+  notice: string | null = null,
+): string {
+  const params = filterParams(options);
+  const statusOptions = ['', ...INTEREST_STATUSES]
+    .map(
+      (status) =>
+        `<option value="${status}"${status === (options.status ?? '') ? ' selected' : ''}>${
+          status || 'Any status'
+        }</option>`,
+    )
+    .join('');
+
+  const nextLink = page.nextCursor
+    ? `<a class="text-link" href="${escapeAttribute(
+        withQuery('/admin/interest', new URLSearchParams([...params, ['cursor', String(page.nextCursor)]])),
+      )}">Older signups →</a>`
+    : '';
+  const firstLink = options.cursor
+    ? `<a class="text-link" href="${escapeAttribute(withQuery('/admin/interest', params))}">← Newest signups</a>`
+    : '';
+
+  const content = `
+    <header>
+      <h1>Interest signups</h1>
+      <p class="lede">${page.total} signup${page.total === 1 ? '' : 's'} match the current filters.</p>
+    </header>
+    <section>
+      <h2>Filter</h2>
+      ${notice ? `<p class="notice">${escapeHtml(notice)}</p>` : ''}
+      <form class="filter-form" method="get" action="/admin/interest">
+        <div class="search-row">
+          <label class="visually-hidden" for="filter-q">Search</label>
+          <input id="filter-q" type="search" name="q" value="${escapeAttribute(options.q ?? '')}" placeholder="Name, email, or message" />
+          <label class="visually-hidden" for="filter-organization">Organization</label>
+          <input id="filter-organization" type="search" name="organization" value="${escapeAttribute(
+            options.organization ?? '',
+          )}" placeholder="Organization" />
+        </div>
+        <div class="search-row">
+          <label for="filter-from">From</label>
+          <input id="filter-from" type="date" name="from" value="${escapeAttribute(options.from ?? '')}" />
+          <label for="filter-to">To</label>
+          <input id="filter-to" type="date" name="to" value="${escapeAttribute(options.to ?? '')}" />
+          <label class="visually-hidden" for="filter-status">Status</label>
+          <select id="filter-status" name="status">${statusOptions}</select>
+          <button class="button" type="submit">Apply</button>
+        </div>
+      </form>
+      <p>
+        Export:
+        <a class="text-link" href="${escapeAttribute(
+          withQuery('/api/interest/export', new URLSearchParams([...params, ['format', 'csv']])),
+        )}">CSV</a> ·
+        <a class="text-link" href="${escapeAttribute(
+          withQuery('/api/interest/export', new URLSearchParams([...params, ['format', 'json']])),
+        )}">JSON</a> ·
+        <a class="text-link" href="/admin/submissions">Cooperative submissions</a> ·
+        <a class="text-link" href="/admin/links">Website links</a> ·
+        <a class="text-link" href="/admin/logout">Sign out</a>
+      </p>
+    </section>
+    <section>
+      <div class="table-scroll">
+        <table class="admin-table">
+          <thead>
+            <tr><th>Received</th><th>Contact</th><th>Organization</th><th>Message</th><th>Status</th></tr>
+          </thead>
+          <tbody>
+            ${renderRows(page, returnTo)}
+          </tbody>
+        </table>
+      </div>
+      <nav class="pagination" aria-label="Pagination">${firstLink}${nextLink}</nav>
+    </section>
+  `;
+
+  return renderLayout({
+    title: 'Interest signups · SolarRoots Directory',
+    head: ADMIN_STYLES,
+    content,
+  });
+}
+
+export async function handleAdminInterestPage(url: URL, env: Env): Promise<Response> {
+  const parsed = parseInterestQuery(url.searchParams);
+  const options: InterestQueryOptions = parsed.valid ? parsed.options : {};
+  const notice = parsed.valid
+    ? url.searchParams.get('notice')
+    : parsed.errors.map((error) => error.message).join(' ');
+
+  try {
+    const page = await queryInterest(env.DB, options);
+    const returnTo = `${url.pathname}${url.search}`;
+    return htmlResponse(renderAdminInterestPage(options, page, returnTo, notice));
+  } catch (error) {
+    console.error('Failed to load admin interest page', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+/**
+ * Handles the status form on `/admin/interest`, then redirects back to the filtered list.
+ */
+export async function handleAdminInterestUpdate(
+  request: Request,
+  url: URL,
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  if (!isSameOriginPost(request, url)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const form = await request.formData();
+  const returnToRaw = String(form.get('returnTo') ?? '');
+  const returnTo = new URL(
+    returnToRaw.startsWith('/admin/interest') ? returnToRaw : '/admin/interest',
+    url,
+  );
+
+  try {
+    const result = await applyInterestStatus(
+      env,
+      id,
+      { status: form.get('status'), siteId: form.get('siteId') },
+      principal,
+    );
+    const notice = result.ok
+      ? `Signup ${id} marked as ${result.signup.status}.`
+      : [result.message, ...(result.errors ?? []).map((error) => error.message)].join(' ');
+    returnTo.searchParams.set('notice', notice);
+  } catch (error) {
+    console.error(`Failed to update interest signup ${id} from admin page`, error);
+    returnTo.searchParams.set('notice', 'Failed to update the signup right now.');
+  }
+
+  return new Response(null, {
+    status: 303,
+    headers: { Location: `${returnTo.pathname}${returnTo.search}` },
+  });
+}
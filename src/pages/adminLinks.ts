@@ -0,0 +1,104 @@
+import type { Env } from '../types/env';
+import type { LinkReport, LinkReportEntry } from '../types/linkHealth';
+import { LINK_STATUSES, loadLinkReport } from '../api/linkHealth';
+import { escapeAttribute, escapeHtml, htmlResponse } from '../utils/html';
+import { ADMIN_STYLES } from './admin';
+import { sitePath } from './components';
+import { renderLayout } from './layout';
+
+function renderLink(url: string): string {
+  return `<a class="text-link" href="${escapeAttribute(url)}" rel="noopener noreferrer">${escapeHtml(url)}</a>`;
+}
+
+function renderResult(entry: LinkReportEntry): string {
+  if (entry.status === 'unchecked') {
+    return 'Waiting for the first check';
+  }
+
+  const parts = [
+    entry.statusCode !== null ? `HTTP ${entry.statusCode}` : '',
+    entry.error ? escapeHtml(entry.error) : '',
+    entry.redirectUrl ? `Redirects to ${renderLink(entry.redirectUrl)}` : '',
+    entry.consecutiveFailures
+      ? `${entry.consecutiveFailures} failed check${entry.consecutiveFailures === 1 ? '' : 's'} in a row`
+      : '',
+  ].filter(Boolean);
+  return parts.join('<br />');
+}
+
+function renderRows(report: LinkReport): string {
+  if (!report.sites.length) {
+    return '<tr><td colspan="5">No listed cooperative has a website yet.</td></tr>';
+  }
+
+  return report.sites
+    .map(
+      (entry) => `
+        <tr>
+          <td><a class="text-link" href="${escapeAttribute(
+            sitePath({ id: entry.siteId, name: entry.siteName }),
+          )}">${escapeHtml(entry.siteName)}</a></td>
+          <td>${renderLink(entry.website)}</td>
+          <td><span class="status-${entry.status}">${entry.status}</span></td>
+          <td>${renderResult(entry)}</td>
+          <td>
+            ${escapeHtml(entry.checkedAt ?? '—')}
+            ${entry.lastOkAt && entry.lastOkAt !== entry.checkedAt ? `<br />Last worked ${escapeHtml(entry.lastOkAt)}` : ''}
+          </td>
+        </tr>
+      `,
+    )
+    .join('\n');
+}
+
+export function renderAdminLinksPage(report: LinkReport): string {
+  const totals = LINK_STATUSES.filter((status) => report.totals[status])
+    .map((status) => `${report.totals[status]} ${status}`)
+    .join(' · ');
+
+  const content = `
+    <header>
+      <h1>Website links</h1>
+      <p class="lede">Every listed website is checked about once a day. A link counts as broken
+      after ${report.brokenAfterFailures} failed checks in a row.</p>
+    </header>
+    <section>
+      <p>${totals || 'No websites to check yet.'}</p>
+      <p>
+        <a class="text-link" href="/admin/submissions">Cooperative submissions</a> ·
+        <a class="text-link" href="/admin/interest">Interest signups</a> ·
+        <a class="text-link" href="/admin/logout">Sign out</a>
+      </p>
+    </section>
+    <section>
+      <div class="table-scroll">
+        <table class="admin-table">
+          <thead>
+            <tr><th>Cooperative</th><th>Website</th><th>Status</th><th>Result</th><th>Checked</th></tr>
+          </thead>
+          <tbody>
+            ${renderRows(report)}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  `;
+
+  return renderLayout({
+    title: 'Website links · SolarRoots Directory',
+    head: ADMIN_STYLES,
+    content,
+  });
+}
+
+/**
+ * Lists every listed website with its latest check, broken links first.
+ */
+export async function handleAdminLinksPage(env: Env): Promise<Response> {
+  try {
+    return htmlResponse(renderAdminLinksPage(await loadLinkReport(env)));
+  } catch (error) {
+    console.error('Failed to load admin links page', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
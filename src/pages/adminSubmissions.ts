@@ -0,0 +1,233 @@
+import type { Principal } from '../types/auth';
+import type { Env } from '../types/env';
+import type {
+  SiteSubmission,
+  SubmissionPage,
+  SubmissionQueryOptions,
+} from '../types/submission';
+import { parseSubmissionQuery, reviewSubmission, SUBMISSION_STATUSES } from '../api/submissions';
+import { querySubmissions } from '../data/submissions';
+import { escapeAttribute, escapeHtml, htmlResponse } from '../utils/html';
+import { ADMIN_STYLES, isSameOriginPost } from './admin';
+import { renderTagList } from './components';
+import { renderLayout } from './layout';
+
+function renderProposal(submission: SiteSubmission): string {
+  const { site } = submission;
+  const details = [
+    site.website
+      ? `<a class="text-link" href="${escapeAttribute(site.website)}" rel="noopener noreferrer">${escapeHtml(
+          site.website,
+        )}</a>`
+      : '',
+    escapeHtml([site.address, site.region].filter(Boolean).join(', ')),
+    site.latitude !== null && site.longitude !== null
+      ? `${site.latitude.toFixed(4)}, ${site.longitude.toFixed(4)}`
+      : '',
+  ].filter(Boolean);
+
+  return `
+    <strong>${escapeHtml(site.name)}</strong>
+    ${site.description ? `<p>${escapeHtml(site.description)}</p>` : ''}
+    ${details.length ? `<p>${details.join('<br />')}</p>` : ''}
+    ${site.tags.length ? `<div class="tag-list">${renderTagList(site.tags)}</div>` : ''}
+  `;
+}
+
+function renderTarget(submission: SiteSubmission): string {
+  if (submission.siteId === null) {
+    return 'New listing';
+  }
+  return `Site <a class="text-link" href="/sites/${submission.siteId}">#${submission.siteId}</a>`;
+}
+
+function renderReview(submission: SiteSubmission, returnTo: string): string {
+  if (submission.status !== 'pending') {
+    return `
+      <span class="status-${submission.status}">${escapeHtml(submission.status)}</span>
+      <br />by ${escapeHtml(submission.reviewedBy ?? 'unknown')}
+      on ${escapeHtml(submission.reviewedAt ?? '')}
+      ${submission.reviewReason ? `<p>${escapeHtml(submission.reviewReason)}</p>` : ''}
+    `;
+  }
+
+  const action = `/admin/submissions/${submission.id}`;
+  const hiddenReturn = `<input type="hidden" name="returnTo" value="${escapeAttribute(returnTo)}" />`;
+  return `
+    <form method="post" action="${action}">
+      ${hiddenReturn}
+      <input type="hidden" name="decision" value="approve" />
+      <button type="submit">Approve</button>
+    </form>
+    <form method="post" action="${action}">
+      ${hiddenReturn}
+      <input type="hidden" name="decision" value="reject" />
+      <label class="visually-hidden" for="reason-${submission.id}">Rejection reason</label>
+      <input class="wide" id="reason-${submission.id}" name="reason" required placeholder="Reason" />
+      <button type="submit">Reject</button>
+    </form>
+  `;
+}
+
+function renderRows(page: SubmissionPage, returnTo: string): string {
+  if (!page.submissions.length) {
+    return '<tr><td colspan="5">No submissions match this filter.</td></tr>';
+  }
+
+  return page.submissions
+    .map(
+      (submission) => `
+        <tr>
+          <td>${escapeHtml(submission.createdAt)}</td>
+          <td>
+            ${escapeHtml(submission.submitterName ?? '—')}<br />
+            <a class="text-link" href="mailto:${escapeAttribute(submission.submitterEmail)}">${escapeHtml(
+              submission.submitterEmail,
+            )}</a>
+          </td>
+          <td>${renderTarget(submission)}</td>
+          <td>${renderProposal(submission)}</td>
+          <td>${renderReview(submission, returnTo)}</td>
+        </tr>
+      `,
+    )
+    .join('\n');
+}
+
+export function renderAdminSubmissionsPage(
+  options: SubmissionQueryOptions,
+  page: SubmissionPage,
+  returnTo: string,
+  notice: string | null = null,
+): string {
+  const currentStatus = options.status ?? '';
+  const statusLinks = ['', ...SUBMISSION_STATUSES]
+    .map((status) => {
+      const href = status ? `/admin/submissions?status=${status}` : '/admin/submissions?status=';
+      return `<li><a class="chip" href="${href}" aria-pressed="${status === currentStatus}">${
+        status || 'All'
+      }</a></li>`;
+    })
+    .join('');
+
+  const nextLink = page.nextCursor
+    ? `<a class="text-link" href="${escapeAttribute(
+        `/admin/submissions?${new URLSearchParams({
+          status: currentStatus,
+          cursor: String(page.nextCursor),
+        }).toString()}`,
+      )}">Later submissions →</a>`
+    : '';
+
+  const content = `
+    <header>
+      <h1>Cooperative submissions</h1>
+      <p class="lede">${page.total} ${currentStatus || 'total'} submission${page.total === 1 ? '' : 's'}.
+      Approved submissions are published to the directory immediately.</p>
+    </header>
+    <section>
+      ${notice ? `<p class="notice">${escapeHtml(notice)}</p>` : ''}
+      <ul class="chip-list" aria-label="Filter by status">${statusLinks}</ul>
+      <p>
+        <a class="text-link" href="/admin/interest">Interest signups</a> ·
+        <a class="text-link" href="/admin/links">Website links</a> ·
+        <a class="text-link" href="/admin/logout">Sign out</a>
+      </p>
+    </section>
+    <section>
+      <div class="table-scroll">
+        <table class="admin-table">
+          <thead>
+            <tr><th>Received</th><th>Submitted by</th><th>Target</th><th>Proposal</th><th>Review</th></tr>
+          </thead>
+          <tbody>
+            ${renderRows(page, returnTo)}
+          </tbody>
+        </table>
+      </div>
+      <nav class="pagination" aria-label="Pagination">${nextLink}</nav>
+    </section>
+  `;
+
+  return renderLayout({
+    title: 'Submissions · SolarRoots Directory',
+    head: ADMIN_STYLES,
+    content,
+  });
+}
+
+/**
+ * Lists submissions for review. Without a `status` parameter the page shows the pending queue.
+ */
+export async function handleAdminSubmissionsPage(url: URL, env: Env): Promise<Response> {
+  const params = new URLSearchParams(url.searchParams);
+  if (!params.has('status')) {
+    params.set('status', 'pending');
+  }
+  const parsed = parseSubmissionQuery(params);
+  const options: SubmissionQueryOptions = parsed.valid ? parsed.options : { status: 'pending' };
+  const notice = parsed.valid
+    ? url.searchParams.get('notice')
+    : parsed.errors.map((error) => error.message).join(' ');
+
+  try {
+    const page = await querySubmissions(env.DB, options);
+    const returnTo = `${url.pathname}${url.search}`;
+    return htmlResponse(renderAdminSubmissionsPage(options, page, returnTo, notice));
+  } catch (error) {
+    console.error('Failed to load admin submissions page', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+/**
+ * Handles the approve and reject forms on `/admin/submissions`, then redirects back.
+ */
+export async function handleAdminSubmissionReview(
+  request: Request,
+  url: URL,
+  env: Env,
+  id: number,
+  principal: Principal,
+): Promise<Response> {
+  if (!isSameOriginPost(request, url)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const form = await request.formData();
+  const returnToRaw = String(form.get('returnTo') ?? '');
+  const returnTo = new URL(
+    returnToRaw.startsWith('/admin/submissions') ? returnToRaw : '/admin/submissions',
+    url,
+  );
+  returnTo.searchParams.delete('notice');
+
+  const decision = form.get('decision');
+  try {
+    if (decision !== 'approve' && decision !== 'reject') {
+      returnTo.searchParams.set('notice', 'Choose approve or reject.');
+    } else {
+      const result = await reviewSubmission(
+        env,
+        id,
+        decision,
+        { reason: form.get('reason') },
+        principal,
+      );
+      const notice = result.ok
+        ? `Submission ${id} ${result.submission.status}${
+            result.site ? ` and published as site ${result.site.id}` : ''
+          }.`
+        : [result.message, ...(result.errors ?? []).map((error) => error.message)].join(' ');
+      returnTo.searchParams.set('notice', notice);
+    }
+  } catch (error) {
+    console.error(`Failed to review site submission ${id} from admin page`, error);
+    returnTo.searchParams.set('notice', 'Failed to review the submission right now.');
+  }
+
+  return new Response(null, {
+    status: 303,
+    headers: { Location: `${returnTo.pathname}${returnTo.search}` },
+  });
+}
@@ -0,0 +1,133 @@
+import { assessSiteAgainstVision } from '../config/vision';
+import type { OwnershipModel, SiteRecord } from '../types/directory';
+import type { SiteEvent } from '../types/event';
+import type { Story } from '../types/story';
+import type { ActiveVision } from '../types/vision';
+import { escapeAttribute, escapeHtml } from '../utils/html';
+import { markdownExcerpt } from '../utils/markdown';
+import { slugify } from '../utils/slug';
+
+/**
+ * Canonical, shareable profile path for a site, e.g. `/sites/4-sunrise-co-op`.
+ */
+export function sitePath(site: Pick<SiteRecord, 'id' | 'name'>): string {
+  const slug = slugify(site.name);
+  return slug ? `/sites/${site.id}-${slug}` : `/sites/${site.id}`;
+}
+
+const OWNERSHIP_MODEL_LABELS: Record<OwnershipModel, string> = {
+  consumer: 'Consumer cooperative',
+  worker: 'Worker cooperative',
+  'multi-stakeholder': 'Multi-stakeholder cooperative',
+  community: 'Community-owned',
+  municipal: 'Municipal partnership',
+  other: 'Other',
+};
+
+export function formatOwnershipModel(model: OwnershipModel): string {
+  return OWNERSHIP_MODEL_LABELS[model];
+}
+
+export function directoryTagPath(tag: string): string {
+  return `/directory?${new URLSearchParams({ tag }).toString()}`;
+}
+
+export function renderTagList(tags: readonly string[], options: { linked?: boolean } = {}): string {
+  return tags
+    .map((tag) =>
+      options.linked
+        ? `<a class="tag" href="${escapeAttribute(directoryTagPath(tag))}">${escapeHtml(tag)}</a>`
+        : `<span class="tag">${escapeHtml(tag)}</span>`,
+    )
+    .join('');
+}
+
+/**
+ * A badge with the site's vision score, so organizers can spot profiles that need work. The
+ * tooltip names the fields still missing.
+ */
+export function renderVisionBadge(site: SiteRecord, vision: ActiveVision): string {
+  const { score, missingFields } = assessSiteAgainstVision(site, vision);
+  const level = score >= 75 ? 'high' : score >= 40 ? 'medium' : 'low';
+  const title = missingFields.length
+    ? `Missing: ${missingFields.join(', ')}`
+    : 'Every vision pillar is documented';
+  return `<span class="vision-badge vision-badge-${level}" title="${escapeAttribute(title)}">${score}% vision fit</span>`;
+}
+
+export function renderSiteCard(site: SiteRecord, vision: ActiveVision): string {
+  const description = site.description ? `<p>${escapeHtml(site.description)}</p>` : '';
+  const link = site.website
+    ? `<a href="${escapeAttribute(site.website)}" target="_blank" rel="noopener noreferrer">Visit site</a>`
+    : '';
+
+  return `
+    <article class="site-card">
+      <h2><a href="${escapeAttribute(sitePath(site))}">${escapeHtml(site.name)}</a></h2>
+      ${renderVisionBadge(site, vision)}
+      ${description}
+      ${link}
+      <div class="tag-list">${renderTagList(site.tags)}</div>
+    </article>
+  `;
+}
+
+/**
+ * Focus area, site, and publication date of a story. The site link is left out on the site's
+ * own profile.
+ */
+export function renderStoryMeta(story: Story, options: { linkSite?: boolean } = {}): string {
+  const site = options.linkSite
+    ? `<a href="${escapeAttribute(sitePath({ id: story.siteId, name: story.siteName }))}">${escapeHtml(story.siteName)}</a> · `
+    : '';
+  return `<p class="story-meta">${site}<span class="story-focus">${escapeHtml(story.focus)}</span> · <time datetime="${escapeAttribute(story.publishedOn)}">${escapeHtml(story.publishedOn)}</time></p>`;
+}
+
+export function renderStoryCard(story: Story): string {
+  return `
+    <article class="site-card story-card">
+      <h2>${escapeHtml(story.title)}</h2>
+      ${renderStoryMeta(story, { linkSite: true })}
+      <p>${escapeHtml(markdownExcerpt(story.body))}</p>
+      <a href="${escapeAttribute(`${sitePath({ id: story.siteId, name: story.siteName })}#story-${story.id}`)}">Read the story</a>
+    </article>
+  `;
+}
+
+/**
+ * When an event runs, in its own time zone, such as "Sat 2 Nov 2026, 10:00 – 16:00 CET".
+ */
+export function formatEventTime(event: Pick<SiteEvent, 'startsAt' | 'endsAt' | 'timezone'>): string {
+  const format = new Intl.DateTimeFormat('en-GB', {
+    timeZone: event.timezone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+  return format.formatRange(new Date(event.startsAt), new Date(event.endsAt));
+}
+
+export function renderEventCard(event: SiteEvent, options: { linkSite?: boolean } = {}): string {
+  const site = options.linkSite
+    ? `<a href="${escapeAttribute(sitePath({ id: event.siteId, name: event.siteName }))}">${escapeHtml(event.siteName)}</a>`
+    : '';
+  const details = [
+    `<time datetime="${escapeAttribute(event.startsAt)}">${escapeHtml(formatEventTime(event))}</time>`,
+    ...(event.location ? [escapeHtml(event.location)] : []),
+    ...(site ? [site] : []),
+  ];
+  const description = event.description
+    ? `<p>${escapeHtml(event.description).replace(/\n+/g, '<br />')}</p>`
+    : '';
+  return `
+    <article class="site-card event-card" id="event-${event.id}">
+      <h2>${escapeHtml(event.title)}</h2>
+      <p class="event-meta">${details.join(' · ')}</p>
+      ${description}
+    </article>
+  `;
+}
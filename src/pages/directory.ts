@@ -0,0 +1,229 @@
+import directoryTemplate from '../templates/directory.html';
+import type { SitePage, SiteQueryOptions, SiteSort, TagSummary } from '../types/directory';
+import type { Env } from '../types/env';
+import type { ActiveVision } from '../types/vision';
+import { parseSiteQuery } from '../api/sites';
+import { loadActiveVision } from '../api/visionConfig';
+import { InvalidCursorError, querySites } from '../data/sites';
+import { fetchTagSummaries } from '../data/tags';
+import {
+  escapeAttribute,
+  escapeHtml,
+  formatList,
+  htmlResponse,
+  renderTemplate,
+} from '../utils/html';
+import { slugify } from '../utils/slug';
+import { renderSiteCard } from './components';
+import { renderLayout } from './layout';
+import { DEFAULT_PAGE_DESCRIPTION, siteListJsonLd } from './seo';
+
+const DIRECTORY_PAGE_SIZE = 12;
+
+const SORT_LABELS: Record<SiteSort, string> = {
+  newest: 'Newest first',
+  name: 'Name (A–Z)',
+};
+
+type DirectoryView = {
+  url: URL;
+  options: SiteQueryOptions;
+  page: SitePage;
+  tags: TagSummary[];
+  notice: string | null;
+  vision: ActiveVision;
+};
+
+/**
+ * Builds a `/directory` link for the given filters. Empty values are dropped so links stay
+ * short and shareable.
+ */
+function directoryHref(options: SiteQueryOptions): string {
+  const params = new URLSearchParams();
+  if (options.q) {
+    params.set('q', options.q);
+  }
+  for (const tag of options.tags ?? []) {
+    params.append('tag', tag);
+  }
+  if (options.tagMode === 'all' && (options.tags?.length ?? 0) > 1) {
+    params.set('tagMode', 'all');
+  }
+  if (options.region) {
+    params.set('region', options.region);
+  }
+  if (options.near) {
+    params.set('near', `${options.near.latitude},${options.near.longitude}`);
+    params.set('radiusKm', String(options.near.radiusKm));
+  }
+  if (options.sort && options.sort !== 'newest') {
+    params.set('sort', options.sort);
+  }
+  if (options.cursor) {
+    params.set('cursor', options.cursor);
+  }
+  const query = params.toString();
+  return query ? `/directory?${query}` : '/directory';
+}
+
+function renderTagChips(options: SiteQueryOptions, tags: TagSummary[]): string {
+  if (!tags.length) {
+    return '<li class="result-summary">Tags appear here once cooperatives are categorised.</li>';
+  }
+
+  const selected = new Set(options.tags ?? []);
+  return tags
+    .map((tag) => {
+      const isActive = selected.has(tag.label);
+      const nextTags = isActive
+        ? (options.tags ?? []).filter((label) => label !== tag.label)
+        : [...(options.tags ?? []), tag.label];
+      const href = directoryHref({ ...options, tags: nextTags, cursor: null });
+      return `
+        <li>
+          <a class="chip" data-directory-link href="${escapeAttribute(href)}" aria-pressed="${isActive}">
+            ${escapeHtml(tag.label)} <span class="chip-count">${tag.siteCount}</span>
+          </a>
+        </li>
+      `.trim();
+    })
+    .join('\n');
+}
+
+function renderSortOptions(sort: SiteSort): string {
+  return (Object.keys(SORT_LABELS) as SiteSort[])
+    .map(
+      (value) =>
+        `<option value="${value}"${value === sort ? ' selected' : ''}>${escapeHtml(SORT_LABELS[value])}</option>`,
+    )
+    .join('\n');
+}
+
+function renderResultSummary(options: SiteQueryOptions, total: number): string {
+  const noun = total === 1 ? 'cooperative' : 'cooperatives';
+  const filters: string[] = [];
+  if (options.q) {
+    filters.push(`matching “${options.q}”`);
+  }
+  if (options.region) {
+    filters.push(`in ${options.region}`);
+  }
+  if (options.near) {
+    filters.push(`within ${options.near.radiusKm} km`);
+  }
+  if (options.tags?.length) {
+    const joiner = options.tagMode === 'all' ? ' and ' : ' or ';
+    filters.push(`tagged ${options.tags.join(joiner)}`);
+  }
+  return escapeHtml([`${total} ${noun}`, ...filters].join(' '));
+}
+
+function renderPagination(options: SiteQueryOptions, page: SitePage): string {
+  const links: string[] = [];
+  if (options.cursor) {
+    links.push(
+      `<a class="text-link" data-directory-link href="${escapeAttribute(
+        directoryHref({ ...options, cursor: null }),
+      )}">← Back to the first page</a>`,
+    );
+  }
+  if (page.nextCursor) {
+    links.push(
+      `<a class="text-link" data-directory-link href="${escapeAttribute(
+        directoryHref({ ...options, cursor: page.nextCursor }),
+      )}">Next page →</a>`,
+    );
+  }
+  return links.join('\n');
+}
+
+// Lets feed readers offer the tag the visitor is browsing, alongside the site-wide feeds.
+function renderTagFeedLinks(tag: string): string {
+  const query = new URLSearchParams({ tag: slugify(tag) }).toString();
+  return `<link rel="alternate" type="application/atom+xml" title="${escapeAttribute(
+    `SolarRoots: ${tag} (Atom)`,
+  )}" href="/feed.xml?${escapeAttribute(query)}" />`;
+}
+
+export function renderDirectoryPage({
+  url,
+  options,
+  page,
+  tags,
+  notice,
+  vision,
+}: DirectoryView): string {
+  const cards = page.sites.length
+    ? page.sites.map((site) => renderSiteCard(site, vision)).join('\n')
+    : '<div class="empty-state">No cooperatives match these filters yet. Try removing a tag or searching for something broader.</div>';
+
+  const hiddenTagInputs = [
+    ...(options.tags ?? []).map(
+      (tag) => `<input type="hidden" name="tag" value="${escapeAttribute(tag)}" />`,
+    ),
+    ...(options.tagMode === 'all' ? ['<input type="hidden" name="tagMode" value="all" />'] : []),
+    ...(options.region
+      ? [`<input type="hidden" name="region" value="${escapeAttribute(options.region)}" />`]
+      : []),
+  ].join('\n');
+
+  const content = renderTemplate(directoryTemplate, {
+    query: escapeAttribute(options.q ?? ''),
+    sortOptions: renderSortOptions(options.sort ?? 'newest'),
+    hiddenTagInputs,
+    tagChips: renderTagChips(options, tags),
+    notice: notice ? `<p class="notice">${escapeHtml(notice)}</p>` : '',
+    resultSummary: renderResultSummary(options, page.total),
+    siteCards: cards,
+    pagination: renderPagination(options, page),
+  });
+
+  return renderLayout({
+    title: 'Cooperative directory · SolarRoots Directory',
+    content,
+    head: options.tags?.length === 1 ? renderTagFeedLinks(options.tags[0]) : '',
+    meta: {
+      url: new URL(directoryHref(options), url).toString(),
+      description: options.tags?.length
+        ? `Cooperatives tagged ${formatList(options.tags)} in the SolarRoots directory.`
+        : DEFAULT_PAGE_DESCRIPTION,
+      structuredData: page.sites.length ? [siteListJsonLd(page.sites, url)] : [],
+    },
+  });
+}
+
+export async function handleDirectoryPage(url: URL, env: Env): Promise<Response> {
+  const parsed = parseSiteQuery(url.searchParams);
+  let notice: string | null = null;
+  let options: SiteQueryOptions = { sort: 'newest', limit: DIRECTORY_PAGE_SIZE };
+  if (parsed.valid) {
+    options = { ...parsed.options, limit: DIRECTORY_PAGE_SIZE };
+  } else {
+    notice = 'Some filters in this link were not recognised, so we are showing the full directory.';
+  }
+
+  const loadPage = async (): Promise<SitePage> => {
+    try {
+      return await querySites(env.DB, options);
+    } catch (error) {
+      if (!(error instanceof InvalidCursorError)) {
+        throw error;
+      }
+      notice = 'That page link has expired, so we are showing the first page of results.';
+      options = { ...options, cursor: null };
+      return querySites(env.DB, options);
+    }
+  };
+
+  try {
+    const [page, tags, vision] = await Promise.all([
+      loadPage(),
+      fetchTagSummaries(env.DB),
+      loadActiveVision(env),
+    ]);
+    return htmlResponse(renderDirectoryPage({ url, options, page, tags, notice, vision }));
+  } catch (error) {
+    console.error('Failed to load directory page', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
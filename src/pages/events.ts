@@ -0,0 +1,76 @@
+import type { Env } from '../types/env';
+import type { SiteEvent } from '../types/event';
+import { queryEvents } from '../data/events';
+import { escapeAttribute, htmlResponse } from '../utils/html';
+import { renderEventCard } from './components';
+import { renderLayout } from './layout';
+
+const EVENTS_PAGE_SIZE = 50;
+
+/**
+ * Links to subscribe to a calendar feed: `webcal:` opens most calendar apps directly, and the
+ * plain link works for anything that takes a URL.
+ */
+export function renderCalendarLinks(url: URL, path: string): string {
+  const feed = new URL(path, url);
+  const webcal = `webcal://${feed.host}${feed.pathname}`;
+  return `
+    <p>
+      <a class="text-link" href="${escapeAttribute(webcal)}">Subscribe in your calendar app</a>
+      or <a class="text-link" href="${escapeAttribute(feed.pathname)}">download the .ics feed</a>.
+    </p>
+  `;
+}
+
+export function renderEventsPage(url: URL, events: SiteEvent[], past: boolean): string {
+  const cards = events.length
+    ? events.map((event) => renderEventCard(event, { linkSite: true })).join('\n')
+    : `<div class="empty-state">${
+        past ? 'No past events have been recorded yet.' : 'No upcoming events are scheduled yet. Check back soon.'
+      }</div>`;
+  const toggle = past
+    ? '<a class="text-link" href="/events">See upcoming events →</a>'
+    : '<a class="text-link" href="/events?when=past">See past events →</a>';
+
+  const content = `
+    <header>
+      <h1>${past ? 'Past events' : 'Upcoming events'}</h1>
+      <p class="lede">Workshops, open days, and gatherings hosted by cooperatives in the directory.</p>
+    </header>
+    <section>
+      ${renderCalendarLinks(url, '/events.ics')}
+      <div class="site-grid">
+        ${cards}
+      </div>
+      <p>${toggle}</p>
+    </section>
+  `;
+
+  return renderLayout({
+    title: `${past ? 'Past events' : 'Events'} · SolarRoots Directory`,
+    content,
+    meta: {
+      url: new URL(past ? '/events?when=past' : '/events', url).toString(),
+      description: past
+        ? 'Past workshops, open days, and gatherings hosted by cooperatives in the SolarRoots directory.'
+        : 'Upcoming workshops, open days, and gatherings hosted by cooperatives in the SolarRoots directory.',
+    },
+  });
+}
+
+/**
+ * Serves `/events`, listing upcoming events soonest first, or past events with `?when=past`.
+ */
+export async function handleEventsPage(url: URL, env: Env): Promise<Response> {
+  const past = url.searchParams.get('when') === 'past';
+  try {
+    const events = await queryEvents(env.DB, {
+      when: past ? 'past' : 'upcoming',
+      limit: EVENTS_PAGE_SIZE,
+    });
+    return htmlResponse(renderEventsPage(url, events, past));
+  } catch (error) {
+    console.error('Failed to load events page', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import pageTemplate from '../templates/page.html';
+import { escapeHtml, htmlResponse, renderTemplate } from '../utils/html';
+import { renderPageMeta, type PageMeta } from './seo';
+
+export type PageOptions = {
+  title: string;
+  content: string;
+  /** Extra trusted markup for the document head, such as page-specific styles. */
+  head?: string;
+  /** Canonical URL, description, and structured data for public pages that should be indexed. */
+  meta?: PageMeta;
+};
+
+export function renderLayout({ title, content, head = '', meta }: PageOptions): string {
+  return renderTemplate(pageTemplate, {
+    title: escapeHtml(title),
+    head: meta ? `${renderPageMeta(title, meta)}\n    ${head}` : head,
+    content,
+  });
+}
+
+export function renderNotFoundPage(message = 'We could not find the page you were looking for.'): Response {
+  const html = renderLayout({
+    title: 'Not found · SolarRoots Directory',
+    content: `
+      <section>
+        <h1>Page not found</h1>
+        <p>${escapeHtml(message)}</p>
+        <p><a class="text-link" href="/">Return to the directory</a></p>
+      </section>
+    `,
+  });
+  return htmlResponse(html, { status: 404 });
+}
@@ -0,0 +1,132 @@
+import type { SiteRecord } from '../types/directory';
+import { escapeAttribute } from '../utils/html';
+import { markdownExcerpt } from '../utils/markdown';
+import { sitePath } from './components';
+
+const SITE_NAME = 'SolarRoots Directory';
+// Search results and link previews cut descriptions off at around this length.
+const MAX_DESCRIPTION_LENGTH = 160;
+
+export const DEFAULT_PAGE_DESCRIPTION =
+  'Find and connect with community-owned solar and regenerative cooperatives in the SolarRoots directory.';
+
+export type PageMeta = {
+  /** Absolute canonical URL of the page. */
+  url: string;
+  description: string;
+  /** Trusted JSON-LD objects describing the page. */
+  structuredData?: object[];
+};
+
+/**
+ * A description short enough for search snippets and link previews.
+ */
+export function metaDescription(text: string | null, fallback = DEFAULT_PAGE_DESCRIPTION): string {
+  return text ? markdownExcerpt(text, MAX_DESCRIPTION_LENGTH) : fallback;
+}
+
+/**
+ * Serialises JSON-LD for a `<script>` element. `<` is escaped so no value can close the element.
+ */
+export function renderJsonLd(data: object): string {
+  const json = JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+  return `<script type="application/ld+json">${json}</script>`;
+}
+
+/**
+ * Canonical link, description, Open Graph, and Twitter card tags, plus any structured data.
+ */
+export function renderPageMeta(title: string, meta: PageMeta): string {
+  const tags = [
+    `<link rel="canonical" href="${escapeAttribute(meta.url)}" />`,
+    `<meta name="description" content="${escapeAttribute(meta.description)}" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    '<meta property="og:type" content="website" />',
+    `<meta property="og:title" content="${escapeAttribute(title)}" />`,
+    `<meta property="og:description" content="${escapeAttribute(meta.description)}" />`,
+    `<meta property="og:url" content="${escapeAttribute(meta.url)}" />`,
+    '<meta name="twitter:card" content="summary" />',
+    `<meta name="twitter:title" content="${escapeAttribute(title)}" />`,
+    `<meta name="twitter:description" content="${escapeAttribute(meta.description)}" />`,
+    ...(meta.structuredData ?? []).map(renderJsonLd),
+  ];
+  return tags.join('\n    ');
+}
+
+/**
+ * schema.org `WebSite` for the directory, with the search box search engines can offer.
+ */
+export function websiteJsonLd(baseUrl: URL): Record<string, unknown> {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'WebSite',
+    name: SITE_NAME,
+    url: new URL('/', baseUrl).toString(),
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: `${new URL('/directory', baseUrl).toString()}?q={search_term_string}`,
+      'query-input': 'required name=search_term_string',
+    },
+  };
+}
+
+function organization(site: SiteRecord, baseUrl: URL): Record<string, unknown> {
+  const profileUrl = new URL(sitePath(site), baseUrl).toString();
+  const data: Record<string, unknown> = {
+    '@type': 'Organization',
+    '@id': `${profileUrl}#organization`,
+    name: site.name,
+    url: site.website ?? profileUrl,
+    mainEntityOfPage: profileUrl,
+  };
+  if (site.description) {
+    data.description = site.description;
+  }
+  if (site.website) {
+    data.sameAs = [site.website];
+  }
+  if (site.tags.length) {
+    data.keywords = site.tags.join(', ');
+  }
+  if (site.address || site.region) {
+    data.address = {
+      '@type': 'PostalAddress',
+      ...(site.address ? { streetAddress: site.address } : {}),
+      ...(site.region ? { addressRegion: site.region } : {}),
+    };
+  }
+  if (site.latitude !== null && site.longitude !== null) {
+    data.geo = { '@type': 'GeoCoordinates', latitude: site.latitude, longitude: site.longitude };
+  }
+  if (site.foundedYear !== null) {
+    data.foundingDate = String(site.foundedYear);
+  }
+  return data;
+}
+
+/**
+ * schema.org `Organization` for a listed cooperative, built from public listing fields only;
+ * contact details are left out.
+ */
+export function organizationJsonLd(site: SiteRecord, baseUrl: URL): Record<string, unknown> {
+  return { '@context': 'https://schema.org', ...organization(site, baseUrl) };
+}
+
+/**
+ * schema.org `ItemList` of the cooperatives shown on a listing page, in display order.
+ */
+export function siteListJsonLd(sites: readonly SiteRecord[], baseUrl: URL): Record<string, unknown> {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'ItemList',
+    numberOfItems: sites.length,
+    itemListElement: sites.map((site, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      item: organization(site, baseUrl),
+    })),
+  };
+}
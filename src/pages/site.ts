@@ -0,0 +1,261 @@
+import type { ContactField, SiteContact, SiteRecord } from '../types/directory';
+import type { Env } from '../types/env';
+import type { SiteEvent } from '../types/event';
+import type { Story } from '../types/story';
+import { isOrganizerRequest } from '../api/auth';
+import { redactSite } from '../api/sites';
+import { fetchSiteById } from '../data/sites';
+import { queryEvents } from '../data/events';
+import { countInterestForOrganization } from '../data/interest';
+import { queryStories } from '../data/stories';
+import { escapeAttribute, escapeHtml, htmlResponse } from '../utils/html';
+import { renderMarkdown } from '../utils/markdown';
+import {
+  formatOwnershipModel,
+  renderEventCard,
+  renderStoryMeta,
+  renderTagList,
+  sitePath,
+} from './components';
+import { renderCalendarLinks } from './events';
+import { renderLayout, renderNotFoundPage } from './layout';
+import { metaDescription, organizationJsonLd } from './seo';
+
+const MAX_PROFILE_STORIES = 20;
+const MAX_PROFILE_EVENTS = 10;
+
+type SiteProfileContext = {
+  url: URL;
+  interestCount: number;
+  stories: Story[];
+  events: SiteEvent[];
+  /** Organizers see private contact details, marked as such; everyone else gets them redacted. */
+  showPrivate: boolean;
+};
+
+function renderMembership(site: SiteRecord): string {
+  const rows: [string, string][] = [];
+  if (site.ownershipModel) {
+    rows.push(['Ownership', escapeHtml(formatOwnershipModel(site.ownershipModel))]);
+  }
+  if (site.memberCount !== null) {
+    rows.push(['Members', site.memberCount.toLocaleString('en-US')]);
+  }
+  if (site.foundedYear !== null) {
+    rows.push(['Founded', String(site.foundedYear)]);
+  }
+  if (site.capacityKw !== null) {
+    rows.push(['Capacity', `${site.capacityKw.toLocaleString('en-US')} kW`]);
+  }
+
+  const details = rows.length
+    ? `<dl class="detail-list">${rows.map(([term, value]) => `<dt>${term}</dt><dd>${value}</dd>`).join('')}</dl>`
+    : `<p>${escapeHtml(site.name)} has not shared membership details yet.</p>`;
+  const howToJoin = site.howToJoin
+    ? `<h3>How to join</h3><p>${escapeHtml(site.howToJoin)}</p>`
+    : '';
+  return `${details}${howToJoin}`;
+}
+
+function renderContactValue(contact: SiteContact, field: ContactField, html: string): string {
+  return contact.visibility[field] === 'private'
+    ? `${html} <span class="private-flag">private</span>`
+    : html;
+}
+
+function renderContacts(site: SiteRecord): string {
+  if (!site.contacts.length) {
+    return `<p>${escapeHtml(site.name)} has not listed any contacts yet.</p>`;
+  }
+
+  const items = site.contacts.map((contact) => {
+    const parts: string[] = [];
+    if (contact.name) {
+      parts.push(renderContactValue(contact, 'name', escapeHtml(contact.name)));
+    }
+    if (contact.email) {
+      parts.push(
+        renderContactValue(
+          contact,
+          'email',
+          `<a class="text-link" href="mailto:${escapeAttribute(contact.email)}">${escapeHtml(contact.email)}</a>`,
+        ),
+      );
+    }
+    if (contact.phone) {
+      parts.push(
+        renderContactValue(
+          contact,
+          'phone',
+          `<a class="text-link" href="tel:${escapeAttribute(contact.phone.replace(/[^+0-9]/g, ''))}">${escapeHtml(contact.phone)}</a>`,
+        ),
+      );
+    }
+    return `<li><strong>${escapeHtml(contact.role)}</strong> · ${parts.join(' · ')}</li>`;
+  });
+  return `<ul class="contact-list">${items.join('')}</ul>`;
+}
+
+function renderUpcomingEvents(site: SiteRecord, context: SiteProfileContext): string {
+  const events = context.events.length
+    ? `<div class="site-grid">${context.events.map((event) => renderEventCard(event)).join('\n')}</div>`
+    : `<p>${escapeHtml(site.name)} has no upcoming events.</p>`;
+  return `${events}${renderCalendarLinks(context.url, `${sitePath(site)}/events.ics`)}`;
+}
+
+function renderStories(site: SiteRecord, stories: Story[]): string {
+  if (!stories.length) {
+    return `<p>${escapeHtml(site.name)} has not shared any stories yet.</p>`;
+  }
+
+  return stories
+    .map(
+      (story) => `
+        <article class="story" id="story-${story.id}">
+          <h3>${escapeHtml(story.title)}</h3>
+          ${renderStoryMeta(story)}
+          <div class="story-body">${renderMarkdown(story.body)}</div>
+        </article>
+      `,
+    )
+    .join('\n');
+}
+
+function renderInterestSummary(site: SiteRecord, interestCount: number): string {
+  if (!interestCount) {
+    return `
+      <p>
+        No one has registered interest on behalf of ${escapeHtml(site.name)} yet.
+        <a class="text-link" href="/#interest">Register your interest</a> to help this cooperative connect.
+      </p>
+    `;
+  }
+
+  const people = interestCount === 1 ? 'person has' : 'people have';
+  return `
+    <p>
+      ${interestCount} ${people} registered interest on behalf of ${escapeHtml(site.name)}.
+      <a class="text-link" href="/#interest">Add your voice</a>.
+    </p>
+  `;
+}
+
+export function renderSiteProfile(site: SiteRecord, context: SiteProfileContext): string {
+  if (!context.showPrivate) {
+    site = redactSite(site);
+  }
+  const description = site.description
+    ? `<p class="lede">${escapeHtml(site.description)}</p>`
+    : '<p class="lede">This cooperative has not shared a description yet.</p>';
+  const website = site.website
+    ? `<a class="text-link" href="${escapeAttribute(site.website)}" target="_blank" rel="noopener noreferrer">${escapeHtml(site.website)}</a>`
+    : 'Not shared yet';
+  const location = [site.address, site.region].filter(Boolean).join(' · ');
+  const mapLink =
+    site.latitude !== null && site.longitude !== null
+      ? ` <a class="text-link" href="${escapeAttribute(
+          `https://www.openstreetmap.org/?mlat=${site.latitude}&mlon=${site.longitude}#map=12/${site.latitude}/${site.longitude}`,
+        )}" target="_blank" rel="noopener noreferrer">View on map</a>`
+      : '';
+  const tags = site.tags.length
+    ? `<div class="tag-list">${renderTagList(site.tags, { linked: true })}</div>`
+    : 'No tags yet';
+
+  const content = `
+    <header>
+      <h1>${escapeHtml(site.name)}</h1>
+    </header>
+    <section>
+      <h2>About</h2>
+      ${description}
+      <dl class="detail-list">
+        <dt>Website</dt>
+        <dd>${website}</dd>
+        <dt>Location</dt>
+        <dd>${location ? escapeHtml(location) : 'Not shared yet'}${mapLink}</dd>
+        <dt>Tags</dt>
+        <dd>${tags}</dd>
+        <dt>Share</dt>
+        <dd><a class="text-link" href="${escapeAttribute(sitePath(site))}">${escapeHtml(sitePath(site))}</a></dd>
+      </dl>
+      <p><a class="text-link" href="/submit?site=${site.id}">Suggest changes to this listing</a></p>
+    </section>
+    <section>
+      <h2>Membership</h2>
+      ${renderMembership(site)}
+    </section>
+    <section>
+      <h2>Contacts</h2>
+      ${renderContacts(site)}
+    </section>
+    <section>
+      <h2>Upcoming events</h2>
+      ${renderUpcomingEvents(site, context)}
+    </section>
+    <section>
+      <h2>Stories</h2>
+      ${renderStories(site, context.stories)}
+    </section>
+    <section>
+      <h2>Community interest</h2>
+      ${renderInterestSummary(site, context.interestCount)}
+    </section>
+  `;
+
+  return renderLayout({
+    title: `${site.name} · SolarRoots Directory`,
+    content,
+    meta: {
+      url: new URL(sitePath(site), context.url).toString(),
+      description: metaDescription(
+        site.description,
+        `${site.name} is listed in the SolarRoots cooperative directory.`,
+      ),
+      structuredData: [organizationJsonLd(site, context.url)],
+    },
+  });
+}
+
+/**
+ * Serves `/sites/:id` and `/sites/:id-:slug`, redirecting every variant to the canonical
+ * slugged URL so shared links stay stable when a cooperative is renamed. Organizers signed in
+ * to the admin pages also see private contact details.
+ */
+export async function handleSitePage(
+  request: Request,
+  url: URL,
+  env: Env,
+  id: number,
+): Promise<Response> {
+  let site: SiteRecord | null;
+  let interestCount = 0;
+  let stories: Story[] = [];
+  let events: SiteEvent[] = [];
+  try {
+    site = await fetchSiteById(env.DB, id);
+    if (site) {
+      [interestCount, stories, events] = await Promise.all([
+        countInterestForOrganization(env.DB, site.name),
+        queryStories(env.DB, { siteId: id, limit: MAX_PROFILE_STORIES }),
+        queryEvents(env.DB, { siteId: id, when: 'upcoming', limit: MAX_PROFILE_EVENTS }),
+      ]);
+    }
+  } catch (error) {
+    console.error(`Failed to load site page ${id}`, error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+
+  if (!site) {
+    return renderNotFoundPage('That cooperative is not listed in the SolarRoots directory.');
+  }
+
+  const canonicalPath = sitePath(site);
+  if (url.pathname !== canonicalPath) {
+    return Response.redirect(new URL(canonicalPath, url).toString(), 301);
+  }
+
+  const showPrivate = await isOrganizerRequest(request, env);
+  return htmlResponse(
+    renderSiteProfile(site, { url, interestCount, stories, events, showPrivate }),
+  );
+}
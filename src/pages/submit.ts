@@ -0,0 +1,79 @@
+import submitTemplate from '../templates/submit.html';
+import type { OwnershipModel, SiteRecord } from '../types/directory';
+import type { Env } from '../types/env';
+import { OWNERSHIP_MODELS } from '../api/sites';
+import { fetchSiteById } from '../data/sites';
+import { escapeAttribute, escapeHtml, htmlResponse, renderTemplate } from '../utils/html';
+import { formatOwnershipModel } from './components';
+import { renderLayout, renderNotFoundPage } from './layout';
+
+function renderOwnershipOptions(selected: OwnershipModel | null): string {
+  return [
+    `<option value=""${selected === null ? ' selected' : ''}>Not specified</option>`,
+    ...OWNERSHIP_MODELS.map(
+      (model) =>
+        `<option value="${model}"${model === selected ? ' selected' : ''}>${escapeHtml(
+          formatOwnershipModel(model),
+        )}</option>`,
+    ),
+  ].join('\n');
+}
+
+export function renderSubmitPage(url: URL, site: SiteRecord | null): string {
+  const content = renderTemplate(submitTemplate, {
+    heading: site ? `Suggest changes to ${escapeHtml(site.name)}` : 'Add your cooperative',
+    intro: site
+      ? 'Update the details below and a moderator will review the changes before they go live.'
+      : 'Tell us about your cooperative. A moderator reviews every submission before it appears in the directory.',
+    siteId: site ? String(site.id) : '',
+    name: escapeAttribute(site?.name ?? ''),
+    website: escapeAttribute(site?.website ?? ''),
+    description: escapeHtml(site?.description ?? ''),
+    tags: escapeAttribute(site?.tags.join(', ') ?? ''),
+    address: escapeAttribute(site?.address ?? ''),
+    region: escapeAttribute(site?.region ?? ''),
+    latitude: site && site.latitude !== null ? String(site.latitude) : '',
+    longitude: site && site.longitude !== null ? String(site.longitude) : '',
+    ownershipOptions: renderOwnershipOptions(site?.ownershipModel ?? null),
+    memberCount: site && site.memberCount !== null ? String(site.memberCount) : '',
+    foundedYear: site && site.foundedYear !== null ? String(site.foundedYear) : '',
+    capacityKw: site && site.capacityKw !== null ? String(site.capacityKw) : '',
+    howToJoin: escapeHtml(site?.howToJoin ?? ''),
+  });
+
+  return renderLayout({
+    title: `${site ? 'Suggest changes' : 'Add your cooperative'} · SolarRoots Directory`,
+    content,
+    // Pre-filled copies of the form all point search engines at the blank one.
+    meta: {
+      url: new URL('/submit', url).toString(),
+      description:
+        'List your solar or regenerative cooperative in the SolarRoots directory. A moderator reviews every submission.',
+    },
+  });
+}
+
+/**
+ * Serves the public submission form. `?site=<id>` pre-fills it to propose changes to a listing.
+ */
+export async function handleSubmitPage(url: URL, env: Env): Promise<Response> {
+  const siteParam = url.searchParams.get('site');
+  if (!siteParam) {
+    return htmlResponse(renderSubmitPage(url, null));
+  }
+
+  const siteId = Number(siteParam);
+  if (!Number.isInteger(siteId) || siteId < 1) {
+    return renderNotFoundPage('We could not find that cooperative.');
+  }
+
+  try {
+    const site = await fetchSiteById(env.DB, siteId);
+    return site
+      ? htmlResponse(renderSubmitPage(url, site))
+      : renderNotFoundPage('We could not find that cooperative.');
+  } catch (error) {
+    console.error(`Failed to load submission form for site ${siteId}`, error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
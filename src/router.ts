@@ -0,0 +1,227 @@
+import type { Principal, Role } from './types/auth';
+import type { Env } from './types/env';
+import { withRole } from './api/auth';
+import { jsonResponse, methodNotAllowed } from './utils/http';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// `:name` parameters in a path template, each optionally followed by a `(pattern)`.
+type StripPattern<Param extends string> = Param extends `${infer Name}(${string}` ? Name : Param;
+type ParamName<Rest extends string> = Rest extends `${infer Head}/${string}`
+  ? StripPattern<Head>
+  : StripPattern<Rest>;
+type ParamNames<Path extends string> = Path extends `${string}:${infer Rest}`
+  ? ParamName<Rest> | ParamNames<Rest>
+  : never;
+
+export type PathParams<Path extends string> = { [Name in ParamNames<Path>]: string };
+
+export type RouteContext<Path extends string = string> = {
+  request: Request;
+  env: Env;
+  url: URL;
+  ctx: ExecutionContext;
+  params: PathParams<Path>;
+};
+
+export type QueryParameterDoc = {
+  name: string;
+  description: string;
+  /** JSON Schema for the value; plain strings when omitted. */
+  schema?: Record<string, unknown>;
+  required?: boolean;
+};
+
+/** What `/api/openapi.json` says about a route. Routes without docs are left out of it. */
+export type RouteDocs = {
+  summary: string;
+  /** OpenAPI tag grouping related operations, such as `Sites`. */
+  tag: string;
+  query?: QueryParameterDoc[];
+  /** Request body schemas by media type, or a component schema name for a JSON body. */
+  body?: string | Record<string, Record<string, unknown>>;
+  /** Success status; defaults to 200. */
+  status?: number;
+  /** Success body schemas by media type, or a component schema name for a JSON body. */
+  response?: string | Record<string, Record<string, unknown>>;
+};
+
+export type RouteParam = {
+  name: string;
+  /** Regular expression source the value must match. */
+  pattern: string;
+};
+
+export type Route = {
+  methods: readonly HttpMethod[];
+  /** The template the route was defined with, such as `/api/sites/:id(\d+)`. */
+  path: string;
+  params: RouteParam[];
+  role: Role | null;
+  docs: RouteDocs | null;
+  handle: (context: RouteContext) => Promise<Response>;
+  pattern: RegExp;
+};
+
+type RouteOptions = {
+  /** Minimum role; requests without it get the usual 401 or 403 before the handler runs. */
+  role?: Role;
+  docs?: RouteDocs;
+};
+
+const DEFAULT_PARAM_PATTERN = '[^/]+';
+const PREFLIGHT_HEADERS = 'authorization, content-type';
+const PREFLIGHT_MAX_AGE_SECONDS = 60 * 60 * 24;
+
+/**
+ * Turns a path template into an anchored regular expression with one named group per
+ * parameter. A single trailing slash is tolerated so `/directory/` reaches `/directory`.
+ */
+function compilePath(path: string): { pattern: RegExp; params: RouteParam[] } {
+  const params: RouteParam[] = [];
+  let source = '';
+  let index = 0;
+  while (index < path.length) {
+    const name = path[index] === ':' ? /^[A-Za-z]\w*/.exec(path.slice(index + 1))?.[0] : null;
+    if (!name) {
+      source += path[index].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      index += 1;
+      continue;
+    }
+
+    index += name.length + 1;
+    let pattern = DEFAULT_PARAM_PATTERN;
+    if (path[index] === '(') {
+      let depth = 0;
+      let end = index;
+      for (; end < path.length; end += 1) {
+        if (path[end] === '\\') {
+          end += 1;
+        } else if (path[end] === '(') {
+          depth += 1;
+        } else if (path[end] === ')' && --depth === 0) {
+          break;
+        }
+      }
+      pattern = path.slice(index + 1, end);
+      index = end + 1;
+    }
+    params.push({ name, pattern });
+    source += `(?<${name}>${pattern})`;
+  }
+
+  return { pattern: new RegExp(`^${source}${path === '/' ? '' : '/?'}$`), params };
+}
+
+export function route<Path extends string>(
+  method: HttpMethod | readonly HttpMethod[],
+  path: Path,
+  options: RouteOptions & { role: Role },
+  handler: (context: RouteContext<Path>, principal: Principal) => Response | Promise<Response>,
+): Route;
+export function route<Path extends string>(
+  method: HttpMethod | readonly HttpMethod[],
+  path: Path,
+  options: RouteOptions,
+  handler: (context: RouteContext<Path>) => Response | Promise<Response>,
+): Route;
+/**
+ * Defines a route. `GET` routes also answer `HEAD`. With a `role`, the handler only runs for
+ * requests authenticated with at least that role and receives the principal.
+ */
+export function route<Path extends string>(
+  method: HttpMethod | readonly HttpMethod[],
+  path: Path,
+  options: RouteOptions,
+  handler: (context: RouteContext<Path>, principal: Principal) => Response | Promise<Response>,
+): Route {
+  const { pattern, params } = compilePath(path);
+  const role = options.role ?? null;
+  return {
+    methods: typeof method === 'string' ? [method] : method,
+    path,
+    params,
+    role,
+    docs: options.docs ?? null,
+    pattern,
+    handle: async (context) => {
+      const typed = context as RouteContext<Path>;
+      if (!role) {
+        return handler(typed, undefined as never);
+      }
+      return withRole(context.request, context.env, role, async (principal) =>
+        handler(typed, principal),
+      );
+    },
+  };
+}
+
+function allowedMethods(routes: readonly Route[]): string[] {
+  const methods = new Set<string>(routes.flatMap((candidate) => candidate.methods));
+  if (methods.has('GET')) {
+    methods.add('HEAD');
+  }
+  methods.add('OPTIONS');
+  return Array.from(methods);
+}
+
+export function isApiPath(pathname: string): boolean {
+  return pathname === '/api' || pathname.startsWith('/api/');
+}
+
+export type Router = {
+  routes: readonly Route[];
+  handle: (request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>;
+};
+
+/**
+ * Dispatches requests to the first route whose path matches and that accepts the method.
+ * Paths that match no route get `notFound`; paths that match with another method get a JSON
+ * 405 listing the allowed methods, or a CORS preflight response for `OPTIONS`. Handlers that
+ * throw get a JSON 500.
+ */
+export function createRouter(
+  routes: readonly Route[],
+  notFound: (url: URL) => Response,
+): Router {
+  return {
+    routes,
+    async handle(request, env, ctx) {
+      const url = new URL(request.url);
+      const matches = routes.flatMap((candidate) => {
+        const match = candidate.pattern.exec(url.pathname);
+        return match ? [{ route: candidate, params: { ...match.groups } }] : [];
+      });
+      if (!matches.length) {
+        return notFound(url);
+      }
+
+      const method = request.method === 'HEAD' ? 'GET' : request.method;
+      const match = matches.find((candidate) =>
+        candidate.route.methods.includes(method as HttpMethod),
+      );
+      if (!match) {
+        const allow = allowedMethods(matches.map((candidate) => candidate.route)).join(', ');
+        if (request.method === 'OPTIONS') {
+          return new Response(null, {
+            status: 204,
+            headers: {
+              Allow: allow,
+              'Access-Control-Allow-Methods': allow,
+              'Access-Control-Allow-Headers': PREFLIGHT_HEADERS,
+              'Access-Control-Max-Age': String(PREFLIGHT_MAX_AGE_SECONDS),
+            },
+          });
+        }
+        return methodNotAllowed(allow);
+      }
+
+      try {
+        return await match.route.handle({ request, env, url, ctx, params: match.params });
+      } catch (error) {
+        console.error(`Unhandled error for ${request.method} ${url.pathname}`, error);
+        return jsonResponse({ message: 'Internal Server Error' }, { status: 500 });
+      }
+    },
+  };
+}
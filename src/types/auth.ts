@@ -0,0 +1,16 @@
+export type Role = 'organizer' | 'moderator' | 'admin';
+
+export type Principal = {
+  tokenId: number | null;
+  label: string;
+  role: Role;
+};
+
+export type ApiTokenRecord = {
+  id: number;
+  label: string;
+  role: Role;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+};
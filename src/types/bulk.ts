@@ -0,0 +1,29 @@
+import type { FieldError } from '../utils/http';
+import type { FieldChange } from './history';
+
+export type BulkFormat = 'csv' | 'json';
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+/** How an import row was matched to an existing site. */
+export type ImportMatch = 'id' | 'name' | 'website';
+
+export type ImportRowResult = {
+  /** Spreadsheet row number for CSV (the header is row 1), array position from 1 for JSON. */
+  row: number;
+  action: ImportAction;
+  name: string | null;
+  siteId: number | null;
+  matchedBy: ImportMatch | null;
+  changes: FieldChange[];
+  errors: FieldError[];
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  format: BulkFormat;
+  totals: Record<ImportAction, number>;
+  /** CSV columns the import does not recognise and skipped. */
+  ignoredColumns: string[];
+  rows: ImportRowResult[];
+};
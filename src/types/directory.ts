@@ -1,7 +1,103 @@
-export type SiteRecord = {
-  id: number;
-  name: string;
-  description: string | null;
-  website: string | null;
-  tags: string[];
+export type SiteLocation = {
+  address: string | null;
+  region: string | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export type OwnershipModel =
+  | 'consumer'
+  | 'worker'
+  | 'multi-stakeholder'
+  | 'community'
+  | 'municipal'
+  | 'other';
+
+export type SiteMembership = {
+  ownershipModel: OwnershipModel | null;
+  memberCount: number | null;
+  foundedYear: number | null;
+  capacityKw: number | null;
+  /** Free text on how to become a member. */
+  howToJoin: string | null;
+};
+
+export type ContactField = 'name' | 'email' | 'phone';
+
+export type ContactVisibility = 'public' | 'private';
+
+export type SiteContact = {
+  /** What the person does for the cooperative, such as "Membership secretary". */
+  role: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  /** Private values are only shown to organizers; public responses carry null instead. */
+  visibility: Record<ContactField, ContactVisibility>;
+};
+
+export type SiteRecord = SiteLocation &
+  SiteMembership & {
+    id: number;
+    name: string;
+    description: string | null;
+    website: string | null;
+    tags: string[];
+    contacts: SiteContact[];
+  };
+
+export type SiteInput = SiteLocation &
+  SiteMembership & {
+    name: string;
+    description: string | null;
+    website: string | null;
+    tags: string[];
+    contacts: SiteContact[];
+  };
+
+export type NearbyFilter = {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+};
+
+export type SiteSort = 'newest' | 'name';
+
+export type TagMatchMode = 'any' | 'all';
+
+/** A site with when it was listed and when its listing last changed. */
+export type DatedSite = SiteRecord & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SiteQueryOptions = {
+  q?: string | null;
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  region?: string | null;
+  near?: NearbyFilter | null;
+  /** Only include sites that have both latitude and longitude. */
+  hasCoordinates?: boolean;
+  sort?: SiteSort;
+  cursor?: string | null;
+  /** Page size; `null` loads every matching site. */
+  limit?: number | null;
+};
+
+export type SitePage = {
+  sites: SiteRecord[];
+  nextCursor: string | null;
+  total: number;
+};
+
+export type TagSummary = {
+  label: string;
+  siteCount: number;
+};
+
+export type RegionSummary = {
+  region: string;
+  siteCount: number;
+  center: { latitude: number; longitude: number } | null;
 };
@@ -0,0 +1,15 @@
+export interface Env {
+  DB: D1Database;
+  /** Optional bootstrap secret that is always accepted as an admin bearer token. */
+  ADMIN_TOKEN?: string;
+  /** Comma-separated origins allowed to call the API from browsers, e.g. partner sites. */
+  ALLOWED_ORIGINS?: string;
+  /** Secret key for the mail API. Without it (or `MAIL_TRANSPORT`), signups answer 503. */
+  MAIL_API_KEY?: string;
+  /** Sender address for confirmation emails, e.g. `SolarRoots <hello@solarroots.org>`. */
+  MAIL_FROM?: string;
+  /** Mail API endpoint; defaults to Resend's `https://api.resend.com/emails`. */
+  MAIL_API_URL?: string;
+  /** Set to `console` in `.dev.vars` to log confirmation links instead of sending mail. */
+  MAIL_TRANSPORT?: string;
+}
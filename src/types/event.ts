@@ -0,0 +1,33 @@
+export type EventInput = {
+  siteId: number;
+  title: string;
+  description: string | null;
+  location: string | null;
+  /** UTC instant, `YYYY-MM-DDTHH:MM:SSZ`. */
+  startsAt: string;
+  /** UTC instant, `YYYY-MM-DDTHH:MM:SSZ`; never before `startsAt`. */
+  endsAt: string;
+  /** IANA time zone the event is held in, used when showing its times. */
+  timezone: string;
+};
+
+/** Named `SiteEvent` so it does not shadow the DOM `Event` global. */
+export type SiteEvent = EventInput & {
+  id: number;
+  siteName: string;
+  sequence: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type EventTiming = 'upcoming' | 'past' | 'all';
+
+export type EventQueryOptions = {
+  siteId?: number | null;
+  /** Upcoming events (not yet ended) list soonest first; past events list most recent first. */
+  when?: EventTiming;
+  /** Only events that ended at or after this UTC instant. */
+  endedSince?: string | null;
+  limit?: number;
+};
@@ -0,0 +1,58 @@
+import type { Principal } from './auth';
+import type { SiteRecord } from './directory';
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+/** Who made a change to a site, and optionally why. */
+export type SiteChange = {
+  actor: Principal;
+  note?: string | null;
+};
+
+export type SiteRevision = {
+  siteId: number;
+  revision: number;
+  action: RevisionAction;
+  /** The site as it was after the change; for deletions, as it was just before. */
+  snapshot: SiteRecord;
+  actor: string;
+  actorTokenId: number | null;
+  note: string | null;
+  createdAt: string;
+};
+
+export type FieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type SiteRevisionWithDiff = SiteRevision & {
+  /** Fields that differ from the previous revision. */
+  changes: FieldChange[];
+};
+
+export type AuditEntry = {
+  id: number;
+  actor: string;
+  actorTokenId: number | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+export type AuditQueryOptions = {
+  action?: string | null;
+  targetType?: string | null;
+  targetId?: string | null;
+  /** Id of the last entry on the previous page. */
+  cursor?: number | null;
+  limit?: number;
+};
+
+export type AuditPage = {
+  entries: AuditEntry[];
+  nextCursor: number | null;
+};
@@ -0,0 +1,38 @@
+export type InterestPayload = {
+  name: string | null;
+  email: string;
+  organization: string | null;
+  message: string | null;
+};
+
+export type InterestStatus = 'new' | 'contacted' | 'converted' | 'spam';
+
+export type InterestSignup = InterestPayload & {
+  id: number;
+  status: InterestStatus;
+  siteId: number | null;
+  createdAt: string;
+  statusUpdatedAt: string | null;
+  confirmedAt: string | null;
+};
+
+export type InterestQueryOptions = {
+  /** Inclusive lower bound on the signup date, as `YYYY-MM-DD`. */
+  from?: string | null;
+  /** Inclusive upper bound on the signup date, as `YYYY-MM-DD`. */
+  to?: string | null;
+  organization?: string | null;
+  q?: string | null;
+  status?: InterestStatus | null;
+  confirmed?: boolean | null;
+  /** Id of the last signup on the previous page. */
+  cursor?: number | null;
+  /** Page size; `null` loads every matching signup. */
+  limit?: number | null;
+};
+
+export type InterestPage = {
+  signups: InterestSignup[];
+  nextCursor: number | null;
+  total: number;
+};
@@ -0,0 +1,61 @@
+/**
+ * `failing` means the last check failed; `broken` means it has failed several checks in a row,
+ * so a single timeout does not flag a site.
+ */
+export type LinkStatus = 'ok' | 'redirected' | 'failing' | 'broken' | 'unchecked';
+
+export type LinkCheckResult = {
+  /** Status of the last response, after following redirects; null when no response arrived. */
+  statusCode: number | null;
+  /** Where the website redirects to, when it does. */
+  redirectUrl: string | null;
+  error: string | null;
+  ok: boolean;
+};
+
+/** The stored outcome of the latest check of a site's website. */
+export type LinkCheckRecord = {
+  siteId: number;
+  url: string;
+  statusCode: number | null;
+  redirectUrl: string | null;
+  error: string | null;
+  checkedAt: string;
+  consecutiveFailures: number;
+  lastOkAt: string | null;
+};
+
+export type LinkReportRow = {
+  siteId: number;
+  siteName: string;
+  website: string;
+  check: LinkCheckRecord | null;
+};
+
+export type LinkHealth = {
+  status: LinkStatus;
+  statusCode: number | null;
+  redirectUrl: string | null;
+  error: string | null;
+  checkedAt: string | null;
+  consecutiveFailures: number;
+  lastOkAt: string | null;
+};
+
+export type LinkReportEntry = LinkHealth & {
+  siteId: number;
+  siteName: string;
+  website: string;
+};
+
+export type LinkReport = {
+  generatedAt: string;
+  brokenAfterFailures: number;
+  totals: Record<LinkStatus, number>;
+  sites: LinkReportEntry[];
+};
+
+export type LinkCheckRunSummary = {
+  checked: number;
+  failed: number;
+};
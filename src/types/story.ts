@@ -0,0 +1,26 @@
+export type StoryInput = {
+  siteId: number;
+  /** One of the vision's `storytelling_focus` areas at the time of writing. */
+  focus: string;
+  title: string;
+  /** Sanitized Markdown. */
+  body: string;
+  /** `YYYY-MM-DD`. */
+  publishedOn: string;
+};
+
+export type Story = StoryInput & {
+  id: number;
+  siteName: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type StoryQueryOptions = {
+  siteId?: number | null;
+  focus?: string | null;
+  /** Only stories about sites carrying this tag (slug or alias). */
+  tag?: string | null;
+  limit?: number;
+};
@@ -0,0 +1,33 @@
+import type { SiteInput } from './directory';
+
+export type SubmissionStatus = 'pending' | 'approved' | 'rejected';
+
+export type SubmissionInput = {
+  /** Existing site the submission proposes changes to, or null for a new cooperative. */
+  siteId: number | null;
+  site: SiteInput;
+  submitterName: string | null;
+  submitterEmail: string;
+};
+
+export type SiteSubmission = SubmissionInput & {
+  id: number;
+  status: SubmissionStatus;
+  reviewReason: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+};
+
+export type SubmissionQueryOptions = {
+  status?: SubmissionStatus | null;
+  /** Id of the last submission on the previous page. */
+  cursor?: number | null;
+  limit?: number;
+};
+
+export type SubmissionPage = {
+  submissions: SiteSubmission[];
+  nextCursor: number | null;
+  total: number;
+};
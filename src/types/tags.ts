@@ -0,0 +1,25 @@
+export type TagCategory = 'technology' | 'ownership' | 'region' | 'practice';
+
+export type TagRecord = {
+  id: number;
+  label: string;
+  slug: string;
+  category: TagCategory | null;
+  parentId: number | null;
+  /** Other spellings that resolve to this tag, by their original label. */
+  aliases: string[];
+  /** Sites carrying this tag directly. */
+  siteCount: number;
+};
+
+export type TagNode = TagRecord & {
+  children: TagNode[];
+};
+
+/** Fields an admin can change on a tag; absent fields keep their current values. */
+export type TagUpdate = {
+  label: string;
+  category: TagCategory | null;
+  parentId: number | null;
+  aliases: string[];
+};
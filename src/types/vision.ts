@@ -0,0 +1,63 @@
+import type {
+  VisionAssessment,
+  VisionAssessmentMetrics,
+  VisionConfig,
+  VisionFormat,
+} from '../config/vision';
+import type { SiteRecord } from './directory';
+
+/** The vision assessment as recorded by the daily snapshot job. */
+export type VisionSnapshot = {
+  /** Day the snapshot describes, as `YYYY-MM-DD` (UTC). */
+  date: string;
+  progressScore: number;
+  siteCount: number;
+  totalTags: number;
+  averageTagsPerSite: number;
+  coverageRatio: number;
+  metrics: VisionAssessmentMetrics;
+  createdAt: string;
+};
+
+export type VisionHistoryOptions = {
+  /** Inclusive lower bound on the snapshot date, as `YYYY-MM-DD`. */
+  from?: string | null;
+  /** Inclusive upper bound on the snapshot date, as `YYYY-MM-DD`. */
+  to?: string | null;
+};
+
+/** A stored vision config override. Versions are numbered by `id`; the newest one is active. */
+export type VisionConfigVersion = {
+  id: number;
+  format: VisionFormat;
+  /** The document's own `version` label, if it sets one. */
+  versionLabel: string | null;
+  hash: string;
+  actor: string;
+  actorTokenId: number | null;
+  note: string | null;
+  createdAt: string;
+};
+
+export type VisionConfigVersionWithSource = VisionConfigVersion & {
+  source: string;
+};
+
+/** The vision config in effect: the newest stored version, or the bundled YAML. */
+export type ActiveVision = {
+  config: VisionConfig;
+  format: VisionFormat;
+  source: string;
+  hash: string;
+  /** Id of the stored version, or null for the bundled YAML. */
+  storedVersion: number | null;
+  /** Tag alias slugs mapped to the slug of the tag they resolve to, for assessments. */
+  tagAliases: ReadonlyMap<string, string>;
+};
+
+/** Every site scored against the active vision, with the stories told so far. */
+export type DirectoryAssessment = {
+  sites: SiteRecord[];
+  vision: ActiveVision;
+  assessment: VisionAssessment;
+};
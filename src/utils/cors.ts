@@ -0,0 +1,51 @@
+import type { Env } from '../types/env';
+
+/**
+ * Reads the comma-separated `ALLOWED_ORIGINS` variable. A `*` entry allows any origin.
+ */
+export function parseAllowedOrigins(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Returns the value for `Access-Control-Allow-Origin`, or null when the request's origin
+ * is not on the allow-list. Same-origin requests need no CORS headers.
+ */
+export function resolveAllowedOrigin(request: Request, env: Env): string | null {
+  const origin = request.headers.get('Origin');
+  if (!origin) {
+    return null;
+  }
+
+  const allowed = parseAllowedOrigins(env.ALLOWED_ORIGINS);
+  if (allowed.includes('*')) {
+    return '*';
+  }
+  return allowed.includes(origin) ? origin : null;
+}
+
+export function isOriginAllowed(request: Request, url: URL, env: Env): boolean {
+  const origin = request.headers.get('Origin');
+  return !origin || origin === url.origin || resolveAllowedOrigin(request, env) !== null;
+}
+
+/**
+ * Adds the allow-list CORS headers to an API response. Responses are copied because
+ * redirects and fetched responses have immutable headers.
+ */
+export function withCors(request: Request, env: Env, response: Response): Response {
+  const allowedOrigin = resolveAllowedOrigin(request, env);
+  const result = new Response(response.body, response);
+  result.headers.append('Vary', 'Origin');
+  if (allowedOrigin) {
+    result.headers.set('Access-Control-Allow-Origin', allowedOrigin);
+  } else {
+    result.headers.delete('Access-Control-Allow-Origin');
+    result.headers.delete('Access-Control-Allow-Methods');
+    result.headers.delete('Access-Control-Allow-Headers');
+  }
+  return result;
+}
@@ -0,0 +1,13 @@
+const encoder = new TextEncoder();
+
+export function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256(value: string): Promise<ArrayBuffer> {
+  return crypto.subtle.digest('SHA-256', encoder.encode(value));
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  return toHex(await sha256(value));
+}
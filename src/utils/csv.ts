@@ -0,0 +1,87 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+function formatCsvCell(value: CsvCell): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialises rows as RFC 4180 CSV with CRLF line endings.
+ */
+export function toCsv(rows: ReadonlyArray<ReadonlyArray<CsvCell>>): string {
+  return rows.map((row) => row.map(formatCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Prefixes values that spreadsheet apps would evaluate as formulas, for exports of
+ * untrusted, user-submitted text.
+ */
+export function neutralizeFormula(value: string | null): string | null {
+  return value && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Undoes `neutralizeFormula`, so exported values import back unchanged.
+ */
+export function restoreFormula(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+/**
+ * Parses RFC 4180 CSV into rows of raw cell strings. Accepts CRLF or LF line endings, quoted
+ * cells with embedded separators, quotes, and newlines, and a leading byte order mark. Blank
+ * lines come back as a single empty cell so row numbers still match a spreadsheet's. Throws when
+ * a quoted cell is never closed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('The CSV ends inside a quoted cell.');
+  }
+  if (cell !== '' || row.length) {
+    endRow();
+  }
+  return rows;
+}
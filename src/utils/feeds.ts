@@ -0,0 +1,151 @@
+import { parseUtcInstant, toUtcInstant } from './time';
+import { escapeXml } from './xml';
+
+export type FeedItem = {
+  /** Permanent, globally unique id, such as a `tag:` URI. */
+  id: string;
+  url: string;
+  title: string;
+  summary?: string | null;
+  /** Already-sanitised HTML. */
+  contentHtml?: string | null;
+  /** UTC instants, `YYYY-MM-DDTHH:MM:SSZ`, D1's `YYYY-MM-DD HH:MM:SS`, or a `YYYY-MM-DD` date. */
+  published: string;
+  updated: string;
+  categories: string[];
+};
+
+export type FeedDocument = {
+  title: string;
+  description: string;
+  /** The HTML page the feed mirrors. */
+  homeUrl: string;
+  /** This feed's own URL, for self links. */
+  feedUrl: string;
+  /** Credited as the author of the feed as a whole. */
+  authorName: string;
+  items: FeedItem[];
+};
+
+/**
+ * Formats an instant as an RFC 3339 timestamp in UTC, for Atom and JSON Feed.
+ */
+export function formatFeedDate(instant: string): string {
+  return toUtcInstant(parseUtcInstant(instant));
+}
+
+/**
+ * The latest `updated` among the items, or now for an empty feed.
+ */
+function feedUpdated(feed: FeedDocument): string {
+  const latest = feed.items.reduce<Date | null>((current, item) => {
+    const updated = parseUtcInstant(item.updated);
+    return !current || updated > current ? updated : current;
+  }, null);
+  return toUtcInstant(latest ?? new Date());
+}
+
+/**
+ * Renders an Atom 1.0 feed (RFC 4287).
+ */
+export function renderAtomFeed(feed: FeedDocument): string {
+  const entries = feed.items.map((item) => {
+    const lines = [
+      '  <entry>',
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title type="text">${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `    <published>${formatFeedDate(item.published)}</published>`,
+      `    <updated>${formatFeedDate(item.updated)}</updated>`,
+    ];
+    if (item.summary) {
+      lines.push(`    <summary type="text">${escapeXml(item.summary)}</summary>`);
+    }
+    if (item.contentHtml) {
+      lines.push(`    <content type="html">${escapeXml(item.contentHtml)}</content>`);
+    }
+    for (const category of item.categories) {
+      lines.push(`    <category term="${escapeXml(category)}"/>`);
+    }
+    lines.push('  </entry>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.feedUrl)}</id>`,
+    `  <title type="text">${escapeXml(feed.title)}</title>`,
+    `  <subtitle type="text">${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>`,
+    `  <updated>${feedUpdated(feed)}</updated>`,
+    `  <author><name>${escapeXml(feed.authorName)}</name></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renders an RSS 2.0 feed, with an Atom self link as the RSS Advisory Board recommends.
+ */
+export function renderRssFeed(feed: FeedDocument): string {
+  const items = feed.items.map((item) => {
+    const lines = [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `      <pubDate>${parseUtcInstant(item.published).toUTCString()}</pubDate>`,
+    ];
+    const description = item.contentHtml ?? item.summary;
+    if (description) {
+      lines.push(`      <description>${escapeXml(description)}</description>`);
+    }
+    for (const category of item.categories) {
+      lines.push(`      <category>${escapeXml(category)}</category>`);
+    }
+    lines.push('    </item>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    `    <lastBuildDate>${new Date(feedUpdated(feed)).toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renders a JSON Feed 1.1 document (https://www.jsonfeed.org/version/1.1/).
+ */
+export function renderJsonFeed(feed: FeedDocument): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    description: feed.description,
+    authors: [{ name: feed.authorName }],
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary ?? '' }),
+      ...(item.summary ? { summary: item.summary } : {}),
+      date_published: formatFeedDate(item.published),
+      date_modified: formatFeedDate(item.updated),
+      ...(item.categories.length ? { tags: item.categories } : {}),
+    })),
+  });
+}
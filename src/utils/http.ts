@@ -0,0 +1,24 @@
+export type FieldError = {
+  field: string;
+  message: string;
+};
+
+function setDefaultHeader(headers: Headers, name: string, value: string): void {
+  if (!headers.has(name)) {
+    headers.set(name, value);
+  }
+}
+
+export function jsonResponse(body: unknown, init?: ResponseInit): Response {
+  const headers = new Headers(init?.headers);
+  setDefaultHeader(headers, 'content-type', 'application/json; charset=UTF-8');
+  return new Response(JSON.stringify(body), { ...init, headers });
+}
+
+export function validationErrorResponse(message: string, errors: FieldError[]): Response {
+  return jsonResponse({ message, errors }, { status: 400 });
+}
+
+export function methodNotAllowed(allow: string): Response {
+  return jsonResponse({ message: 'Method Not Allowed' }, { status: 405, headers: { Allow: allow } });
+}
@@ -0,0 +1,115 @@
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+export type IcalEvent = {
+  uid: string;
+  /** UTC instants, `YYYY-MM-DDTHH:MM:SSZ` or D1's `YYYY-MM-DD HH:MM:SS`. */
+  start: string;
+  end: string;
+  stamp: string;
+  created?: string;
+  lastModified?: string;
+  sequence: number;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+};
+
+export type IcalCalendar = {
+  name: string;
+  description?: string;
+  events: IcalEvent[];
+};
+
+/**
+ * Escapes a TEXT value (RFC 5545 §3.3.11): backslashes, semicolons, commas, and newlines.
+ */
+export function escapeIcalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n?|\n/g, '\\n');
+}
+
+/**
+ * Folds a content line into chunks of at most 75 octets (RFC 5545 §3.1), never splitting a
+ * multi-byte character. Continuation lines start with a single space.
+ */
+export function foldIcalLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const character of line) {
+    const size = encoder.encode(character).length;
+    const limit = chunks.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Formats a UTC instant as an iCalendar DATE-TIME in UTC, such as `20261102T180000Z`.
+ */
+export function formatIcalDateTime(instant: string): string {
+  const normalized = /[zZ]$/.test(instant) ? instant : `${instant.replace(' ', 'T')}Z`;
+  return new Date(normalized).toISOString().replace(/\.\d{3}Z$/, 'Z').replace(/[-:]/g, '');
+}
+
+/**
+ * Renders a VCALENDAR with one VEVENT per event. Times are written in UTC, which every client
+ * understands without the calendar having to carry VTIMEZONE definitions.
+ */
+export function renderIcalendar(calendar: IcalCalendar): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SolarRoots//Directory Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcalText(calendar.name)}`,
+  ];
+  if (calendar.description) {
+    lines.push(`X-WR-CALDESC:${escapeIcalText(calendar.description)}`);
+  }
+
+  for (const event of calendar.events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatIcalDateTime(event.stamp)}`,
+      `DTSTART:${formatIcalDateTime(event.start)}`,
+      `DTEND:${formatIcalDateTime(event.end)}`,
+      `SEQUENCE:${event.sequence}`,
+      `SUMMARY:${escapeIcalText(event.summary)}`,
+    );
+    if (event.created) {
+      lines.push(`CREATED:${formatIcalDateTime(event.created)}`);
+    }
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${formatIcalDateTime(event.lastModified)}`);
+    }
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcalText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeIcalText(event.location)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldIcalLine).join('\r\n')}\r\n`;
+}
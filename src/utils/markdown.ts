@@ -0,0 +1,163 @@
+import { escapeAttribute, escapeHtml } from './html';
+
+const HTML_TAG_PATTERN = /<!--[\s\S]*?-->|<\/?[a-zA-Z][^>]*>/g;
+
+const CONTROL_CHARACTER_PATTERN = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g;
+
+const LINK_PATTERN = /\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g;
+
+const SAFE_URL_PATTERN = /^(?:https?:\/\/|mailto:|\/(?![/\\]))/i;
+
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|(\d+)\.)\s+(.*)$/;
+
+/**
+ * Normalizes Markdown before it is stored: line endings become `\n`, control characters and raw
+ * HTML tags are removed, and trailing whitespace is trimmed. Rendering escapes everything again,
+ * so this keeps the stored source readable rather than being the only line of defence.
+ */
+export function sanitizeMarkdown(source: string): string {
+  return source
+    .replace(/\r\n?/g, '\n')
+    .replace(CONTROL_CHARACTER_PATTERN, '')
+    .replace(HTML_TAG_PATTERN, '')
+    .split('\n')
+    .map((line) => line.replace(/\s+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function renderEmphasis(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(?!\s)(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(?!\s)([^*]+?)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?!\s)([^_]+?)_(?![\w])/g, '$1<em>$2</em>');
+}
+
+function renderLinks(text: string): string {
+  let html = '';
+  let last = 0;
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const [whole, label, href] = match;
+    const index = match.index ?? 0;
+    html += renderEmphasis(text.slice(last, index));
+    html += SAFE_URL_PATTERN.test(href)
+      ? `<a href="${escapeAttribute(href)}"${
+          href.startsWith('/') ? '' : ' rel="nofollow noopener noreferrer"'
+        }>${renderEmphasis(label)}</a>`
+      : renderEmphasis(label);
+    last = index + whole.length;
+  }
+  return html + renderEmphasis(text.slice(last));
+}
+
+function renderInline(text: string): string {
+  return text
+    .split(/(`[^`]+`)/g)
+    .map((part, index) =>
+      index % 2 ? `<code>${escapeHtml(part.slice(1, -1))}</code>` : renderLinks(part),
+    )
+    .join('');
+}
+
+/**
+ * Renders the Markdown subset stories use: paragraphs, `#`–`###` headings (as `h3`–`h5`, below
+ * the page's own headings), bulleted and numbered lists, block quotes, fenced code, inline code,
+ * emphasis, and links. All text is escaped, and only `http(s):`, `mailto:`, and same-site links
+ * become anchors.
+ */
+export function renderMarkdown(source: string): string {
+  const lines = sanitizeMarkdown(source).split('\n');
+  const blocks: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].startsWith('```')) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      index += 1;
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) + 2;
+      blocks.push(`<h${level}>${renderInline(heading[2].replace(/\s+#+$/, ''))}</h${level}>`);
+      index += 1;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (index < lines.length && lines[index].startsWith('>')) {
+        quoted.push(lines[index].replace(/^>\s?/, ''));
+        index += 1;
+      }
+      blocks.push(`<blockquote><p>${renderInline(quoted.join(' ').trim())}</p></blockquote>`);
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem) {
+      const ordered = listItem[1] !== undefined;
+      const items: string[] = [];
+      while (index < lines.length) {
+        const item = lines[index].match(LIST_ITEM_PATTERN);
+        if (!item || (item[1] !== undefined) !== ordered) {
+          break;
+        }
+        items.push(`<li>${renderInline(item[2])}</li>`);
+        index += 1;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>${items.join('')}</${tag}>`);
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    index += 1;
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !/^(?:```|#{1,6}\s|>)/.test(lines[index]) &&
+      !LIST_ITEM_PATTERN.test(lines[index])
+    ) {
+      paragraph.push(lines[index].trim());
+      index += 1;
+    }
+    blocks.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+  }
+
+  return blocks.join('\n');
+}
+
+/**
+ * Plain-text preview of Markdown, cut at a word boundary near `length` characters.
+ */
+export function markdownExcerpt(source: string, length = 200): string {
+  const text = sanitizeMarkdown(source)
+    .replace(/^```.*$/gm, '')
+    .replace(/^\s*(?:#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(LINK_PATTERN, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= length) {
+    return text;
+  }
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:]+$/, '')}…`;
+}
@@ -0,0 +1,102 @@
+const LOCAL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * Formats an instant as `YYYY-MM-DDTHH:MM:SSZ`, the form event times are stored and compared in.
+ */
+export function toUtcInstant(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Reads a stored UTC instant: `YYYY-MM-DDTHH:MM:SSZ`, D1's `YYYY-MM-DD HH:MM:SS`, or a bare
+ * `YYYY-MM-DD` date, taken as midnight UTC.
+ */
+export function parseUtcInstant(value: string): Date {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T00:00:00Z`);
+  }
+  return new Date(/[zZ]$|[+-]\d{2}:\d{2}$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Milliseconds `timeZone` is ahead of UTC at the instant `time`.
+ */
+function timeZoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(time));
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const local = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second'),
+  );
+  return local - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Parses `YYYY-MM-DDTHH:MM[:SS]` with an optional `Z` or `±HH:MM` offset. Times without an
+ * offset are wall-clock times in `timeZone`. Returns the UTC instant, or null when the value is
+ * not a real date and time.
+ */
+export function parseZonedTime(value: string, timeZone: string): string | null {
+  const match = value.match(LOCAL_TIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '00', offset] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  );
+  const check = new Date(wallClock);
+  if (
+    check.getUTCMonth() !== Number(month) - 1 ||
+    check.getUTCDate() !== Number(day) ||
+    check.getUTCHours() !== Number(hour) ||
+    check.getUTCMinutes() !== Number(minute) ||
+    check.getUTCSeconds() !== Number(second)
+  ) {
+    return null;
+  }
+
+  if (offset) {
+    const offsetMinutes =
+      offset === 'Z'
+        ? 0
+        : (offset.startsWith('-') ? -1 : 1) *
+          (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(4, 6)));
+    return toUtcInstant(new Date(wallClock - offsetMinutes * 60_000));
+  }
+
+  // The offset at the wall-clock time read as UTC is usually right; near a DST change the
+  // second lookup corrects it.
+  const firstGuess = wallClock - timeZoneOffset(wallClock, timeZone);
+  const offsetAtGuess = timeZoneOffset(firstGuess, timeZone);
+  return toUtcInstant(new Date(wallClock - offsetAtGuess));
+}
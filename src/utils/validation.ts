@@ -0,0 +1,26 @@
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function sanitizeOptionalField(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  return trimmed.slice(0, maxLength);
+}
+
+/**
+ * Checks for a real calendar date formatted as YYYY-MM-DD.
+ */
+export function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  // Date.parse rolls days past the end of a month over, so compare the round trip.
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
@@ -0,0 +1,17 @@
+// XML 1.0 forbids most C0 controls, lone surrogates, U+FFFE, and U+FFFF even when escaped.
+const INVALID_XML_CHARACTERS =
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]|[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g;
+
+/**
+ * Escapes text for XML element content and attribute values, dropping characters XML 1.0
+ * cannot carry at all.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARACTERS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, startWorker } from './helpers/worker.mjs';
+
+const SITES = [
+  {
+    name: 'Ōtaki "Sunrise" Co-op, Ltd',
+    description: 'Line one.\nLine two, with a comma.',
+    website: 'https://otaki.example',
+    region: 'Kāpiti',
+    latitude: -40.75,
+    longitude: 175.15,
+    tags: ['Rooftop', 'Community Garden'],
+    ownershipModel: 'consumer',
+    memberCount: 340,
+    foundedYear: 2012,
+    capacityKw: 12.5,
+    howToJoin: '=HYPERLINK("https://otaki.example/join")',
+    contacts: [
+      {
+        role: 'Coordinator',
+        name: 'Mere',
+        email: 'mere@otaki.example',
+        phone: '021 555 0101',
+        visibility: { name: 'public', email: 'private', phone: 'private' },
+      },
+    ],
+  },
+  { name: 'Bare Minimum Solar' },
+];
+
+describe('/api/export and /api/import', () => {
+  let worker;
+
+  before(async () => {
+    worker = await startWorker();
+    for (const body of SITES) {
+      const response = await worker.request('POST', '/api/sites', { token: ADMIN_TOKEN, body });
+      assert.equal(response.status, 201);
+      await response.arrayBuffer();
+    }
+  });
+
+  after(() => worker.dispose());
+
+  async function importFile(format, body) {
+    const response = await worker.request('POST', `/api/import?format=${format}`, {
+      token: ADMIN_TOKEN,
+      body,
+      headers: { 'content-type': format === 'csv' ? 'text/csv' : 'application/json' },
+    });
+    assert.equal(response.status, 200);
+    return response.json();
+  }
+
+  for (const format of ['csv', 'json']) {
+    it(`imports its own ${format} export without changes`, async () => {
+      const exported = await worker.request('GET', `/api/export?format=${format}`, {
+        token: ADMIN_TOKEN,
+      });
+      assert.equal(exported.status, 200);
+      const report = await importFile(format, await exported.text());
+
+      const changed = report.rows.filter((row) => row.action !== 'unchanged');
+      assert.deepEqual(changed, []);
+      assert.equal(report.totals.unchanged, report.rows.length);
+      assert.ok(report.rows.length >= SITES.length);
+    });
+  }
+
+  it('keeps the CSV tag separator out of tag labels', async () => {
+    const response = await worker.request('POST', '/api/sites', {
+      token: ADMIN_TOKEN,
+      body: { name: 'Separator Co-op', tags: ['wind; solar'] },
+    });
+    assert.equal(response.status, 400);
+    assert.deepEqual(
+      (await response.json()).errors.map((error) => error.field),
+      ['tags[0]'],
+    );
+  });
+
+  it('reports numbers that are not plain decimals instead of importing them', async () => {
+    const csv = [
+      'id,name,member_count,founded_year,capacity_kw',
+      '0x1A,Hex Id Co-op,,,',
+      ',Hex Count Co-op,0x1A,,',
+      ',Exponent Year Co-op,,1e3,',
+      ',Infinite Capacity Co-op,,,Infinity',
+      ',Plain Numbers Co-op,12,1999,2.5',
+    ].join('\n');
+    const report = await importFile('csv', csv);
+
+    const fields = report.rows.map((row) => row.errors.map((error) => error.field));
+    assert.deepEqual(fields, [['id'], ['memberCount'], ['foundedYear'], ['capacityKw'], []]);
+  });
+});
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, startWorker } from './helpers/worker.mjs';
+
+const PRIVATE_EMAIL = 'treasurer@tidal.example';
+
+describe('directory caching', () => {
+  let worker;
+  let organizerToken;
+
+  before(async () => {
+    worker = await startWorker();
+    const issued = await worker.request('POST', '/api/admin/tokens', {
+      token: ADMIN_TOKEN,
+      body: { label: 'Cache tests', role: 'organizer' },
+    });
+    organizerToken = (await issued.json()).token;
+    const created = await worker.request('POST', '/api/sites', {
+      token: organizerToken,
+      body: {
+        name: 'Tidal Power Co-op',
+        contacts: [
+          {
+            role: 'Treasurer',
+            name: 'Tam',
+            email: PRIVATE_EMAIL,
+            visibility: { name: 'public', email: 'private' },
+          },
+        ],
+      },
+    });
+    assert.equal(created.status, 201);
+  });
+
+  after(() => worker.dispose());
+
+  async function addSite(name) {
+    const response = await worker.request('POST', '/api/sites', {
+      token: organizerToken,
+      body: { name },
+    });
+    assert.equal(response.status, 201);
+    await response.arrayBuffer();
+  }
+
+  it('tags public listings with a weak ETag that must be revalidated', async () => {
+    const response = await worker.request('GET', '/api/sites');
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('ETag'), /^W\/"\d+-[0-9a-f]{12}"$/);
+    assert.equal(response.headers.get('Cache-Control'), 'public, max-age=0, must-revalidate');
+    assert.match(response.headers.get('Vary'), /^Authorization, Cookie\b/);
+    assert.ok(!(await response.text()).includes(PRIVATE_EMAIL));
+  });
+
+  it('answers a matching If-None-Match with an empty 304', async () => {
+    const first = await worker.request('GET', '/api/sites');
+    const etag = first.headers.get('ETag');
+    const firstBody = await first.text();
+
+    for (const header of [etag, etag.replace(/^W\//, ''), `"other", ${etag}`]) {
+      const response = await worker.request('GET', '/api/sites', {
+        headers: { 'If-None-Match': header },
+      });
+      assert.equal(response.status, 304);
+      assert.equal(response.headers.get('ETag'), etag);
+      assert.equal(await response.text(), '');
+    }
+
+    const repeat = await worker.request('GET', '/api/sites');
+    assert.equal(repeat.headers.get('ETag'), etag);
+    assert.equal(await repeat.text(), firstBody);
+  });
+
+  it('changes the ETag and the body after a write', async () => {
+    const before = await worker.request('GET', '/api/sites');
+    const etag = before.headers.get('ETag');
+    await before.arrayBuffer();
+
+    await addSite('Fresh Listing Co-op');
+
+    const response = await worker.request('GET', '/api/sites', {
+      headers: { 'If-None-Match': etag },
+    });
+    assert.equal(response.status, 200);
+    assert.notEqual(response.headers.get('ETag'), etag);
+    const body = await response.json();
+    assert.ok(body.sites.some((site) => site.name === 'Fresh Listing Co-op'));
+  });
+
+  it('lets organizers past the shared cache so they see private contacts', async () => {
+    const publicResponse = await worker.request('GET', '/api/sites');
+    const etag = publicResponse.headers.get('ETag');
+    await publicResponse.arrayBuffer();
+
+    const response = await worker.request('GET', '/api/sites', {
+      token: organizerToken,
+      headers: { 'If-None-Match': etag },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('ETag'), null);
+    assert.ok((await response.text()).includes(PRIVATE_EMAIL));
+  });
+
+  it('invalidates the vision when a new one is stored', async () => {
+    const before = await worker.request('GET', '/api/vision');
+    const etag = before.headers.get('ETag');
+    const { vision } = await before.json();
+
+    const stored = await worker.request('PUT', '/api/vision', {
+      token: ADMIN_TOKEN,
+      body: { ...vision.config, mission: 'Power to the members.' },
+    });
+    assert.equal(stored.status, 200);
+    await stored.arrayBuffer();
+
+    const response = await worker.request('GET', '/api/vision', {
+      headers: { 'If-None-Match': etag },
+    });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).vision.config.mission, 'Power to the members.');
+  });
+
+  it('revalidates the feeds and the sitemap the same way', async () => {
+    for (const path of ['/feed.xml', '/sitemap.xml']) {
+      const first = await worker.request('GET', path);
+      const etag = first.headers.get('ETag');
+      assert.ok(etag, `${path} has no ETag`);
+      await first.arrayBuffer();
+
+      const cached = await worker.request('GET', path, { headers: { 'If-None-Match': etag } });
+      assert.equal(cached.status, 304);
+      await cached.arrayBuffer();
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, startWorker } from './helpers/worker.mjs';
+
+const encoder = new TextEncoder();
+
+describe('/api/events', () => {
+  let worker;
+  let organizerToken;
+  let siteId;
+  let otherSiteId;
+
+  before(async () => {
+    worker = await startWorker();
+    const issued = await worker.request('POST', '/api/admin/tokens', {
+      token: ADMIN_TOKEN,
+      body: { label: 'Event tests', role: 'organizer' },
+    });
+    organizerToken = (await issued.json()).token;
+    for (const name of ['Harbour Wind Co-op', 'Hillside Hydro']) {
+      const site = await worker.request('POST', '/api/sites', { token: organizerToken, body: { name } });
+      const { id } = await site.json();
+      if (siteId) {
+        otherSiteId = id;
+      } else {
+        siteId = id;
+      }
+    }
+  });
+
+  after(() => worker.dispose());
+
+  function createEvent(body) {
+    return worker.request('POST', '/api/events', {
+      token: organizerToken,
+      body: { siteId, title: 'Members meeting', ...body },
+    });
+  }
+
+  async function startsAt(localTime) {
+    const response = await createEvent({
+      startsAt: localTime,
+      endsAt: localTime,
+      timezone: 'Europe/Berlin',
+    });
+    assert.equal(response.status, 201);
+    return (await response.json()).startsAt;
+  }
+
+  it('validates time zones, dates, and the order of start and end', async () => {
+    const response = await createEvent({
+      startsAt: '2030-02-30T10:00',
+      endsAt: '2030-03-01T09:00',
+      timezone: 'Mars/Olympus_Mons',
+    });
+    assert.equal(response.status, 400);
+    assert.deepEqual(
+      (await response.json()).errors.map((error) => error.field).sort(),
+      ['startsAt', 'timezone'],
+    );
+
+    const backwards = await createEvent({ startsAt: '2030-03-01T10:00', endsAt: '2030-03-01T09:00' });
+    assert.equal(backwards.status, 400);
+    assert.equal((await backwards.json()).errors[0].field, 'endsAt');
+  });
+
+  it('stores wall-clock times in UTC across daylight saving changes', async () => {
+    assert.equal(await startsAt('2030-03-30T12:00'), '2030-03-30T11:00:00Z');
+    assert.equal(await startsAt('2030-04-01T12:00'), '2030-04-01T10:00:00Z');
+    assert.equal(await startsAt('2030-03-31T01:30'), '2030-03-31T00:30:00Z');
+    assert.equal(await startsAt('2030-03-31T03:30'), '2030-03-31T01:30:00Z');
+    assert.equal(await startsAt('2030-10-27T12:00'), '2030-10-27T11:00:00Z');
+  });
+
+  it('honours an explicit offset over the time zone', async () => {
+    assert.equal(await startsAt('2030-06-01T10:00+05:30'), '2030-06-01T04:30:00Z');
+  });
+
+  it('lists upcoming and past events by site', async () => {
+    const past = await createEvent({
+      siteId: otherSiteId,
+      title: 'Founding meeting',
+      startsAt: '2020-01-10T18:00',
+      endsAt: '2020-01-10T20:00',
+    });
+    assert.equal(past.status, 201);
+    const { id: pastId } = await past.json();
+
+    const pastList = await (await worker.request('GET', '/api/events?when=past')).json();
+    assert.deepEqual(
+      pastList.events.map((event) => event.id),
+      [pastId],
+    );
+    const upcoming = await (
+      await worker.request('GET', `/api/events?when=upcoming&siteId=${otherSiteId}`)
+    ).json();
+    assert.deepEqual(upcoming.events, []);
+
+    const invalid = await worker.request('GET', '/api/events?when=someday');
+    assert.equal(invalid.status, 400);
+    await invalid.arrayBuffer();
+  });
+
+  it('publishes an escaped, folded iCalendar feed', async () => {
+    const created = await createEvent({
+      siteId: otherSiteId,
+      title: 'Harvest; potluck, and \\ tour',
+      description: `Line one\nLine two ${'ü'.repeat(60)}`,
+      location: 'Barn',
+      startsAt: '2030-07-04T18:00',
+      endsAt: '2030-07-04T21:00',
+      timezone: 'America/New_York',
+    });
+    assert.equal(created.status, 201);
+
+    const response = await worker.request('GET', `/sites/${otherSiteId}/events.ics`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type'), /^text\/calendar/);
+    const body = await response.text();
+
+    assert.ok(body.endsWith('\r\n'));
+    assert.doesNotMatch(body, /[^\r]\n/);
+    const lines = body.slice(0, -2).split('\r\n');
+    for (const line of lines) {
+      assert.ok(encoder.encode(line).length <= 75, `line is too long: ${line}`);
+    }
+
+    const unfolded = body.replace(/\r\n /g, '');
+    assert.match(unfolded, /\r\nSUMMARY:Harvest\\; potluck\\, and \\\\ tour\r\n/);
+    assert.match(unfolded, /\r\nDESCRIPTION:Line one\\nLine two ü{60}\r\n/);
+    assert.match(unfolded, /\r\nDTSTART:20300704T220000Z\r\n/);
+    assert.match(unfolded, /\r\nX-WR-CALNAME:Hillside Hydro events\r\n/);
+    assert.doesNotMatch(unfolded, /Founding meeting/);
+    assert.doesNotMatch(unfolded, /Members meeting/);
+  });
+
+  it('answers 404 for the calendar of an unknown site', async () => {
+    const response = await worker.request('GET', '/sites/9999/events.ics');
+    assert.equal(response.status, 404);
+    await response.arrayBuffer();
+  });
+});
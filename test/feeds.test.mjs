@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, startWorker } from './helpers/worker.mjs';
+
+const SITE_NAME = 'Sun & Sons <Power> "Co-op"';
+const PRIVATE_EMAIL = 'books@sunsons.example';
+
+describe('feeds', () => {
+  let worker;
+
+  before(async () => {
+    worker = await startWorker();
+    const site = await worker.request('POST', '/api/sites', {
+      token: ADMIN_TOKEN,
+      body: {
+        name: SITE_NAME,
+        description: 'A <b>bold</b> & "quoted" plan.',
+        tags: ['Tidal'],
+        contacts: [
+          { role: 'Bookkeeper', name: 'Bo', email: PRIVATE_EMAIL, visibility: { email: 'private' } },
+        ],
+      },
+    });
+    assert.equal(site.status, 201);
+    const { id: siteId } = await site.json();
+
+    const story = await worker.request('POST', '/api/stories', {
+      token: ADMIN_TOKEN,
+      body: { siteId, focus: 'governance', title: 'Tides & <votes>', body: 'One member, one vote.' },
+    });
+    assert.equal(story.status, 201);
+    await story.arrayBuffer();
+
+    const untagged = await worker.request('POST', '/api/sites', {
+      token: ADMIN_TOKEN,
+      body: { name: 'Plain Wind Co-op', tags: ['Wind'] },
+    });
+    assert.equal(untagged.status, 201);
+    await untagged.arrayBuffer();
+  });
+
+  after(() => worker.dispose());
+
+  async function fetchFeed(path) {
+    const response = await worker.request('GET', path);
+    assert.equal(response.status, 200);
+    return { type: response.headers.get('content-type'), body: await response.text() };
+  }
+
+  for (const [path, type] of [
+    ['/feed.xml', 'application/atom+xml'],
+    ['/rss.xml', 'application/rss+xml'],
+  ]) {
+    it(`escapes names and markup in ${path}`, async () => {
+      const feed = await fetchFeed(path);
+      assert.ok(feed.type.startsWith(type));
+      assert.ok(feed.body.includes('New listing: Sun &amp; Sons &lt;Power&gt; &quot;Co-op&quot;'));
+      assert.ok(
+        feed.body.includes('Sun &amp; Sons &lt;Power&gt; &quot;Co-op&quot;: Tides &amp; &lt;votes&gt;'),
+      );
+      assert.doesNotMatch(feed.body, /<Power>|<votes>|<b>|<p>/);
+      assert.ok(!feed.body.includes(PRIVATE_EMAIL));
+    });
+  }
+
+  it('keeps names intact in the JSON feed', async () => {
+    const feed = await fetchFeed('/feed.json');
+    assert.ok(feed.type.startsWith('application/feed+json'));
+    const document = JSON.parse(feed.body);
+    assert.equal(document.version, 'https://jsonfeed.org/version/1.1');
+    const titles = document.items.map((item) => item.title);
+    assert.ok(titles.includes(`New listing: ${SITE_NAME}`));
+    assert.ok(titles.includes(`${SITE_NAME}: Tides & <votes>`));
+    const siteItem = document.items.find((item) => item.title === `New listing: ${SITE_NAME}`);
+    assert.ok(siteItem.content_html.includes('A &lt;b&gt;bold&lt;/b&gt;'));
+    assert.ok(!feed.body.includes(PRIVATE_EMAIL));
+  });
+
+  it('follows one tag with ?tag=', async () => {
+    const feed = JSON.parse((await fetchFeed('/feed.json?tag=TIDAL')).body);
+    assert.equal(feed.title, 'SolarRoots: tidal cooperatives');
+    assert.equal(feed.feed_url, 'http://directory.test/feed.json?tag=tidal');
+    assert.deepEqual(
+      feed.items.map((item) => item.title).sort(),
+      [`New listing: ${SITE_NAME}`, `${SITE_NAME}: Tides & <votes>`],
+    );
+
+    const wind = JSON.parse((await fetchFeed('/feed.json?tag=wind')).body);
+    assert.deepEqual(
+      wind.items.map((item) => item.title),
+      ['New listing: Plain Wind Co-op'],
+    );
+  });
+
+  it('rejects a tag without letters or numbers', async () => {
+    const response = await worker.request('GET', '/rss.xml?tag=%20-%20');
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).errors[0].field, 'tag');
+  });
+});
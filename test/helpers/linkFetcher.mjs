@@ -0,0 +1,20 @@
+// Stands in for `fetch` in the link checker, so tests can check redirects and failures without
+// the network.
+
+/**
+ * Answers from a fixed table keyed by URL: `{ status, location? }` or an Error to throw. Unknown
+ * URLs fail like an unreachable host. Every request is kept in `requests`.
+ */
+export function createStubLinkFetcher(responses) {
+  const requests = [];
+  const fetcher = async (request) => {
+    requests.push(request);
+    const entry = responses[request.url] ?? new Error(`No stub response for ${request.url}`);
+    if (entry instanceof Error) {
+      throw entry;
+    }
+    const headers = entry.location ? { Location: entry.location } : undefined;
+    return new Response(null, { status: entry.status, headers });
+  };
+  return Object.assign(fetcher, { requests });
+}
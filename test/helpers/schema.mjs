@@ -0,0 +1,70 @@
+// Checks values against the subset of JSON Schema that src/api/openapi.ts emits, so tests can
+// hold real responses to their documented shapes without a validator dependency.
+
+function typeOf(value) {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (Number.isInteger(value)) {
+    return 'integer';
+  }
+  return typeof value;
+}
+
+function matchesType(value, type) {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Returns a list of mismatches between `value` and `schema`, each prefixed with its JSON path.
+ * `$ref`s resolve against `document.components.schemas`.
+ */
+export function validateSchema(document, schema, value, path = '$') {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    return validateSchema(document, document.components.schemas[name], value, path);
+  }
+
+  const errors = [];
+  if (schema.allOf) {
+    errors.push(...schema.allOf.flatMap((part) => validateSchema(document, part, value, path)));
+  }
+  if (schema.anyOf && !schema.anyOf.some((part) => !validateSchema(document, part, value, path).length)) {
+    errors.push(`${path} matches none of its anyOf schemas`);
+  }
+  if ('const' in schema && value !== schema.const) {
+    errors.push(`${path} should be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} ${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (schema.type) {
+    const types = [schema.type].flat();
+    if (!types.some((type) => matchesType(value, type))) {
+      return [...errors, `${path} should be ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const name of schema.required ?? []) {
+      if (!(name in value)) {
+        errors.push(`${path}.${name} is required`);
+      }
+    }
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      if (name in value) {
+        errors.push(...validateSchema(document, property, value[name], `${path}.${name}`));
+      }
+    }
+  }
+  if (typeOf(value) === 'array' && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(document, schema.items, item, `${path}[${index}]`));
+    });
+  }
+  return errors;
+}
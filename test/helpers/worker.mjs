@@ -0,0 +1,124 @@
+// Runs the worker in Miniflare against a local SQLite-backed D1 database with every migration in
+// db/migrations applied, so tests exercise the same code and schema as production.
+import { build } from 'esbuild';
+import { Miniflare } from 'miniflare';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const root = fileURLToPath(new URL('../..', import.meta.url));
+const cacheDir = `${root}node_modules/.cache/tests`;
+
+export const ADMIN_TOKEN = 'test-admin-token';
+export const ORIGIN = 'http://directory.test';
+
+// Matches wrangler's handling of `?raw` imports and `.html` templates.
+const rawImports = {
+  name: 'raw-imports',
+  setup(builder) {
+    builder.onResolve({ filter: /\?raw$/ }, (args) => ({
+      path: path.resolve(args.resolveDir, args.path.replace(/\?raw$/, '')),
+      namespace: 'raw',
+    }));
+    builder.onLoad({ filter: /.*/, namespace: 'raw' }, async (args) => ({
+      contents: await readFile(args.path, 'utf8'),
+      loader: 'text',
+    }));
+  },
+};
+
+async function bundle(entry, outfile, options = {}) {
+  await build({
+    entryPoints: [`${root}${entry}`],
+    bundle: true,
+    format: 'esm',
+    outfile,
+    loader: { '.html': 'text' },
+    plugins: [rawImports],
+    logLevel: 'error',
+    ...options,
+  });
+  return outfile;
+}
+
+/**
+ * Bundles one TypeScript module from src/ and imports it, for testing it without the worker.
+ */
+export async function importSource(entry) {
+  const outfile = await bundle(entry, `${cacheDir}/${path.basename(entry, '.ts')}.mjs`, {
+    platform: 'node',
+  });
+  return import(`${pathToFileURL(outfile).href}?${Date.now()}`);
+}
+
+/**
+ * Splits a migration into statements. Trigger bodies contain semicolons, so a statement that
+ * opens with `BEGIN` only ends at `END;`.
+ */
+export function splitStatements(sql) {
+  const statements = [];
+  let lines = [];
+  let inTrigger = false;
+  for (const line of sql.replace(/^\s*--.*$/gm, '').split('\n')) {
+    lines.push(line);
+    if (/\bBEGIN\s*$/i.test(line)) {
+      inTrigger = true;
+    }
+    if (inTrigger ? /^\s*END;\s*$/i.test(line) : /;\s*$/.test(line)) {
+      inTrigger = false;
+      const statement = lines.join('\n').trim();
+      lines = [];
+      if (statement) {
+        statements.push(statement);
+      }
+    }
+  }
+  return statements;
+}
+
+async function applyMigrations(db) {
+  const dir = `${root}db/migrations`;
+  for (const file of (await readdir(dir)).filter((name) => name.endsWith('.sql')).sort()) {
+    for (const statement of splitStatements(await readFile(`${dir}/${file}`, 'utf8'))) {
+      await db.prepare(statement).run();
+    }
+  }
+}
+
+/**
+ * Starts the worker on a fresh in-memory database. Call `dispose` when the tests are done.
+ * `outbound` answers the worker's own `fetch` calls; by default they fail. The worker's console
+ * output is collected in `logs` rather than printed.
+ */
+export async function startWorker({ bindings = {}, outbound } = {}) {
+  const scriptPath = await bundle('src/index.ts', `${cacheDir}/worker.mjs`);
+  const logs = [];
+  const mf = new Miniflare({
+    modules: true,
+    scriptPath,
+    compatibilityDate: '2024-10-07',
+    d1Databases: ['DB'],
+    bindings: { ADMIN_TOKEN, ...bindings },
+    outboundService: outbound ?? (() => new Response('No network in tests.', { status: 503 })),
+    handleStructuredLogs: ({ level, message }) => {
+      logs.push({ level, message });
+    },
+  });
+  const db = await mf.getD1Database('DB');
+  await applyMigrations(db);
+
+  /** Sends a request to the worker. A non-string `body` is sent as JSON. */
+  async function request(method, pathname, { body, token, headers = {} } = {}) {
+    const init = { method, headers: { ...headers }, redirect: 'manual' };
+    if (token) {
+      init.headers.authorization = `Bearer ${token}`;
+    }
+    if (body !== undefined) {
+      init.body = typeof body === 'string' ? body : JSON.stringify(body);
+      init.headers['content-type'] ??= 'application/json';
+    }
+    return mf.dispatchFetch(`${ORIGIN}${pathname}`, init);
+  }
+
+  return { mf, db, logs, request, dispose: () => mf.dispose() };
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { startWorker } from './helpers/worker.mjs';
+
+const SIGNUP = { email: 'grace@example.org', name: 'Grace', formElapsedMs: 5000 };
+
+function signUp(worker, body = SIGNUP) {
+  return worker.request('POST', '/api/interest', {
+    body,
+    headers: { 'CF-Connecting-IP': '203.0.113.7' },
+  });
+}
+
+async function countSignups(worker) {
+  return (await worker.db.prepare('SELECT COUNT(*) AS count FROM interest_signups').first()).count;
+}
+
+describe('POST /api/interest with the console mail transport', () => {
+  let worker;
+
+  before(async () => {
+    worker = await startWorker({ bindings: { MAIL_TRANSPORT: 'console' } });
+  });
+
+  after(() => worker.dispose());
+
+  it('logs the recipient and confirmation path, and nothing else from the message', async () => {
+    const response = await signUp(worker);
+    assert.equal(response.status, 201);
+    await response.arrayBuffer();
+
+    const mail = worker.logs.filter(({ message }) => message.startsWith('[mail]'));
+    assert.equal(mail.length, 1);
+    assert.match(mail[0].message, /to=grace@example\.org /);
+    assert.doesNotMatch(mail[0].message, /unsubscribe|http/);
+
+    const path = mail[0].message.match(/action=(\S+)/)[1];
+    assert.match(path, /^\/api\/interest\/confirm\?token=/);
+    const confirmed = await worker.request('GET', path);
+    assert.equal(confirmed.status, 200);
+    assert.ok((await confirmed.json()).confirmedAt);
+  });
+});
+
+describe('POST /api/interest without mail configured', () => {
+  let worker;
+
+  before(async () => {
+    worker = await startWorker();
+  });
+
+  after(() => worker.dispose());
+
+  it('refuses the signup and stores nothing', async () => {
+    const response = await signUp(worker);
+    assert.equal(response.status, 503);
+    await response.arrayBuffer();
+    assert.equal(await countSignups(worker), 0);
+  });
+});
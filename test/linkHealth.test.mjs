@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { createStubLinkFetcher } from './helpers/linkFetcher.mjs';
+import { ADMIN_TOKEN, importSource, startWorker } from './helpers/worker.mjs';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('runLinkChecks', () => {
+  let worker;
+  let links;
+  let fetcher;
+  const sites = {};
+
+  before(async () => {
+    worker = await startWorker();
+    [links, fetcher] = await Promise.all([
+      importSource('src/api/linkHealth.ts'),
+      importSource('src/links/fetcher.ts'),
+    ]);
+    const websites = {
+      moved: 'https://moved.example/',
+      down: 'https://down.example/',
+    };
+    for (const [key, website] of Object.entries(websites)) {
+      const response = await worker.request('POST', '/api/sites', {
+        token: ADMIN_TOKEN,
+        body: { name: `Link check ${key}`, website },
+      });
+      sites[key] = await response.json();
+    }
+  });
+
+  after(() => worker.dispose());
+
+  const stub = () =>
+    createStubLinkFetcher({
+      'https://moved.example/': { status: 301, location: '/new' },
+      'https://moved.example/new': { status: 302, location: 'https://www.moved.example/' },
+      'https://www.moved.example/': { status: 200 },
+      'https://down.example/': { status: 503 },
+    });
+
+  async function linkHealth(site) {
+    const response = await worker.request('GET', `/api/sites/${site.id}`);
+    return (await response.json()).linkHealth;
+  }
+
+  it('follows redirect chains and records the final target', async () => {
+    const result = await fetcher.checkLink('https://moved.example/', stub());
+    assert.deepEqual(result, {
+      statusCode: 200,
+      redirectUrl: 'https://www.moved.example/',
+      error: null,
+      ok: true,
+    });
+  });
+
+  it('asks again with GET when HEAD is refused', async () => {
+    const requests = [];
+    const headless = async (request) => {
+      requests.push(request.method);
+      return new Response(null, { status: request.method === 'HEAD' ? 405 : 200 });
+    };
+    const result = await fetcher.checkLink('https://headless.example/', headless);
+    assert.equal(result.ok, true);
+    assert.deepEqual(requests, ['HEAD', 'GET']);
+  });
+
+  it('marks a website broken after BROKEN_AFTER_FAILURES failed runs in a row', async () => {
+    const now = Date.now();
+    const first = await links.runLinkChecks({ DB: worker.db }, new Date(now), stub());
+    assert.ok(first.checked >= 2);
+
+    assert.equal((await linkHealth(sites.moved)).status, 'redirected');
+    const failing = await linkHealth(sites.down);
+    assert.equal(failing.status, 'failing');
+    assert.equal(failing.statusCode, 503);
+
+    for (let run = 1; run < links.BROKEN_AFTER_FAILURES; run += 1) {
+      await links.runLinkChecks({ DB: worker.db }, new Date(now + run * 25 * HOUR_MS), stub());
+    }
+    const broken = await linkHealth(sites.down);
+    assert.equal(broken.status, 'broken');
+    assert.equal(broken.consecutiveFailures, links.BROKEN_AFTER_FAILURES);
+    assert.equal((await linkHealth(sites.moved)).status, 'redirected');
+  });
+
+  it('skips websites checked within the last day', async () => {
+    const requests = stub();
+    await links.runLinkChecks({ DB: worker.db }, new Date(), requests);
+    assert.equal(requests.requests.length, 0);
+  });
+});
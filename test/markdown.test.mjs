@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { importSource } from './helpers/worker.mjs';
+
+describe('renderMarkdown links', () => {
+  let renderMarkdown;
+
+  before(async () => {
+    ({ renderMarkdown } = await importSource('src/utils/markdown.ts'));
+  });
+
+  it('renders same-site links without rel', () => {
+    assert.equal(renderMarkdown('[Map](/directory)'), '<p><a href="/directory">Map</a></p>');
+  });
+
+  it('marks external links nofollow', () => {
+    assert.match(
+      renderMarkdown('[Site](https://example.org)'),
+      /<a href="https:\/\/example.org" rel="nofollow noopener noreferrer">/,
+    );
+  });
+
+  it('refuses protocol-relative links disguised as same-site ones', () => {
+    for (const href of ['//evil.example', '/\\evil.example', 'javascript:alert(1)']) {
+      assert.doesNotMatch(renderMarkdown(`[x](${href})`), /<a /, href);
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { validateSchema } from './helpers/schema.mjs';
+import { ADMIN_TOKEN, startWorker } from './helpers/worker.mjs';
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+function collectRefs(value, refs = new Set()) {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref') {
+        refs.add(child);
+      } else {
+        collectRefs(child, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+function examplePath(path, item) {
+  const parameters = Object.values(item).flatMap((operation) => operation.parameters);
+  return path.replace(/\{(\w+)\}/g, (_match, name) => {
+    const schema = parameters.find((param) => param.name === name).schema;
+    return schema.enum ? schema.enum[0] : '1';
+  });
+}
+
+describe('GET /api/openapi.json', () => {
+  let worker;
+  let document;
+
+  before(async () => {
+    worker = await startWorker();
+    const response = await worker.request('GET', '/api/openapi.json');
+    assert.equal(response.status, 200);
+    document = await response.json();
+  });
+
+  after(() => worker.dispose());
+
+  it('is an OpenAPI 3.1 document for this origin', () => {
+    assert.equal(document.openapi, '3.1.0');
+    assert.equal(document.servers[0].url, 'http://directory.test');
+    assert.ok(document.components.securitySchemes.bearerAuth);
+  });
+
+  it('describes the core routes with their path parameters', () => {
+    for (const path of ['/api/sites', '/api/sites/{id}', '/api/stories', '/api/events', '/api/tags']) {
+      assert.ok(document.paths[path], `${path} is documented`);
+    }
+    const review = document.paths['/api/submissions/{id}/{decision}'].post;
+    assert.deepEqual(
+      review.parameters.map((param) => [param.name, param.schema]),
+      [
+        ['id', { type: 'integer', minimum: 1 }],
+        ['decision', { type: 'string', enum: ['approve', 'reject'] }],
+      ],
+    );
+    assert.equal(review['x-required-role'], 'moderator');
+    assert.deepEqual(review.security, [{ bearerAuth: [] }]);
+  });
+
+  it('only refers to schemas it defines', () => {
+    for (const ref of collectRefs(document)) {
+      const name = ref.replace('#/components/schemas/', '');
+      assert.ok(document.components.schemas[name], `${ref} is defined`);
+    }
+  });
+
+  it('gives every operation a unique id', () => {
+    const ids = Object.values(document.paths).flatMap((item) =>
+      Object.values(item).map((operation) => operation.operationId),
+    );
+    assert.equal(new Set(ids).size, ids.length);
+  });
+
+  it('describes what the worker actually returns', async () => {
+    const created = await worker.request('POST', '/api/sites', {
+      token: ADMIN_TOKEN,
+      body: { name: 'Schema Check Co-op', region: 'East', latitude: 51.5, longitude: -0.1 },
+    });
+    const site = await created.json();
+    const values = { id: String(site.id), revision: '1' };
+
+    const checked = [];
+    for (const [path, item] of Object.entries(document.paths)) {
+      const schema = item.get?.responses['200']?.content?.['application/json']?.schema;
+      if (!schema) {
+        continue;
+      }
+      const wantsJson = item.get.parameters.some((param) => param.name === 'format');
+      const pathname = path.replace(/\{(\w+)\}/g, (_match, name) => values[name] ?? '1');
+      const response = await worker.request('GET', `${pathname}${wantsJson ? '?format=json' : ''}`, {
+        token: ADMIN_TOKEN,
+      });
+      if (response.status !== 200) {
+        await response.arrayBuffer();
+        continue;
+      }
+      assert.deepEqual(validateSchema(document, schema, await response.json()), [], path);
+      checked.push(path);
+    }
+    for (const path of ['/api/regions', '/api/sites', '/api/sites/{id}', '/api/interest/export']) {
+      assert.ok(checked.includes(path), `${path} was checked`);
+    }
+  });
+
+  it('documents exactly the operations the worker routes', async () => {
+    for (const [path, item] of Object.entries(document.paths)) {
+      for (const method of METHODS) {
+        const operation = item[method];
+        const response = await worker.request(method.toUpperCase(), examplePath(path, item), {
+          token: ADMIN_TOKEN,
+          body: method === 'get' || method === 'delete' ? undefined : {},
+        });
+        const text = await response.text();
+        if (operation) {
+          assert.notEqual(response.status, 405, `${method} ${path} is routed`);
+          const unrouted = response.status === 404 && text === '{"message":"Not Found"}';
+          assert.ok(!unrouted, `${method} ${path} exists`);
+        } else {
+          assert.equal(response.status, 405, `${method} ${path} is not routed`);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, ORIGIN, startWorker } from './helpers/worker.mjs';
+
+describe('pages and feeds', () => {
+  let worker;
+  let site;
+
+  before(async () => {
+    worker = await startWorker();
+    const created = await worker.request('POST', '/api/sites', {
+      token: ADMIN_TOKEN,
+      body: { name: 'River Bend Co-op', region: 'South', tags: ['Hydro'] },
+    });
+    site = await created.json();
+  });
+
+  after(() => worker.dispose());
+
+  async function page(pathname) {
+    const response = await worker.request('GET', pathname);
+    return { response, text: await response.text() };
+  }
+
+  it('renders the landing page and directory', async () => {
+    for (const pathname of ['/', '/index.html', '/directory', '/directory/']) {
+      const { response, text } = await page(pathname);
+      assert.equal(response.status, 200, pathname);
+      assert.match(text, /River Bend Co-op/);
+    }
+  });
+
+  it('serves profiles at their canonical slug', async () => {
+    const canonical = `/sites/${site.id}-river-bend-co-op`;
+    const { response, text } = await page(canonical);
+    assert.equal(response.status, 200);
+    assert.match(text, /River Bend Co-op/);
+
+    const bare = (await page(`/sites/${site.id}`)).response;
+    assert.equal(bare.status, 301);
+    assert.equal(new URL(bare.headers.get('Location'), 'http://directory.test').pathname, canonical);
+    assert.equal((await page('/sites/not-a-number')).response.status, 404);
+  });
+
+  it('sends anonymous visitors of staff pages to sign in', async () => {
+    const response = await worker.request('GET', '/admin/submissions');
+    assert.equal(response.status, 303);
+    assert.match(response.headers.get('Location'), /^\/admin\/login\?next=/);
+  });
+
+  it('only redirects to same-site pages after sign in', async () => {
+    const targets = {
+      '/admin/submissions?status=pending': '/admin/submissions?status=pending',
+      '/\\evil.example/': '/admin/interest',
+      '//evil.example/': '/admin/interest',
+      'https://evil.example/': '/admin/interest',
+    };
+    for (const [next, expected] of Object.entries(targets)) {
+      const response = await worker.request('POST', '/admin/login', {
+        body: new URLSearchParams({ token: ADMIN_TOKEN, next }).toString(),
+        headers: { 'content-type': 'application/x-www-form-urlencoded', Origin: ORIGIN },
+      });
+      assert.equal(response.status, 303, next);
+      assert.equal(response.headers.get('Location'), expected, next);
+    }
+  });
+
+  it('refuses staff form posts that do not prove they came from this site', async () => {
+    const cases = [
+      [{ Origin: 'https://evil.example' }, 403],
+      [{}, 403],
+      [{ 'Sec-Fetch-Site': 'cross-site' }, 403],
+      [{ 'Sec-Fetch-Site': 'same-origin' }, 303],
+      [{ Referer: 'https://evil.example/form' }, 403],
+      [{ Referer: `${ORIGIN}/admin/login` }, 303],
+    ];
+    for (const [headers, status] of cases) {
+      const response = await worker.request('POST', '/admin/login', {
+        body: new URLSearchParams({ token: ADMIN_TOKEN, next: '/admin/interest' }).toString(),
+        headers: { 'content-type': 'application/x-www-form-urlencoded', ...headers },
+      });
+      assert.equal(response.status, status, JSON.stringify(headers));
+      await response.arrayBuffer();
+    }
+  });
+
+  it('asks for the API token in a password field', async () => {
+    const { text } = await page('/admin/login');
+    assert.match(text, /<input id="admin-token" type="password"/);
+  });
+
+  it('serves the feeds, calendar, sitemap, and robots.txt', async () => {
+    const expected = {
+      '/feed.xml': 'application/atom+xml',
+      '/rss.xml': 'application/rss+xml',
+      '/feed.json': 'application/feed+json',
+      '/events.ics': 'text/calendar',
+      '/sitemap.xml': 'application/xml',
+      '/robots.txt': 'text/plain',
+    };
+    for (const [pathname, type] of Object.entries(expected)) {
+      const { response, text } = await page(pathname);
+      assert.equal(response.status, 200, pathname);
+      assert.ok(response.headers.get('content-type').startsWith(type), pathname);
+      if (pathname !== '/events.ics' && pathname !== '/robots.txt') {
+        assert.match(text, /River Bend Co-op|river-bend-co-op/, pathname);
+      }
+    }
+  });
+
+  it('rejects writes to read-only pages', async () => {
+    const response = await worker.request('POST', '/directory');
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get('Allow'), 'GET, HEAD, OPTIONS');
+    await response.arrayBuffer();
+  });
+});
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { importSource, startWorker } from './helpers/worker.mjs';
+
+const env = {};
+const ctx = { waitUntil() {}, passThroughOnException() {} };
+
+describe('createRouter', () => {
+  let router;
+
+  before(async () => {
+    const { createRouter, route } = await importSource('src/router.ts');
+    router = createRouter(
+      [
+        route('GET', '/things', {}, () => Response.json({ things: [] })),
+        route('POST', '/things', {}, () => new Response(null, { status: 201 })),
+        route('GET', '/things/:id(\\d+)', {}, ({ params }) => Response.json({ id: params.id })),
+        route('DELETE', '/things/:id(\\d+)', {}, () => {
+          throw new Error('boom');
+        }),
+        route('GET', '/things/:id(\\d+)/:view(full|short)', {}, ({ params }) => Response.json(params)),
+      ],
+      (url) => Response.json({ message: `No route for ${url.pathname}` }, { status: 404 }),
+    );
+  });
+
+  const send = (method, pathname) =>
+    router.handle(new Request(`http://router.test${pathname}`, { method }), env, ctx);
+
+  it('passes typed path parameters to the matching route', async () => {
+    assert.deepEqual(await (await send('GET', '/things/42')).json(), { id: '42' });
+    assert.deepEqual(await (await send('GET', '/things/7/full')).json(), { id: '7', view: 'full' });
+  });
+
+  it('dispatches on the method', async () => {
+    assert.equal((await send('POST', '/things')).status, 201);
+  });
+
+  it('tolerates a trailing slash', async () => {
+    assert.equal((await send('GET', '/things/')).status, 200);
+  });
+
+  it('hands unmatched paths, including failed parameter patterns, to notFound', async () => {
+    for (const pathname of ['/nothing', '/things/abc', '/things/1/other']) {
+      const response = await send('GET', pathname);
+      assert.equal(response.status, 404);
+      assert.deepEqual(await response.json(), { message: `No route for ${pathname}` });
+    }
+  });
+
+  it('answers HEAD with the GET route', async () => {
+    assert.equal((await send('HEAD', '/things/1')).status, 200);
+  });
+
+  it('returns a JSON 405 listing the methods the path allows', async () => {
+    const response = await send('PUT', '/things/1');
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get('Allow'), 'GET, DELETE, HEAD, OPTIONS');
+    assert.equal((await response.json()).message, 'Method Not Allowed');
+  });
+
+  it('answers CORS preflights for every routed path', async () => {
+    const response = await send('OPTIONS', '/things');
+    assert.equal(response.status, 204);
+    assert.equal(response.headers.get('Access-Control-Allow-Methods'), 'GET, POST, HEAD, OPTIONS');
+    assert.match(response.headers.get('Access-Control-Allow-Headers'), /authorization/);
+  });
+
+  it('turns handler errors into a JSON 500', async (t) => {
+    t.mock.method(console, 'error', () => {});
+    const response = await send('DELETE', '/things/1');
+    assert.equal(response.status, 500);
+    assert.deepEqual(await response.json(), { message: 'Internal Server Error' });
+  });
+});
+
+describe('worker routing', () => {
+  let worker;
+
+  before(async () => {
+    worker = await startWorker();
+  });
+
+  after(() => worker.dispose());
+
+  it('returns JSON 404s under /api and HTML 404s elsewhere', async () => {
+    const api = await worker.request('GET', '/api/nothing-here');
+    assert.equal(api.status, 404);
+    assert.deepEqual(await api.json(), { message: 'Not Found' });
+
+    const page = await worker.request('GET', '/nothing-here');
+    assert.equal(page.status, 404);
+    assert.match(page.headers.get('content-type'), /text\/html/);
+    await page.arrayBuffer();
+  });
+
+  it('rejects unsupported methods on API routes with 405', async () => {
+    const response = await worker.request('DELETE', '/api/tags');
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get('Allow'), 'GET, HEAD, OPTIONS');
+    assert.equal((await response.json()).message, 'Method Not Allowed');
+  });
+
+  it('checks the role before running a handler', async () => {
+    const response = await worker.request('POST', '/api/sites', { body: { name: 'Nobody' } });
+    assert.equal(response.status, 401);
+    await response.arrayBuffer();
+  });
+
+  it('answers preflights with the CORS headers for allowed origins', async () => {
+    const response = await worker.request('OPTIONS', '/api/sites/1', {
+      headers: { Origin: 'https://partner.test', 'Access-Control-Request-Method': 'PATCH' },
+    });
+    assert.equal(response.status, 204);
+    assert.equal(response.headers.get('Allow'), 'GET, PUT, PATCH, DELETE, HEAD, OPTIONS');
+    // Not on ALLOWED_ORIGINS, so the CORS headers are stripped.
+    assert.equal(response.headers.get('Access-Control-Allow-Origin'), null);
+    assert.equal(response.headers.get('Access-Control-Allow-Methods'), null);
+  });
+});
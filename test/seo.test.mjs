@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, ORIGIN, startWorker } from './helpers/worker.mjs';
+
+function sitemapEntries(xml) {
+  return [...xml.matchAll(/<url>\s*<loc>([^<]+)<\/loc>(?:\s*<lastmod>([^<]+)<\/lastmod>)?/g)].map(
+    ([, loc, lastmod]) => ({ loc, lastmod }),
+  );
+}
+
+describe('crawler files', () => {
+  let worker;
+  let listed;
+  let removed;
+
+  before(async () => {
+    worker = await startWorker();
+    for (const name of ['Moss & Fern Co-op', 'Closed Down Co-op']) {
+      const response = await worker.request('POST', '/api/sites', {
+        token: ADMIN_TOKEN,
+        body: { name },
+      });
+      assert.equal(response.status, 201);
+      const site = await response.json();
+      if (listed) {
+        removed = site;
+      } else {
+        listed = site;
+      }
+    }
+    const deleted = await worker.request('DELETE', `/api/sites/${removed.id}`, { token: ADMIN_TOKEN });
+    assert.equal(deleted.status, 200);
+    await deleted.arrayBuffer();
+  });
+
+  after(() => worker.dispose());
+
+  it('lists the public pages and each listed cooperative once', async () => {
+    const response = await worker.request('GET', '/sitemap.xml');
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type'), /^application\/xml/);
+    const entries = sitemapEntries(await response.text());
+    const locs = entries.map((entry) => entry.loc);
+
+    for (const path of ['/', '/directory', '/events', '/submit']) {
+      assert.ok(locs.includes(`${ORIGIN}${path}`), `${path} is missing`);
+    }
+    const profile = `${ORIGIN}/sites/${listed.id}-moss-fern-co-op`;
+    assert.equal(locs.filter((loc) => loc === profile).length, 1);
+    assert.match(entries.find((entry) => entry.loc === profile).lastmod, /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+
+    assert.ok(!locs.some((loc) => loc.includes(`/sites/${removed.id}-`)));
+    assert.ok(!locs.some((loc) => loc.includes('/admin') || loc.includes('/api/')));
+  });
+
+  it('points at profile URLs that resolve', async () => {
+    const response = await worker.request('GET', `/sites/${listed.id}-moss-fern-co-op`);
+    assert.equal(response.status, 200);
+    await response.arrayBuffer();
+  });
+
+  it('keeps crawlers out of staff pages and the API', async () => {
+    const response = await worker.request('GET', '/robots.txt');
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type'), /^text\/plain/);
+    const lines = (await response.text()).split('\n');
+    assert.ok(lines.includes('User-agent: *'));
+    assert.ok(lines.includes('Disallow: /admin'));
+    assert.ok(lines.includes('Disallow: /api/'));
+    assert.ok(lines.includes(`Sitemap: ${ORIGIN}/sitemap.xml`));
+  });
+});
@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, startWorker } from './helpers/worker.mjs';
+
+const COOPERATIVE = {
+  name: 'Sunny Hill Solar',
+  description: 'Community-owned rooftop array.',
+  website: 'https://sunnyhill.example',
+  region: 'North Valley',
+  tags: ['Rooftop', 'Community Garden'],
+  ownershipModel: 'consumer',
+  contacts: [
+    {
+      role: 'Membership secretary',
+      name: 'Ada',
+      email: 'ada@sunnyhill.example',
+      phone: '555 1234',
+      visibility: { name: 'public', email: 'private', phone: 'private' },
+    },
+  ],
+};
+
+describe('/api/sites', () => {
+  let worker;
+  let organizerToken;
+  let site;
+
+  before(async () => {
+    worker = await startWorker();
+    const issued = await worker.request('POST', '/api/admin/tokens', {
+      token: ADMIN_TOKEN,
+      body: { label: 'Tests', role: 'organizer' },
+    });
+    assert.equal(issued.status, 201);
+    organizerToken = (await issued.json()).token;
+  });
+
+  after(() => worker.dispose());
+
+  it('needs an organizer token to add a cooperative', async () => {
+    const response = await worker.request('POST', '/api/sites', { body: COOPERATIVE });
+    assert.equal(response.status, 401);
+    await response.arrayBuffer();
+  });
+
+  it('validates the payload', async () => {
+    const response = await worker.request('POST', '/api/sites', {
+      token: organizerToken,
+      body: { ...COOPERATIVE, name: '', latitude: 120 },
+    });
+    assert.equal(response.status, 400);
+    const body = await response.json();
+    assert.deepEqual(body.errors.map((error) => error.field).sort(), ['latitude', 'name']);
+  });
+
+  it('creates a cooperative', async () => {
+    const response = await worker.request('POST', '/api/sites', {
+      token: organizerToken,
+      body: COOPERATIVE,
+    });
+    assert.equal(response.status, 201);
+    site = await response.json();
+    assert.equal(response.headers.get('Location'), `/api/sites/${site.id}`);
+    assert.equal(site.name, COOPERATIVE.name);
+    assert.deepEqual(site.tags.sort(), ['Community Garden', 'Rooftop']);
+  });
+
+  it('leaves nothing behind when part of a creation fails', async () => {
+    await worker.db
+      .prepare(
+        `CREATE TRIGGER fail_contact BEFORE INSERT ON site_contacts WHEN NEW.role = 'Saboteur'
+         BEGIN SELECT RAISE(ABORT, 'contact refused'); END;`,
+      )
+      .run();
+    try {
+      const response = await worker.request('POST', '/api/sites', {
+        token: organizerToken,
+        body: { name: 'Half Made Co-op', tags: ['Rooftop'], contacts: [{ role: 'Saboteur', name: 'Sam' }] },
+      });
+      assert.equal(response.status, 500);
+      await response.arrayBuffer();
+    } finally {
+      await worker.db.prepare('DROP TRIGGER fail_contact').run();
+    }
+    const row = await worker.db
+      .prepare('SELECT COUNT(*) AS count FROM sites WHERE name = ?')
+      .bind('Half Made Co-op')
+      .first();
+    assert.equal(row.count, 0);
+  });
+
+  it('hides private contact details from anonymous callers', async () => {
+    const anonymous = await (await worker.request('GET', `/api/sites/${site.id}`)).json();
+    assert.equal(anonymous.contacts[0].name, 'Ada');
+    assert.equal(anonymous.contacts[0].email, null);
+    assert.equal(anonymous.contacts[0].phone, null);
+
+    const organizer = await (
+      await worker.request('GET', `/api/sites/${site.id}`, { token: organizerToken })
+    ).json();
+    assert.equal(organizer.contacts[0].email, 'ada@sunnyhill.example');
+  });
+
+  it('lists and filters cooperatives', async () => {
+    const listed = await (await worker.request('GET', '/api/sites?tag=rooftop')).json();
+    assert.equal(listed.total, 1);
+    assert.equal(listed.sites[0].id, site.id);
+    assert.equal(listed.sites[0].contacts[0].email, null);
+
+    const both = await worker.request('GET', '/api/sites?tag=rooftop,wind&tagMode=all');
+    assert.equal((await both.json()).total, 0);
+
+    const invalid = await worker.request('GET', '/api/sites?sort=sideways');
+    assert.equal(invalid.status, 400);
+    await invalid.arrayBuffer();
+  });
+
+  it('pages by name through names outside Latin-1', async () => {
+    for (const name of ['Aoi Ōsaka Sun Co-op', 'Zürich Solar Genossenschaft']) {
+      const created = await worker.request('POST', '/api/sites', { token: organizerToken, body: { name } });
+      assert.equal(created.status, 201);
+      await created.arrayBuffer();
+    }
+
+    const names = [];
+    let cursor = '';
+    do {
+      const response = await worker.request('GET', `/api/sites?sort=name&limit=1${cursor}`);
+      assert.equal(response.status, 200);
+      const page = await response.json();
+      names.push(...page.sites.map((listed) => listed.name));
+      cursor = page.nextCursor ? `&cursor=${page.nextCursor}` : '';
+      if (page.nextCursor) {
+        const directory = await worker.request('GET', `/directory?sort=name&limit=1${cursor}`);
+        assert.equal(directory.status, 200);
+        await directory.arrayBuffer();
+      }
+    } while (cursor);
+
+    assert.equal(new Set(names).size, names.length);
+    assert.ok(names.includes('Aoi Ōsaka Sun Co-op'));
+    assert.ok(names.includes('Zürich Solar Genossenschaft'));
+  });
+
+  it('updates a cooperative and records the revision', async () => {
+    const response = await worker.request('PATCH', `/api/sites/${site.id}`, {
+      token: organizerToken,
+      body: { memberCount: 120 },
+    });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).memberCount, 120);
+
+    const history = await (
+      await worker.request('GET', `/api/sites/${site.id}/history`, { token: organizerToken })
+    ).json();
+    assert.deepEqual(
+      history.revisions.map((revision) => revision.action),
+      ['update', 'create'],
+    );
+  });
+
+  it('only lets moderators delete', async () => {
+    const forbidden = await worker.request('DELETE', `/api/sites/${site.id}`, {
+      token: organizerToken,
+    });
+    assert.equal(forbidden.status, 403);
+    await forbidden.arrayBuffer();
+
+    const deleted = await worker.request('DELETE', `/api/sites/${site.id}`, { token: ADMIN_TOKEN });
+    assert.equal(deleted.status, 200);
+    await deleted.arrayBuffer();
+
+    const missing = await worker.request('GET', `/api/sites/${site.id}`);
+    assert.equal(missing.status, 404);
+    assert.equal((await missing.json()).message, `Site ${site.id} was not found.`);
+  });
+});
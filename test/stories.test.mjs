@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, startWorker } from './helpers/worker.mjs';
+
+describe('/api/stories', () => {
+  let worker;
+  let organizerToken;
+  let siteId;
+  let story;
+
+  before(async () => {
+    worker = await startWorker();
+    const issued = await worker.request('POST', '/api/admin/tokens', {
+      token: ADMIN_TOKEN,
+      body: { label: 'Story tests', role: 'organizer' },
+    });
+    organizerToken = (await issued.json()).token;
+    const site = await worker.request('POST', '/api/sites', {
+      token: organizerToken,
+      body: { name: 'Riverside Energy Co-op' },
+    });
+    siteId = (await site.json()).id;
+  });
+
+  after(() => worker.dispose());
+
+  async function storyMetrics() {
+    const { assessment } = await (await worker.request('GET', '/api/vision')).json();
+    return assessment.metrics;
+  }
+
+  it('starts with no storytelling focus covered', async () => {
+    const metrics = await storyMetrics();
+    assert.equal(metrics.storyCoverageRatio, 0);
+    assert.deepEqual(metrics.coveredStorytellingFocus, []);
+    assert.deepEqual(metrics.missingStorytellingFocus, [
+      'governance',
+      'ecological-impact',
+      'local-economy',
+    ]);
+  });
+
+  it('validates the focus, the site, and the publication date', async () => {
+    const invalid = await worker.request('POST', '/api/stories', {
+      token: organizerToken,
+      body: { siteId, focus: 'gossip', title: ' ', body: 'Text', publishedOn: '2030-02-30' },
+    });
+    assert.equal(invalid.status, 400);
+    assert.deepEqual(
+      (await invalid.json()).errors.map((error) => error.field).sort(),
+      ['focus', 'publishedOn', 'title'],
+    );
+
+    const unknownSite = await worker.request('POST', '/api/stories', {
+      token: organizerToken,
+      body: { siteId: 9999, focus: 'governance', title: 'Lost', body: 'Text' },
+    });
+    assert.equal(unknownSite.status, 400);
+    assert.equal((await unknownSite.json()).errors[0].field, 'siteId');
+  });
+
+  it('publishes a story and counts it towards its focus', async () => {
+    const response = await worker.request('POST', '/api/stories', {
+      token: organizerToken,
+      body: {
+        siteId,
+        focus: 'governance',
+        title: 'How members vote',
+        body: 'Every member gets **one vote**.',
+        publishedOn: '2030-05-01',
+      },
+    });
+    assert.equal(response.status, 201);
+    story = await response.json();
+    assert.equal(response.headers.get('Location'), `/api/stories/${story.id}`);
+    assert.match(story.bodyHtml, /<strong>one vote<\/strong>/);
+
+    const metrics = await storyMetrics();
+    assert.equal(metrics.storiesByFocus.governance, 1);
+    assert.deepEqual(metrics.coveredStorytellingFocus, ['governance']);
+    assert.equal(metrics.storyCoverageRatio, 1 / 3);
+  });
+
+  it('patches only the fields sent and replaces everything on PUT', async () => {
+    const patched = await worker.request('PATCH', `/api/stories/${story.id}`, {
+      token: organizerToken,
+      body: { focus: 'local-economy' },
+    });
+    assert.equal(patched.status, 200);
+    const patchedBody = await patched.json();
+    assert.equal(patchedBody.focus, 'local-economy');
+    assert.equal(patchedBody.title, 'How members vote');
+
+    const replaced = await worker.request('PUT', `/api/stories/${story.id}`, {
+      token: organizerToken,
+      body: { siteId, focus: 'ecological-impact' },
+    });
+    assert.equal(replaced.status, 400);
+    assert.deepEqual(
+      (await replaced.json()).errors.map((error) => error.field).sort(),
+      ['body', 'title'],
+    );
+
+    const metrics = await storyMetrics();
+    assert.deepEqual(metrics.coveredStorytellingFocus, ['local-economy']);
+  });
+
+  it('filters the list by site and focus', async () => {
+    const matching = await (
+      await worker.request('GET', `/api/stories?siteId=${siteId}&focus=local-economy`)
+    ).json();
+    assert.deepEqual(
+      matching.stories.map((entry) => entry.id),
+      [story.id],
+    );
+    const other = await (await worker.request('GET', '/api/stories?focus=governance')).json();
+    assert.deepEqual(other.stories, []);
+  });
+
+  it('lets only moderators remove a story', async () => {
+    const refused = await worker.request('DELETE', `/api/stories/${story.id}`, {
+      token: organizerToken,
+    });
+    assert.equal(refused.status, 403);
+    await refused.arrayBuffer();
+
+    const removed = await worker.request('DELETE', `/api/stories/${story.id}`, {
+      token: ADMIN_TOKEN,
+    });
+    assert.equal(removed.status, 200);
+    await removed.arrayBuffer();
+
+    const missing = await worker.request('GET', `/api/stories/${story.id}`);
+    assert.equal(missing.status, 404);
+    await missing.arrayBuffer();
+    assert.equal((await storyMetrics()).storyCoverageRatio, 0);
+  });
+});
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, startWorker } from './helpers/worker.mjs';
+
+function flatten(nodes) {
+  return nodes.flatMap((node) => [node, ...flatten(node.children)]);
+}
+
+describe('/api/tags', () => {
+  let worker;
+  const sites = {};
+
+  before(async () => {
+    worker = await startWorker();
+    for (const [key, tags] of [
+      ['panels', ['Solar PV']],
+      ['cells', ['Photovoltaic']],
+    ]) {
+      const response = await worker.request('POST', '/api/sites', {
+        token: ADMIN_TOKEN,
+        body: { name: `${tags[0]} Co-op`, tags },
+      });
+      assert.equal(response.status, 201);
+      sites[key] = await response.json();
+    }
+  });
+
+  after(() => worker.dispose());
+
+  async function tagsBySlug() {
+    const body = await (await worker.request('GET', '/api/tags')).json();
+    return Object.fromEntries(flatten(body.tags).map((tag) => [tag.slug, tag]));
+  }
+
+  function patchTag(id, body) {
+    return worker.request('PATCH', `/api/tags/${id}`, { token: ADMIN_TOKEN, body });
+  }
+
+  async function siteNames(query) {
+    const body = await (await worker.request('GET', `/api/sites?${query}`)).json();
+    return body.sites.map((site) => site.name).sort();
+  }
+
+  it('refuses renames and aliases that collide with another tag', async () => {
+    const tags = await tagsBySlug();
+    const response = await patchTag(tags.photovoltaic.id, {
+      label: 'Solar',
+      aliases: ['solar pv'],
+      parentId: tags.photovoltaic.id,
+    });
+    assert.equal(response.status, 400);
+    const body = await response.json();
+    assert.deepEqual(body.errors.map((error) => error.field).sort(), [
+      'aliases[0]',
+      'label',
+      'parentId',
+    ]);
+  });
+
+  it('refuses a parent that sits below the tag', async () => {
+    const tags = await tagsBySlug();
+    assert.equal((await patchTag(tags['solar-pv'].id, { parentId: tags.solar.id })).status, 200);
+    const response = await patchTag(tags.solar.id, { parentId: tags['solar-pv'].id });
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).errors[0].field, 'parentId');
+  });
+
+  it('resolves aliases when sites are tagged and filtered', async () => {
+    const tags = await tagsBySlug();
+    const response = await patchTag(tags['solar-pv'].id, {
+      category: 'technology',
+      aliases: ['PV'],
+    });
+    assert.equal(response.status, 200);
+    assert.deepEqual((await response.json()).aliases, ['PV']);
+
+    const created = await worker.request('POST', '/api/sites', {
+      token: ADMIN_TOKEN,
+      body: { name: 'Alias Co-op', tags: ['pv'] },
+    });
+    assert.deepEqual((await created.json()).tags, ['Solar PV']);
+    assert.deepEqual(await siteNames('tag=pv'), ['Alias Co-op', 'Solar PV Co-op']);
+  });
+
+  it('merges a tag into another, keeping its spelling as an alias', async () => {
+    const tags = await tagsBySlug();
+    const response = await worker.request('POST', `/api/tags/${tags.photovoltaic.id}/merge`, {
+      token: ADMIN_TOKEN,
+      body: { into: tags['solar-pv'].id },
+    });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.sitesRetagged, 1);
+    assert.deepEqual(body.tag.aliases.sort(), ['PV', 'Photovoltaic']);
+
+    const after = await tagsBySlug();
+    assert.equal(after.photovoltaic, undefined);
+    assert.equal(after['solar-pv'].siteCount, 3);
+    assert.equal(after['solar-pv'].parentId, tags.solar.id);
+
+    const site = await (await worker.request('GET', `/api/sites/${sites.cells.id}`)).json();
+    assert.deepEqual(site.tags, ['Solar PV']);
+    assert.deepEqual(await siteNames('tag=photovoltaic'), [
+      'Alias Co-op',
+      'Photovoltaic Co-op',
+      'Solar PV Co-op',
+    ]);
+  });
+
+  it('refuses to merge a tag into itself or an unknown tag', async () => {
+    const tags = await tagsBySlug();
+    for (const into of [tags.solar.id, 9999]) {
+      const response = await worker.request('POST', `/api/tags/${tags.solar.id}/merge`, {
+        token: ADMIN_TOKEN,
+        body: { into },
+      });
+      assert.equal(response.status, 400);
+      assert.equal((await response.json()).errors[0].field, 'into');
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { after, before, describe, it } from 'node:test';
+import { ADMIN_TOKEN, startWorker } from './helpers/worker.mjs';
+
+const BUNDLED_YAML = await readFile(new URL('../config/vision.yaml', import.meta.url), 'utf8');
+
+describe('/api/vision', () => {
+  let worker;
+  let organizerToken;
+  let firstVersion;
+
+  before(async () => {
+    worker = await startWorker();
+    const issued = await worker.request('POST', '/api/admin/tokens', {
+      token: ADMIN_TOKEN,
+      body: { label: 'Vision tests', role: 'organizer' },
+    });
+    organizerToken = (await issued.json()).token;
+  });
+
+  after(() => worker.dispose());
+
+  function putVision(body, { token = ADMIN_TOKEN, type = 'application/yaml' } = {}) {
+    return worker.request('PUT', '/api/vision', { token, body, headers: { 'content-type': type } });
+  }
+
+  async function activeVision() {
+    return (await (await worker.request('GET', '/api/vision')).json()).vision;
+  }
+
+  it('serves the bundled YAML until a version is stored', async () => {
+    const vision = await activeVision();
+    assert.equal(vision.storedVersion, null);
+    assert.equal(vision.version, '1');
+  });
+
+  it('only lets admins change the vision', async () => {
+    const response = await putVision(BUNDLED_YAML, { token: organizerToken });
+    assert.equal(response.status, 403);
+    await response.arrayBuffer();
+  });
+
+  it('rejects documents that fail the schema and keeps the active vision', async () => {
+    const response = await putVision('version: "2"\nmission: Missing everything else.\n');
+    assert.equal(response.status, 400);
+    const body = await response.json();
+    assert.ok(body.errors.some((error) => error.field.startsWith('pillars')));
+    assert.equal((await activeVision()).storedVersion, null);
+  });
+
+  it('stores and activates a YAML document', async () => {
+    const response = await putVision(BUNDLED_YAML.replace('version: "1"', 'version: "2"'));
+    assert.equal(response.status, 200);
+    firstVersion = await response.json();
+    assert.equal(firstVersion.versionLabel, '2');
+    assert.equal(firstVersion.format, 'yaml');
+
+    const vision = await activeVision();
+    assert.equal(vision.storedVersion, firstVersion.id);
+    assert.equal(vision.version, '2');
+  });
+
+  it('stores a JSON document with new storytelling focus areas', async () => {
+    const { vision } = await (await worker.request('GET', '/api/vision')).json();
+    const config = {
+      ...vision.config,
+      version: '3',
+      directory_targets: { ...vision.config.directory_targets, storytelling_focus: ['energy-democracy'] },
+    };
+    const response = await putVision(JSON.stringify(config), { type: 'application/json' });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).format, 'json');
+
+    const { assessment } = await (await worker.request('GET', '/api/vision')).json();
+    assert.deepEqual(assessment.storytellingFocus, ['energy-democracy']);
+  });
+
+  it('restores an earlier version as a new one', async () => {
+    const response = await worker.request('POST', `/api/vision/versions/${firstVersion.id}/restore`, {
+      token: ADMIN_TOKEN,
+    });
+    assert.equal(response.status, 200);
+    const restored = await response.json();
+    assert.ok(restored.id > firstVersion.id);
+    assert.equal(restored.hash, firstVersion.hash);
+    assert.equal(restored.note, `Restored version ${firstVersion.id}`);
+
+    const vision = await activeVision();
+    assert.equal(vision.storedVersion, restored.id);
+    assert.equal(vision.version, '2');
+
+    const list = await (
+      await worker.request('GET', '/api/vision/versions', { token: ADMIN_TOKEN })
+    ).json();
+    assert.equal(list.active, restored.id);
+    assert.deepEqual(
+      list.versions.map((version) => version.versionLabel),
+      ['2', '3', '2'],
+    );
+  });
+
+  it('answers 404 for unknown versions', async () => {
+    const response = await worker.request('POST', '/api/vision/versions/999/restore', {
+      token: ADMIN_TOKEN,
+    });
+    assert.equal(response.status, 404);
+    await response.arrayBuffer();
+  });
+});